@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+// Downloads the CJK font embedded in PDF reports into public/fonts (Noto Sans SC, SIL Open Font License).
+// Google Fonts serves whole static TrueType files to clients that do not send a browser user agent.
+import { mkdir, writeFile } from "fs/promises";
+import { resolve } from "path";
+
+const CSS_URL = process.env.PDF_FONT_CSS_URL || "https://fonts.googleapis.com/css2?family=Noto+Sans+SC:wght@400;700";
+const OUTPUT_DIR = resolve(process.cwd(), "public/fonts");
+const FILES = { 400: "NotoSansSC-Regular.ttf", 700: "NotoSansSC-Bold.ttf" };
+
+const fetchOk = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} (${url})`);
+  }
+  return response;
+};
+
+// One @font-face block per weight: font-weight: 400; src: url(...ttf) format('truetype')
+const parseFontFaces = (css) => {
+  const faces = {};
+  for (const block of css.split("@font-face").slice(1)) {
+    const weight = block.match(/font-weight:\s*(\d+)/)?.[1];
+    const url = block.match(/url\(([^)]+)\)/)?.[1];
+    if (weight && url) faces[weight] = url.replace(/['"]/g, "");
+  }
+  return faces;
+};
+
+const run = async () => {
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  let faces;
+  try {
+    faces = parseFontFaces(await (await fetchOk(CSS_URL)).text());
+  } catch (err) {
+    console.error("Failed to read the font list:", err?.message || err);
+    process.exitCode = 1;
+    return;
+  }
+  for (const [weight, filename] of Object.entries(FILES)) {
+    try {
+      if (!faces[weight]) throw new Error(`weight ${weight} not listed in ${CSS_URL}`);
+      const response = await fetchOk(faces[weight]);
+      await writeFile(resolve(OUTPUT_DIR, filename), Buffer.from(await response.arrayBuffer()));
+      console.log(`Saved public/fonts/${filename}`);
+    } catch (err) {
+      console.error(`Failed to download ${filename}:`, err?.message || err);
+      process.exitCode = 1;
+    }
+  }
+};
+
+run();
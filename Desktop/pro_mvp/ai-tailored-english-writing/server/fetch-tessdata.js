@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+// Downloads Tesseract language data into public/tessdata so the local OCR engine works offline.
+import { mkdir, writeFile } from "fs/promises";
+import { resolve } from "path";
+
+const DATA_URL = process.env.TESSDATA_URL || "https://cdn.jsdelivr.net/npm/@tesseract.js-data";
+const OUTPUT_DIR = resolve(process.cwd(), "public/tessdata");
+
+const langs = process.argv.slice(2).filter((arg) => !arg.startsWith("-"));
+if (!langs.length) langs.push("eng");
+
+const download = async (lang) => {
+  const url = `${DATA_URL}/${lang}/4.0.0_best_int/${lang}.traineddata.gz`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} (${url})`);
+  }
+  const filename = `${lang}.traineddata.gz`;
+  await writeFile(resolve(OUTPUT_DIR, filename), Buffer.from(await response.arrayBuffer()));
+  return filename;
+};
+
+const run = async () => {
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  for (const lang of langs) {
+    try {
+      const filename = await download(lang);
+      console.log(`Saved ${lang} -> public/tessdata/${filename}`);
+    } catch (err) {
+      console.error(`Failed to download ${lang}:`, err?.message || err);
+      process.exitCode = 1;
+    }
+  }
+};
+
+run();
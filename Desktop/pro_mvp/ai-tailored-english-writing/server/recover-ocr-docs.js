@@ -1,14 +1,39 @@
 #!/usr/bin/env node
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, readFile, writeFile } from "fs/promises";
 import { resolve } from "path";
 
 const API_KEY = process.env.HANDWRITING_OCR_API_KEY;
 const BASE_URL = process.env.HANDWRITING_OCR_BASE_URL || "https://www.handwritingocr.com/api/v3";
 const OUTPUT_DIR = resolve(process.cwd(), process.env.OCR_RECOVERY_DIR || "ocr_logs/recovered");
 
-const ids = process.argv.slice(2).filter((arg) => !arg.startsWith("-"));
-if (!ids.length) {
+const args = process.argv.slice(2);
+const stateIndex = args.indexOf("--state");
+const stateFile = stateIndex >= 0 ? args[stateIndex + 1] : undefined;
+const ids = args.filter((arg, index) => !arg.startsWith("-") && (stateIndex < 0 || index !== stateIndex + 1));
+
+// Essays exported from the app ("导出JSON") remember the document id of unfinished uploads:
+// on the essay for single images, on each page (pages[]) for multi-page essays
+const pendingDocumentIds = (essay) => {
+  if (!essay || essay.ocrStatus === "done") return [];
+  if (Array.isArray(essay.pages) && essay.pages.length) {
+    return essay.pages.filter((page) => page?.ocrDocumentId && !page.ocrText).map((page) => page.ocrDocumentId);
+  }
+  return essay.ocrDocumentId ? [essay.ocrDocumentId] : [];
+};
+
+const readStateIds = async (file) => {
+  const data = JSON.parse(await readFile(resolve(process.cwd(), file), "utf-8"));
+  const essays = Array.isArray(data) ? data : data?.essays || [];
+  return Array.from(new Set(essays.flatMap(pendingDocumentIds)));
+};
+
+if (stateIndex >= 0 && !stateFile) {
+  console.error("--state expects a path to an exported essays JSON file");
+  process.exit(1);
+}
+if (!ids.length && !stateFile) {
   console.error("Usage: HANDWRITING_OCR_API_KEY=... node server/recover-ocr-docs.js <id1> [id2 id3...]");
+  console.error("       HANDWRITING_OCR_API_KEY=... node server/recover-ocr-docs.js --state essays.json");
   process.exit(1);
 }
 
@@ -61,6 +86,11 @@ const saveMarkdown = async (id, transcript) => {
 };
 
 const run = async () => {
+  if (stateFile) {
+    const stateIds = await readStateIds(stateFile);
+    console.log(`Found ${stateIds.length} unfinished OCR document(s) in ${stateFile}`);
+    ids.push(...stateIds.filter((id) => !ids.includes(id)));
+  }
   for (const id of ids) {
     try {
       const transcript = await fetchDocument(id);
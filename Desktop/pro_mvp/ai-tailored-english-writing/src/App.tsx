@@ -1,24 +1,81 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { AgentConfig, EssayData, ProcessingStatus, StudentLevel, WorkflowMode } from './types';
+import { AgentConfig, Assignment, EssayData, EssayPage, ExportOptions, GradebookOptions, ImagePreprocessSettings, ProcessingStatus, SchoolClass, Student, StudentLevel, WorkflowMode } from './types';
 import { processEssayAgent } from './services/aiAgent';
-import { transcribeHandwriting } from './services/handwritingOcr';
 import { DEFAULT_MODEL } from './services/modelRegistry';
 import { parseMarkdownFiles } from './services/markdownImport';
-import { loadPersistedEssays, persistEssays } from './services/persistence';
+import {
+  StorageLoadError,
+  clearPersistedEssays,
+  getStorageUsage,
+  hasResumableOcr,
+  isStorageLoadError,
+  loadPersistedAssignments,
+  loadPersistedClasses,
+  loadPersistedConfig,
+  loadPersistedEssays,
+  loadPersistedRoster,
+  persistAssignments,
+  persistClasses,
+  persistConfig,
+  persistEssays,
+  persistRoster
+} from './services/persistence';
+import { addAlias, applyRosterMatch, createStudent, matchStudent } from './services/roster';
+import { DEFAULT_QUEUE_SETTINGS, QueueSnapshot, createProcessingQueue } from './services/processingQueue';
+import { getOcrEngine, runOcr } from './services/ocrEngines';
+import { canResumeDocument } from './services/handwritingOcr';
+import {
+  createPagedEssayFields,
+  getEssayPages,
+  groupFilesByPage,
+  joinPageTexts,
+  joinPageWords,
+  mergeEssays,
+  movePage,
+  replacePageImage,
+  splitPage,
+  updatePage
+} from './services/essayPages';
+import { DEFAULT_PREPROCESS_SETTINGS, preprocessImage } from './services/imagePreprocess';
+import { AssignmentScope, EMPTY_SCOPE, UNASSIGNED, filterByScope, findAssignment, resolveGradingConfig, resolveTopic } from './services/assignments';
 import UploadZone from './components/UploadZone';
 import EssayCard from './components/EssayCard';
 import Sidebar from './components/Sidebar';
 import AnalyticsDashboard from './components/AnalyticsDashboard';
-import PDFExportModal, { ExportOptions } from './components/PDFExportModal';
-import { DownloadIcon, PrinterIcon, DocumentTextIcon, ChartBarIcon, ListBulletIcon, ChevronDownIcon, ChevronUpIcon } from './components/Icons';
-
-declare global {
-  interface Window {
-    html2pdf?: any;
-  }
-}
-
-const HTML2PDF_CDN = 'https://cdnjs.cloudflare.com/ajax/libs/html2pdf.js/0.10.1/html2pdf.bundle.min.js';
+import PDFExportModal from './components/PDFExportModal';
+import GradebookExportModal from './components/GradebookExportModal';
+import WorkspaceImportModal from './components/WorkspaceImportModal';
+import StorageErrorScreen from './components/StorageErrorScreen';
+import TrashBinModal from './components/TrashBinModal';
+import Toast from './components/Toast';
+import RosterManager from './components/RosterManager';
+import StudentProfile from './components/StudentProfile';
+import AssignmentManager from './components/AssignmentManager';
+import ScopeFilter from './components/ScopeFilter';
+import { EditedImage } from './components/ImageEditor';
+import OcrVerificationView from './components/OcrVerificationView';
+import { applyVerifiedTranscript, needsOcrVerification, passesVerificationGate } from './services/ocrVerification';
+import { createGradebook } from './services/gradebook';
+import { ImportedWorkspace, WorkspaceImportMode, createWorkspaceArchive, mergeWorkspace, readWorkspaceArchive } from './services/workspaceArchive';
+import { isApproved } from './services/review';
+import { recordGradingRun } from './services/gradingHistory';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  EditCommand,
+  EssayChange,
+  WorkspaceLists,
+  applyToEssays,
+  applyToTrash,
+  canApply,
+  describeUpdate,
+  listsFor,
+  purgeExpiredTrash,
+  pushCommand,
+  restoreChange,
+  trashChanges,
+  updateChange
+} from './services/editHistory';
+import { DownloadIcon, PrinterIcon, DocumentTextIcon, ChartBarIcon, ListBulletIcon, ChevronDownIcon, ChevronUpIcon, UsersIcon, BookOpenIcon, TableCellsIcon, ArchiveBoxArrowDownIcon, ArrowUpTrayIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, TrashIcon } from './components/Icons';
 
 // --- Initial Config State ---
 const INITIAL_CONFIG: AgentConfig = {
@@ -30,6 +87,12 @@ const INITIAL_CONFIG: AgentConfig = {
   model: { ...DEFAULT_MODEL }
 };
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
 const readFileAsDataUrl = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -39,29 +102,28 @@ const readFileAsDataUrl = (file: File): Promise<string> => {
   });
 };
 
-const ensureHtml2Pdf = (): Promise<any> => {
-  if (typeof window === 'undefined') return Promise.reject(new Error('PDF export is only available in the browser'));
-  if (window.html2pdf) return Promise.resolve(window.html2pdf);
-
-  return new Promise((resolve, reject) => {
-    const existing = document.querySelector('script[data-html2pdf]');
-    const handleLoad = () => window.html2pdf ? resolve(window.html2pdf) : reject(new Error('html2pdf failed to initialize'));
-    const handleError = () => reject(new Error('无法加载PDF导出组件，请检查网络后重试'));
-
-    if (existing) {
-      existing.addEventListener('load', handleLoad, { once: true });
-      existing.addEventListener('error', handleError, { once: true });
-      return;
-    }
+// The processed image is what OCR reads and what gets stored; the upload itself stays in memory for comparison
+const prepareUploadImage = async (file: File, settings: ImagePreprocessSettings): Promise<Pick<EssayPage, 'file' | 'originalFile' | 'preprocessSummary'>> => {
+  if (!settings.enabled) return { file };
+  try {
+    const result = await preprocessImage(file, settings);
+    return { file: result.file, originalFile: file, preprocessSummary: result.steps.join(' · ') };
+  } catch (err) {
+    console.warn('Image preprocessing failed, keeping the original upload', err);
+    return { file };
+  }
+};
 
-    const script = document.createElement('script');
-    script.src = HTML2PDF_CDN;
-    script.async = true;
-    script.dataset.html2pdf = 'true';
-    script.onload = handleLoad;
-    script.onerror = handleError;
-    document.head.appendChild(script);
-  });
+// Revoked on the next tick so the browser has picked up the download
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 };
 
 const App: React.FC = () => {
@@ -69,8 +131,20 @@ const App: React.FC = () => {
   const [essays, setEssays] = useState<EssayData[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
   const [showPdfModal, setShowPdfModal] = useState(false);
-  const [activeTab, setActiveTab] = useState<'list' | 'analytics'>('list');
+  const [showGradebookModal, setShowGradebookModal] = useState(false);
+  const [importedWorkspace, setImportedWorkspace] = useState<ImportedWorkspace | null>(null);
+  const workspaceInputRef = useRef<HTMLInputElement>(null);
+  const [showVerification, setShowVerification] = useState(false);
+  const [activeTab, setActiveTab] = useState<'list' | 'analytics' | 'students' | 'assignments'>('list');
+  const [roster, setRoster] = useState<Student[]>([]);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  // New uploads are attached to this assignment
+  const [uploadAssignmentId, setUploadAssignmentId] = useState('');
+  const [scope, setScope] = useState<AssignmentScope>(EMPTY_SCOPE);
+  const [selectedStudentId, setSelectedStudentId] = useState<string | undefined>(undefined);
   const [sortOption, setSortOption] = useState<'added-desc' | 'added-asc' | 'name-asc' | 'name-desc'>('added-desc');
   const [batchFilter, setBatchFilter] = useState<'all' | 'batched' | 'unbatched'>('all');
   const [workflowMode, setWorkflowMode] = useState<WorkflowMode>(() => {
@@ -79,8 +153,26 @@ const App: React.FC = () => {
     return (saved as WorkflowMode) || 'auto';
   });
   const [restoredFromStorage, setRestoredFromStorage] = useState(false);
+  // Nothing is written back until the stored essays/config have been loaded
+  const [storageReady, setStorageReady] = useState(false);
+  // Deleted essays, most recent first; saved with the essays until they expire
+  const [trash, setTrash] = useState<EssayData[]>([]);
+  const [showTrash, setShowTrash] = useState(false);
+  // Teacher edits, for Ctrl+Z / Ctrl+Shift+Z (this session only)
+  const [undoStack, setUndoStack] = useState<EditCommand[]>([]);
+  const [redoStack, setRedoStack] = useState<EditCommand[]>([]);
+  const [toast, setToast] = useState<{ message: string; canUndo?: boolean } | null>(null);
+  const toastTimeoutRef = useRef<number | undefined>(undefined);
+  // Saved essays that could not be read; the app stays on the error screen and writes nothing
+  const [storageError, setStorageError] = useState<StorageLoadError | null>(null);
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [preprocessProgress, setPreprocessProgress] = useState<{ done: number; total: number } | null>(null);
   const hasScrolledAfterRestore = useRef(false);
+  const hasResumedOcr = useRef(false);
   const abortControllers = useRef<Record<string, AbortController>>({});
+  // Shared by every OCR/grading run so concurrency and rate limits hold across batches and retries
+  const queueRef = useRef(createProcessingQueue(DEFAULT_QUEUE_SETTINGS));
+  const [queueState, setQueueState] = useState<QueueSnapshot>(() => queueRef.current.getSnapshot());
   const persistTimeoutRef = useRef<number | undefined>(undefined);
 
   // Workflow Layout State
@@ -95,19 +187,46 @@ const App: React.FC = () => {
   }, [workflowMode]);
 
   useEffect(() => {
-    const restored = loadPersistedEssays();
-    if (restored.length > 0) {
-      setEssays(restored);
-      setRestoredFromStorage(true);
-    }
+    let cancelled = false;
+    Promise.all([
+      loadPersistedEssays(),
+      loadPersistedConfig(),
+      loadPersistedRoster(),
+      loadPersistedClasses(),
+      loadPersistedAssignments()
+    ]).then(([restored, savedConfig, savedRoster, savedClasses, savedAssignments]) => {
+      if (cancelled) return;
+      if (savedConfig) setConfig({ ...INITIAL_CONFIG, ...savedConfig });
+      setRoster(savedRoster);
+      setClasses(savedClasses);
+      setAssignments(savedAssignments);
+      const listed = restored.filter(essay => !essay.deletedAt);
+      setTrash(restored.filter(essay => essay.deletedAt).sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!)));
+      if (listed.length > 0) {
+        // Keep anything uploaded while the store was still opening
+        setEssays(prev => [...listed, ...prev]);
+        setRestoredFromStorage(true);
+      }
+      setStorageReady(true);
+      getStorageUsage().then(setStorageUsage);
+    }).catch((err) => {
+      if (cancelled) return;
+      if (isStorageLoadError(err)) setStorageError(err);
+      else console.error('Failed to load saved data', err);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   useEffect(() => {
+    if (!storageReady) return;
     if (persistTimeoutRef.current) {
       window.clearTimeout(persistTimeoutRef.current);
     }
     persistTimeoutRef.current = window.setTimeout(() => {
-      persistEssays(essays);
+      // Trashed essays stay in storage (with their images) until they expire
+      persistEssays([...essays, ...trash]).then(() => getStorageUsage()).then(setStorageUsage);
     }, 600);
 
     return () => {
@@ -115,7 +234,47 @@ const App: React.FC = () => {
         window.clearTimeout(persistTimeoutRef.current);
       }
     };
-  }, [essays]);
+  }, [essays, trash, storageReady]);
+
+  const trashRetentionDays = config.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  useEffect(() => {
+    if (!storageReady) return;
+    setTrash(prev => purgeExpiredTrash(prev, trashRetentionDays));
+  }, [storageReady, trashRetentionDays]);
+
+  useEffect(() => {
+    if (!storageReady) return;
+    persistConfig(config);
+  }, [config, storageReady]);
+
+  useEffect(() => queueRef.current.subscribe(setQueueState), []);
+
+  useEffect(() => {
+    queueRef.current.setSettings({ ...DEFAULT_QUEUE_SETTINGS, ...config.queue });
+  }, [config.queue]);
+
+  const preprocessSettings = useMemo(
+    () => ({ ...DEFAULT_PREPROCESS_SETTINGS, ...config.preprocess }),
+    [config.preprocess]
+  );
+
+  const reportContext = useMemo(() => ({ assignments, classes, roster }), [assignments, classes, roster]);
+
+  useEffect(() => {
+    if (!storageReady) return;
+    persistRoster(roster);
+  }, [roster, storageReady]);
+
+  useEffect(() => {
+    if (!storageReady) return;
+    persistClasses(classes);
+  }, [classes, storageReady]);
+
+  useEffect(() => {
+    if (!storageReady) return;
+    persistAssignments(assignments);
+  }, [assignments, storageReady]);
 
   useEffect(() => {
     if (!restoredFromStorage || hasScrolledAfterRestore.current || essays.length === 0) return;
@@ -133,21 +292,52 @@ const App: React.FC = () => {
   const handleUploadFiles = useCallback(async (files: FileList) => {
     const fileArr = Array.from(files);
     if (fileArr.length === 0) return;
-    const newEssays: EssayData[] = await Promise.all(fileArr.map(async (file) => {
-      let imagePreview = '';
+    const readPreview = async (file: File) => {
       try {
-        imagePreview = await readFileAsDataUrl(file);
+        return await readFileAsDataUrl(file);
       } catch (err) {
         console.warn('Could not read file for preview', err);
-        imagePreview = URL.createObjectURL(file);
+        return URL.createObjectURL(file);
+      }
+    };
+    // One image at a time: canvas work on phone photos is memory hungry
+    const settings = preprocessSettings;
+    const groups = groupFilesByPage(fileArr);
+    const prepared: Pick<EssayPage, 'file' | 'originalFile' | 'preprocessSummary'>[][] = [];
+    let done = 0;
+    if (settings.enabled) setPreprocessProgress({ done, total: fileArr.length });
+    try {
+      for (const group of groups) {
+        const images = [];
+        for (const file of group) {
+          images.push(await prepareUploadImage(file, settings));
+          done += 1;
+          if (settings.enabled) setPreprocessProgress({ done, total: fileArr.length });
+        }
+        prepared.push(images);
       }
+    } finally {
+      setPreprocessProgress(null);
+    }
+    // name_p1.jpg + name_p2.jpg become one essay with two pages
+    const newEssays: EssayData[] = await Promise.all(groups.map(async (group, groupIndex) => {
+      const id = Math.random().toString(36).substr(2, 9);
+      const images = prepared[groupIndex];
+      const previews = await Promise.all(images.map((image) => readPreview(image.file)));
+      const pageFields = group.length > 1
+        ? createPagedEssayFields(group.map((file, index) => ({
+          id: index === 0 ? id : `${id}-p${index + 1}`,
+          ...images[index],
+          imagePreview: previews[index],
+          fileName: file.name
+        })))
+        : { ...images[0], imagePreview: previews[0], sourceFileName: group[0].name };
       return {
-        id: Math.random().toString(36).substr(2, 9),
+        id,
         submissionType: 'image',
-        file,
-        imagePreview,
+        ...pageFields,
         addedAt: new Date().toISOString(),
-        sourceFileName: file.name,
+        assignmentId: uploadAssignmentId || undefined,
         status: ProcessingStatus.PENDING,
         ocrText: "",
         ocrStatus: 'idle',
@@ -157,19 +347,20 @@ const App: React.FC = () => {
       };
     }));
     setEssays(prev => [...prev, ...newEssays]);
-  }, []);
+  }, [uploadAssignmentId, preprocessSettings]);
 
   // --- Handler: Markdown Upload ---
   const handleUploadMarkdown = useCallback(async (files: FileList) => {
     const fileArr = Array.from(files).slice(0, 100);
     if (fileArr.length === 0) return;
-    const { essays: parsed, errors } = await parseMarkdownFiles(fileArr);
+    const { essays: parsed, errors } = await parseMarkdownFiles(fileArr, roster);
     if (errors.length) {
       console.warn('Markdown parse errors', errors);
       alert(`部分MD解析失败：\n${errors.join('\n')}`);
     }
-    setEssays(prev => [...prev, ...parsed]);
-  }, []);
+    const assignmentId = uploadAssignmentId || undefined;
+    setEssays(prev => [...prev, ...parsed.map(e => ({ ...e, assignmentId }))]);
+  }, [roster, uploadAssignmentId]);
 
   // --- Handler: Text Submission ---
   const handleTextSubmission = useCallback((data: { name: string; topic: string; text: string }) => {
@@ -179,6 +370,7 @@ const App: React.FC = () => {
       status: ProcessingStatus.PENDING,
       studentName: data.name,
       topic: data.topic,
+      assignmentId: uploadAssignmentId || undefined,
       addedAt: new Date().toISOString(),
       ocrText: "",
       ocrStatus: 'skipped',
@@ -187,8 +379,8 @@ const App: React.FC = () => {
       progressMessage: 'Waiting in queue',
       rawText: data.text
     };
-    setEssays(prev => [...prev, newEssay]);
-  }, []);
+    setEssays(prev => [...prev, applyRosterMatch(newEssay, roster)]);
+  }, [roster, uploadAssignmentId]);
 
   const updateEssay = (id: string, payload: Partial<EssayData>) => {
     setEssays(prev => prev.map(e => e.id === id ? { ...e, ...payload } : e));
@@ -208,14 +400,20 @@ const App: React.FC = () => {
     return Boolean((essay.rawText && essay.rawText.trim()) || (essay.ocrText && essay.ocrText.trim()));
   };
 
+  // AI-only grading can be held back until the teacher has checked the OCR text
+  const isReadyForAi = (essay: EssayData) =>
+    essay.gradingStatus !== 'done' && hasTextContent(essay) && passesVerificationGate(essay, config.gradeVerifiedOnly);
+
   const markBatchTargets = (ids: string[], batchId: string) => {
     if (!ids.length) return;
     const idSet = new Set(ids);
     setEssays(prev => prev.map(e => (idSet.has(e.id) ? { ...e, batchId } : e)));
   };
 
+  const scopedEssays = useMemo(() => filterByScope(essays, scope, assignments), [essays, scope, assignments]);
+
   const visibleEssays = useMemo(() => {
-    const filtered = essays.filter((essay) => {
+    const filtered = scopedEssays.filter((essay) => {
       if (batchFilter === 'batched') return Boolean(essay.batchId);
       if (batchFilter === 'unbatched') return !essay.batchId;
       return true;
@@ -251,7 +449,7 @@ const App: React.FC = () => {
     });
 
     return entries.map((entry) => entry.essay);
-  }, [essays, sortOption, batchFilter]);
+  }, [scopedEssays, sortOption, batchFilter]);
 
   const pickTargetsForMode = (mode: WorkflowMode) => {
     return essays.filter((e) => {
@@ -259,11 +457,39 @@ const App: React.FC = () => {
       const needsOcr = e.submissionType === 'image' && e.ocrStatus !== 'done';
       const needsAi = e.gradingStatus !== 'done';
       if (mode === 'ocr_only') return needsOcr;
-      if (mode === 'ai_only') return needsAi && hasTextContent(e);
+      if (mode === 'ai_only') return isReadyForAi(e);
       return needsOcr || needsAi;
     });
   };
 
+  const updateEssayPage = (id: string, pageId: string, patch: Partial<EssayPage>) => {
+    setEssays(prev => prev.map(e => e.id === id ? updatePage(e, pageId, patch) : e));
+  };
+
+  // Transcribes one page through the queue; a remembered handwritingocr.com upload is polled again rather than paid for twice
+  const runPageOcr = (essay: EssayData, page: EssayPage, label: string, signal: AbortSignal) => {
+    const documentId = page.ocrDocumentId && canResumeDocument(page.ocrUploadedAt) ? page.ocrDocumentId : undefined;
+    const engine = getOcrEngine(documentId ? 'handwritingocr' : config.ocr?.engine);
+    return queueRef.current.run(
+      'ocr',
+      engine.queueProvider(config),
+      () => runOcr(page.file as File, {
+        config,
+        engine: engine.id,
+        signal,
+        documentId,
+        onDocumentCreated: (id) => updateEssayPage(essay.id, page.id, { ocrDocumentId: id, ocrUploadedAt: new Date().toISOString() }),
+        onProgress: (message) => updateEssay(essay.id, { progressMessage: `${label}${message}` })
+      }),
+      {
+        signal,
+        onStart: () => updateEssay(essay.id, {
+          progressMessage: documentId ? `${label}继续获取已上传的OCR结果...` : `${label}正在执行OCR（${engine.label}）...`
+        })
+      }
+    );
+  };
+
   const runOcrStep = async (essay: EssayData, options: { continueToAi?: boolean } = {}) => {
     if (essay.submissionType !== 'image' || !essay.file) return essay;
     const controller = registerController(essay.id);
@@ -271,14 +497,30 @@ const App: React.FC = () => {
       status: ProcessingStatus.PROCESSING,
       ocrStatus: 'processing',
       progressStep: 'ocr',
-      progressMessage: '正在执行手写OCR...'
+      progressMessage: '排队等待OCR...'
     });
 
     try {
-      const text = await transcribeHandwriting(essay.file, { signal: controller.signal });
+      // Pages run in order; on a retry, pages that already have a transcript are kept
+      let pages = getEssayPages(essay);
+      const multiPage = pages.length > 1;
+      for (const page of pages) {
+        if (multiPage && page.ocrText) continue;
+        if (!page.file) throw new Error(`第 ${pages.indexOf(page) + 1} 页图片不可用，请重新上传`);
+        const label = multiPage ? `第 ${pages.indexOf(page) + 1}/${pages.length} 页：` : '';
+        const result = await runPageOcr(essay, page, label, controller.signal);
+        const pagePatch = { ocrText: result.text, ocrWords: result.words };
+        pages = pages.map((item) => (item.id === page.id ? { ...item, ...pagePatch } : item));
+        if (multiPage) updateEssayPage(essay.id, page.id, pagePatch);
+      }
+      const text = multiPage ? joinPageTexts(pages.map((page) => page.ocrText)) : pages[0].ocrText as string;
       const updated: EssayData = {
         ...essay,
+        // Also a one-page list saved before withPages folded single pages back onto the essay
+        ...(essay.pages ? { pages } : {}),
         ocrText: text,
+        ocrWords: joinPageWords(pages),
+        ocrVerifiedAt: undefined,
         ocrStatus: 'done',
         progressStep: 'ocr_complete',
         progressMessage: options.continueToAi ? 'OCR完成，准备AI批改' : 'OCR完成，等待AI',
@@ -301,36 +543,66 @@ const App: React.FC = () => {
     }
   };
 
+  // Uploads interrupted by a reload keep polling on their own; grading is left to the user
+  useEffect(() => {
+    if (!storageReady || hasResumedOcr.current) return;
+    hasResumedOcr.current = true;
+    essays.filter(hasResumableOcr).forEach((essay) => {
+      runOcrStep(essay).catch((err) => console.warn('Could not resume OCR', essay.id, err));
+    });
+  }, [storageReady]);
+
   const runGradingStep = async (essay: EssayData) => {
     const controller = registerController(essay.id);
+    const assignment = findAssignment(assignments, essay.assignmentId);
+    const gradingConfig = resolveGradingConfig(config, assignment);
     updateEssay(essay.id, {
       status: ProcessingStatus.PROCESSING,
       gradingStatus: 'processing',
       progressStep: 'grading',
-      progressMessage: `AI批改中（${config.model.provider}:${config.model.model}）`
+      progressMessage: '排队等待AI批改...'
     });
 
     try {
-      const result = await processEssayAgent(
-        { ...essay, ocrText: essay.ocrText || essay.rawText || '' },
-        config,
-        (update) => {
-          updateEssay(essay.id, {
-            ...update,
-            gradingStatus: update.progressStep === 'done' ? 'done' : 'processing'
-          });
-        },
-        { skipOcr: true, signal: controller.signal }
+      const result = await queueRef.current.run(
+        'grading',
+        config.model.provider,
+        () => processEssayAgent(
+          { ...essay, ocrText: essay.ocrText || essay.rawText || '', topic: resolveTopic(essay, assignment) },
+          gradingConfig,
+          (update) => {
+            updateEssay(essay.id, {
+              ...update,
+              gradingStatus: update.progressStep === 'done' ? 'done' : 'processing'
+            });
+          },
+          { signal: controller.signal, roster }
+        ),
+        {
+          signal: controller.signal,
+          onStart: () => updateEssay(essay.id, {
+            progressMessage: `AI批改中（${config.model.provider}:${config.model.model}${assignment ? ` · ${assignment.title}` : ''}）`
+          })
+        }
       );
 
+      // processEssayAgent reports failures on the returned essay instead of throwing
+      if (result.status === ProcessingStatus.CANCELLED) throw new Error('Processing cancelled');
+      if (result.status === ProcessingStatus.ERROR) throw new Error(result.errorMessage || 'AI批改失败');
+
       const updated: EssayData = {
         ...essay,
         ...result,
+        topic: essay.topic, // The assignment text is only sent to the grader, not copied onto the essay
         status: ProcessingStatus.COMPLETED,
         gradingStatus: 'done',
         ocrStatus: result.ocrText ? (essay.ocrStatus || 'done') : essay.ocrStatus,
         progressStep: 'done',
-        progressMessage: '批改完成'
+        progressMessage: '批改完成',
+        // Earlier runs (and the teacher's edits of them) stay in the history
+        ...recordGradingRun(essay, result.gradingResult, gradingConfig, assignment),
+        // A fresh grading needs a fresh review
+        approvedAt: undefined
       };
       updateEssay(essay.id, updated);
       return updated;
@@ -360,8 +632,9 @@ const App: React.FC = () => {
     setActiveTab('list');
     setIsInputExpanded(false); // Auto collapse input to focus on results
 
+    // Every essay runs its own OCR → grading chain; the queue decides how many run at once
     try {
-      for (const essay of targets) {
+      await Promise.all(targets.map(async (essay) => {
         try {
           let current = essay;
           const needsOcr = current.submissionType === 'image' && current.ocrStatus !== 'done';
@@ -381,14 +654,14 @@ const App: React.FC = () => {
                 progressMessage: '缺少可批改的文本，请先完成OCR',
                 errorMessage: '缺少可批改的文本，请先完成OCR'
               });
-              continue;
+              return;
             }
             await runGradingStep(current);
           }
         } catch (err) {
           console.error('Processing failed', err);
         }
-      }
+      }));
     } finally {
       setIsProcessing(false);
     }
@@ -426,15 +699,15 @@ const App: React.FC = () => {
     setActiveTab('list');
     try {
       await runGradingStep(target);
+    } catch (err) {
+      console.error('AI grading failed', err);
     } finally {
       setIsProcessing(false);
     }
   };
 
   const handleBatchAi = async () => {
-    const aiTargets = essays.filter(
-      (e) => e.gradingStatus !== 'done' && e.status !== ProcessingStatus.PROCESSING && hasTextContent(e)
-    );
+    const aiTargets = essays.filter((e) => e.status !== ProcessingStatus.PROCESSING && isReadyForAi(e));
     if (aiTargets.length === 0) return;
     const batchId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
     markBatchTargets(aiTargets.map((essay) => essay.id), batchId);
@@ -469,22 +742,255 @@ const App: React.FC = () => {
     } : e));
   };
 
+  // --- Undo / redo ---
+  const showToast = (message: string, canUndo = false) => {
+    window.clearTimeout(toastTimeoutRef.current);
+    setToast({ message, canUndo });
+    toastTimeoutRef.current = window.setTimeout(() => setToast(null), 6000);
+  };
+
+  const applyLists = (lists: WorkspaceLists) => {
+    if (lists.roster) setRoster(lists.roster);
+    if (lists.classes) setClasses(lists.classes);
+    if (lists.assignments) setAssignments(lists.assignments);
+  };
+
+  /**
+   * Teacher edits go through here so they can be undone; changes that change nothing are dropped.
+   * `nextLists` replaces the roster, classes and/or assignments in the same step.
+   */
+  const performEdit = (label: string, changes: (EssayChange | undefined)[], coalesceKey?: string, nextLists?: WorkspaceLists) => {
+    const applied = changes.filter((change): change is EssayChange => Boolean(change));
+    if (!applied.length && !nextLists) return undefined;
+    const lists = nextLists && {
+      before: {
+        ...(nextLists.roster && { roster }),
+        ...(nextLists.classes && { classes }),
+        ...(nextLists.assignments && { assignments })
+      },
+      after: nextLists
+    };
+    const command: EditCommand = { label, at: Date.now(), changes: applied, lists, coalesceKey };
+    setEssays(prev => applyToEssays(prev, command, 'redo'));
+    setTrash(prev => applyToTrash(prev, command, 'redo'));
+    applyLists(listsFor(command, 'redo'));
+    setUndoStack(prev => pushCommand(prev, command));
+    setRedoStack([]);
+    // An undo button on the toast would no longer undo what it names
+    if (toast?.canUndo) setToast(null);
+    return command;
+  };
+
+  const replayEdit = (direction: 'undo' | 'redo') => {
+    const stack = direction === 'undo' ? undoStack : redoStack;
+    const command = stack[stack.length - 1];
+    if (!command) return;
+    const setFrom = direction === 'undo' ? setUndoStack : setRedoStack;
+    const setTo = direction === 'undo' ? setRedoStack : setUndoStack;
+    setFrom(prev => prev.slice(0, -1));
+    if (!canApply(essays, trash, command, direction, { roster, classes, assignments })) {
+      showToast(`无法${direction === 'undo' ? '撤销' : '重做'}「${command.label}」：相关作文或名单之后已被修改`);
+      return;
+    }
+    setEssays(prev => applyToEssays(prev, command, direction));
+    setTrash(prev => applyToTrash(prev, command, direction));
+    applyLists(listsFor(command, direction));
+    setTo(prev => [...prev, command]);
+    showToast(`${direction === 'undo' ? '已撤销' : '已重做'}：${command.label}`);
+  };
+
+  const handleUndo = () => replayEdit('undo');
+  const handleRedo = () => replayEdit('redo');
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || showVerification) return;
+      const key = event.key.toLowerCase();
+      const redo = (key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey);
+      if (key !== 'z' && !redo) return;
+      // Text fields keep the browser's own undo while typing
+      if ((event.target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      event.preventDefault();
+      if (redo) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
   // --- Handler: Delete Essay ---
+  // Deleted essays go to the trash; running work on them is cancelled
+  const moveToTrash = (ids: string[], label: string) => {
+    ids.forEach(id => abortControllers.current[id]?.abort());
+    return performEdit(label, trashChanges(essays, ids));
+  };
+
   const handleDelete = (id: string) => {
-    setEssays(prev => prev.filter(e => e.id !== id));
+    const essay = essays.find(e => e.id === id);
+    if (moveToTrash([id], '删除作文')) showToast(`已删除「${essay?.studentName || 'Unknown Student'}」`, true);
   };
 
   const handleClearAll = () => {
     if (!essays.length) return;
-    const confirmClear = window.confirm('确定清空所有AI批改记录？此操作不可撤销。');
+    const confirmClear = window.confirm(`确定清空所有AI批改记录？作文会移到回收站，${trashRetentionDays} 天内可恢复。`);
     if (!confirmClear) return;
-    setEssays([]);
-    persistEssays([]);
+    if (moveToTrash(essays.map(e => e.id), '清空全部作文')) showToast(`已清空 ${essays.length} 篇作文`, true);
+  };
+
+  // --- Trash ---
+  const handleRestoreFromTrash = (id: string) => {
+    const essay = trash.find(e => e.id === id);
+    if (!essay) return;
+    performEdit('从回收站恢复', [restoreChange(essay, essays.length)]);
+  };
+
+  // Removing them from the trash deletes their records and images from storage
+  const handleDeleteForever = (ids: string[]) => {
+    setTrash(prev => prev.filter(e => !ids.includes(e.id)));
+  };
+
+  // --- Multi-page essays ---
+  const isBusy = (essay: EssayData) => essay.status === ProcessingStatus.PROCESSING;
+
+  // Dropping one image card onto another appends its pages to the target
+  const handleMergeEssays = (sourceId: string, targetId: string) => {
+    const source = essays.find(e => e.id === sourceId);
+    const target = essays.find(e => e.id === targetId);
+    if (!source || !target || source.id === target.id) return;
+    if (source.submissionType !== 'image' || target.submissionType !== 'image') return;
+    if (isBusy(source) || isBusy(target)) {
+      alert('处理中的作文不能合并，请等待完成或取消后再试');
+      return;
+    }
+    if ((source.gradingResult || target.gradingResult) && !window.confirm('合并后需要重新批改，现有批改结果将被清除。继续？')) return;
+    performEdit('合并作文', [
+      updateChange(target, mergeEssays(target, source), true),
+      { kind: 'remove', essay: source, index: essays.indexOf(source) }
+    ]);
+  };
+
+  const handleMovePage = (essayId: string, pageId: string, delta: number) => {
+    const essay = essays.find(e => e.id === essayId);
+    if (!essay || isBusy(essay)) return;
+    if (essay.gradingResult && !window.confirm('调整页序后需要重新批改，现有批改结果将被清除。继续？')) return;
+    performEdit('调整页序', [updateChange(essay, movePage(essay, pageId, delta), true)]);
+  };
+
+  const handleSplitPage = (essayId: string, pageId: string) => {
+    const essay = essays.find(e => e.id === essayId);
+    if (!essay || isBusy(essay)) return;
+    if (essay.gradingResult && !window.confirm('拆分后两篇作文都需要重新批改，现有批改结果将被清除。继续？')) return;
+    const result = splitPage(essay, pageId);
+    if (!result) return;
+    const [rest, split] = result;
+    performEdit('拆分页面', [
+      updateChange(essay, rest, true),
+      { kind: 'insert', essay: split, index: essays.indexOf(essay) + 1 }
+    ]);
+  };
+
+  // Manual rotate/crop from the image editor; the page has to be transcribed again
+  const handleReplacePageImage = (essayId: string, pageId: string, image: EditedImage) => {
+    const essay = essays.find(e => e.id === essayId);
+    if (!essay || isBusy(essay)) return;
+    if (essay.gradingResult && !window.confirm('更换图片后需要重新OCR和批改，现有批改结果将被清除。继续？')) return;
+    performEdit('编辑图片', [updateChange(essay, replacePageImage(essay, pageId, image), true)]);
+  };
+
+  const handleSaveVerifiedTranscript = (id: string, text: string, verified: boolean) => {
+    const essay = essays.find(e => e.id === id);
+    if (!essay) return;
+    performEdit('核对OCR', [updateChange(essay, applyVerifiedTranscript(essay, text, verified), true)]);
   };
 
   // --- Handler: Update Essay (Edit) ---
+  // Typing in one field is a single undo step (see pushCommand)
   const handleUpdate = (id: string, newData: Partial<EssayData>) => {
-    setEssays(prev => prev.map(e => e.id === id ? { ...e, ...newData } : e));
+    const essay = essays.find(e => e.id === id);
+    if (!essay) return;
+    performEdit(describeUpdate(newData), [updateChange(essay, newData)], `${id}:${Object.keys(newData).sort().join(',')}`);
+  };
+
+  // --- Roster ---
+  // Keep linked essays' display names in sync with the roster; unlink essays of removed students
+  const handleRosterChange = (next: Student[]) => {
+    const label = next.length < roster.length ? '删除学生' : next.length > roster.length ? '添加学生' : '编辑花名册';
+    performEdit(label, essays.map(e => {
+      if (!e.studentId) return undefined;
+      const student = next.find(s => s.id === e.studentId);
+      return updateChange(e, student ? { studentName: student.name } : { studentId: undefined });
+    }), label === '编辑花名册' ? 'roster' : undefined, { roster: next });
+  };
+
+  // Linking learns the spellings used in those essays as aliases, so later uploads match automatically
+  const linkEssaysToStudent = (essayIds: string[], student: Student) => {
+    let learned = student;
+    essays
+      .filter(e => essayIds.includes(e.id))
+      .forEach(e => { learned = addAlias(learned, e.extractedName || e.studentName); });
+    const nextRoster = roster.some(s => s.id === learned.id)
+      ? roster.map(s => s.id === learned.id ? learned : s)
+      : [...roster, learned];
+    performEdit('关联学生', essays
+      .filter(e => essayIds.includes(e.id))
+      .map(e => updateChange(e, { studentId: learned.id, studentName: learned.name })), undefined, { roster: nextRoster });
+  };
+
+  const handleAssignStudent = (essayId: string, target: string | null) => {
+    const essay = essays.find(e => e.id === essayId);
+    if (!essay) return;
+    if (!target) {
+      performEdit('取消关联学生', [updateChange(essay, { studentId: undefined, studentName: essay.extractedName || essay.studentName })]);
+      return;
+    }
+    const student = target === 'new'
+      ? createStudent(essay.extractedName || essay.studentName || '新学生')
+      : roster.find(s => s.id === target);
+    if (student) linkEssaysToStudent([essayId], student);
+  };
+
+  const handleRematch = () => {
+    const changes = essays.map(e => (!e.studentId && matchStudent(roster, e.extractedName || e.studentName))
+      ? updateChange(e, applyRosterMatch(e, roster, e.extractedName || e.studentName))
+      : undefined);
+    if (performEdit('重新匹配学生', changes)) showToast(`已重新匹配 ${changes.filter(Boolean).length} 篇作文`, true);
+  };
+
+  // --- Classes & Assignments ---
+  // Assignments of a removed class lose their class; the list is only replaced when one did
+  const handleClassesChange = (next: SchoolClass[]) => {
+    const ids = new Set(next.map(c => c.id));
+    const label = next.length < classes.length ? '删除班级' : next.length > classes.length ? '新建班级' : '编辑班级';
+    const orphaned = assignments.some(a => a.classId && !ids.has(a.classId));
+    performEdit(label, [], label === '编辑班级' ? 'classes' : undefined, {
+      classes: next,
+      ...(orphaned && { assignments: assignments.map(a => (a.classId && !ids.has(a.classId) ? { ...a, classId: undefined } : a)) })
+    });
+    if (scope.classId && !ids.has(scope.classId)) setScope(EMPTY_SCOPE);
+  };
+
+  // Essays of a removed assignment fall back to the global grading settings
+  const handleAssignmentsChange = (next: Assignment[]) => {
+    const ids = new Set(next.map(a => a.id));
+    const label = next.length < assignments.length ? '删除作业' : next.length > assignments.length ? '新建作业' : '编辑作业';
+    performEdit(label, essays.map(e => (e.assignmentId && !ids.has(e.assignmentId)
+      ? updateChange(e, { assignmentId: undefined })
+      : undefined)), label === '编辑作业' ? 'assignments' : undefined, { assignments: next });
+    if (uploadAssignmentId && !ids.has(uploadAssignmentId)) setUploadAssignmentId('');
+    if (scope.assignmentId && scope.assignmentId !== UNASSIGNED && !ids.has(scope.assignmentId)) setScope({ ...scope, assignmentId: '' });
+  };
+
+  const handleAssignEssayToAssignment = (essayId: string, assignmentId: string | null) => {
+    const essay = essays.find(e => e.id === essayId);
+    if (!essay) return;
+    performEdit('分配作业', [updateChange(essay, { assignmentId: assignmentId || undefined })]);
+  };
+
+  const handleOpenEssay = (id: string) => {
+    setActiveTab('list');
+    requestAnimationFrame(() => {
+      document.getElementById(`essay-card-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
   };
 
   // --- Handler: Batch Download (JSON) ---
@@ -498,185 +1004,135 @@ const App: React.FC = () => {
     downloadAnchorNode.remove();
   };
 
-  // --- Handler: Open PDF Modal ---
-  const handleOpenPdfModal = () => {
-    if (isExporting || completedCount === 0) return;
-    setShowPdfModal(true);
+  // --- Handler: Gradebook (CSV/XLSX) ---
+  const executeGradebookExport = (options: GradebookOptions) => {
+    setShowGradebookModal(false);
+    const source = options.scope === 'filtered' ? scopedEssays : essays;
+    const targets = source.filter((essay) => essay.gradingResult && (!options.approvedOnly || isApproved(essay)));
+    const { blob, extension } = createGradebook(targets, reportContext, options.format);
+    const name = options.format === 'csv-pivot' ? 'Summary' : 'Gradebook';
+    downloadBlob(blob, `EssayFlow_${name}_${new Date().toISOString().slice(0, 10)}.${extension}`);
   };
 
-  // --- Handler: Execute PDF Export with Options ---
-  const executePdfExport = async (options: ExportOptions, selectedIds: string[]) => {
-    // 1. Close Modal Immediately to prevent it from being captured or causing overlay issues
-    setShowPdfModal(false);
+  // --- Handler: Workspace backup / restore ---
+  const handleExportWorkspace = async () => {
     setIsExporting(true);
-
-    // Apply temporary CSS classes to body based on options
-    if (!options.includeImage) document.body.classList.add('export-hide-image');
-    if (!options.includeOCR) document.body.classList.add('export-hide-ocr');
-    if (!options.includeSummary) document.body.classList.add('export-hide-summary');
-    if (!options.includeLists) document.body.classList.add('export-hide-lists');
-    if (!options.includeCorrections) document.body.classList.add('export-hide-corrections');
-
-    if (!options.includeImage && !options.includeOCR) {
-      document.body.classList.add('export-hide-col-left');
-    }
-
-    document.body.classList.add('exporting-pdf');
-    const root = document.documentElement;
-    const previousRootFontSize = root.style.fontSize;
-    root.style.fontSize = `${options.fontScale || 100}%`;
-
-    // 2. Filtering Logic: Hide essays that are NOT in selectedIds
-    const essaysToHide = essays.filter(e => !selectedIds.includes(e.id));
-    essaysToHide.forEach(e => {
-      const el = document.getElementById(`essay-card-${e.id}`);
-      if (el) el.classList.add('export-hidden');
-    });
-
-    // 3. Force white background on container for clean PDF
-    const container = document.getElementById('essays-container');
-    const previousFontSize = container?.style.fontSize;
-    if (container) {
-      container.style.fontSize = `${options.fontScale || 100}%`;
-    }
-    if (container) {
-      container.classList.add('export-force-white');
-      // Note: removed 'export-contrast' class to preserve text sharpness
-    }
-
-    // Wait for DOM to update
-    await Promise.all([
-      new Promise(resolve => setTimeout(resolve, 1000)),
-      // Ensure web fonts have finished loading so weights render correctly in the snapshot
-      (document.fonts?.ready ?? Promise.resolve())
-    ]);
-
-    if (!container) {
-      cleanupPdfExport(essaysToHide, container, undefined, previousRootFontSize);
-      return;
-    }
-
-    const opt = {
-      margin: [10, 10],
-      filename: `EssayFlow_Report_${new Date().toISOString().slice(0, 10)}.pdf`,
-      image: { type: 'png', quality: 1 },
-      html2canvas: {
-        scale: Math.max(window.devicePixelRatio * 2, 2),  // Adaptive to device, minimum 2x
-        useCORS: true,
-        scrollY: 0,
-        scrollX: 0,
-        backgroundColor: '#ffffff',
-        width: container.scrollWidth,   // Capture full content width
-        height: container.scrollHeight, // Capture full content height
-        letterRendering: true,    // Better text quality
-        logging: false,           // Cleaner console
-        onclone: (clonedDoc: Document) => {
-          // Make sure cloned snapshot keeps the same export flags and forces full opacity
-          clonedDoc.body.classList.add('exporting-pdf');
-          clonedDoc.documentElement.style.fontSize = `${options.fontScale || 100}%`;
-          const clonedContainer = clonedDoc.getElementById('essays-container');
-          if (clonedContainer) {
-            clonedContainer.classList.add('export-force-white');
-            // Note: removed 'export-contrast' class to preserve text sharpness
-            clonedContainer.setAttribute('data-export-font-scale', `${options.fontScale || 100}`);
-            (clonedContainer as HTMLElement).style.fontSize = `${options.fontScale || 100}%`;
-          }
-        }
-      }, // Higher scale for clarity + force solid bg
-      jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
-      pagebreak: { mode: ['css', 'legacy'], after: '.print-break-after' }
-    };
-
-    let html2pdfLib: any;
     try {
-      html2pdfLib = await ensureHtml2Pdf();
+      const bytes = await createWorkspaceArchive({ essays, config, roster, classes, assignments });
+      downloadBlob(new Blob([bytes], { type: 'application/zip' }), `EssayFlow_Workspace_${new Date().toISOString().slice(0, 10)}.zip`);
     } catch (error) {
-      console.error('Failed to load html2pdf library', error);
-      alert(error instanceof Error ? error.message : '无法加载PDF导出组件，请稍后再试');
-      cleanupPdfExport(essaysToHide, container, previousFontSize, previousRootFontSize);
-      return;
+      console.error('Workspace export failed', error);
+      alert(error instanceof Error ? error.message : '工作区导出失败');
+    } finally {
+      setIsExporting(false);
     }
+  };
 
+  const handleWorkspaceFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
     try {
-      await html2pdfLib()
-        .set({
-          margin: [10, 10],
-          filename: `EssayFlow_Report_${new Date().toISOString().slice(0, 10)}.pdf`,
-          image: { type: 'png', quality: 1 },
-          html2canvas: {
-            scale: Math.min(Math.max((window.devicePixelRatio || 1) * 1.5, 2), 3),
-            useCORS: true,
-            scrollY: 0,
-            scrollX: 0,
-            backgroundColor: '#ffffff',
-            letterRendering: true,
-            logging: false,
-            onclone: (clonedDoc: Document) => {
-              clonedDoc.body.classList.add('exporting-pdf');
-              clonedDoc.documentElement.style.fontSize = `${options.fontScale || 100}%`;
-              const clonedContainer = clonedDoc.getElementById('essays-container');
-              if (clonedContainer) {
-                clonedContainer.classList.add('export-force-white');
-                clonedContainer.setAttribute('data-export-font-scale', `${options.fontScale || 100}`);
-                (clonedContainer as HTMLElement).style.fontSize = `${options.fontScale || 100}%`;
-              }
-            }
-          },
-          jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
-          pagebreak: { mode: ['css', 'legacy'], after: '.print-break-after' }
-        })
-        .from(container)
-        .save();
+      setImportedWorkspace(readWorkspaceArchive(new Uint8Array(await file.arrayBuffer())));
     } catch (error) {
-      console.error("PDF generation failed", error);
-      alert("Could not generate PDF. Please try the Print option.");
-    } finally {
-      cleanupPdfExport(essaysToHide, container, previousFontSize, previousRootFontSize);
+      alert(error instanceof Error ? error.message : '无法读取备份文件');
     }
   };
 
-  const cleanupPdfExport = (hiddenEssays: EssayData[], containerEl?: HTMLElement | null, previousFontSize?: string, previousRootFontSize?: string) => {
-    document.body.classList.remove(
-      'exporting-pdf',
-      'export-hide-image',
-      'export-hide-ocr',
-      'export-hide-summary',
-      'export-hide-lists',
-      'export-hide-corrections',
-      'export-hide-col-left'
-    );
+  const applyWorkspaceImport = (mode: WorkspaceImportMode) => {
+    if (!importedWorkspace) return;
+    // Queued jobs would write their results into essays that may no longer exist
+    if (queueActive) {
+      alert('请等待当前的OCR/批改任务完成（或取消）后再导入');
+      return;
+    }
+    const next = mergeWorkspace({ essays, config, roster, classes, assignments }, importedWorkspace, mode);
+    const importedIds = new Set(next.essays.map(e => e.id));
+    setEssays(next.essays);
+    // An essay cannot be both in the list and in the trash; earlier edits no longer apply
+    setTrash(prev => prev.filter(e => !importedIds.has(e.id)));
+    setUndoStack([]);
+    setRedoStack([]);
+    setRoster(next.roster);
+    setClasses(next.classes);
+    setAssignments(next.assignments);
+    setConfig({ ...INITIAL_CONFIG, ...next.config });
+    setScope(EMPTY_SCOPE);
+    setImportedWorkspace(null);
+  };
 
-    // Remove filtering classes
-    hiddenEssays.forEach(e => {
-      const el = document.getElementById(`essay-card-${e.id}`);
-      if (el) el.classList.remove('export-hidden');
-    });
+  // --- Handler: Open PDF Modal ---
+  const handleOpenPdfModal = () => {
+    if (isExporting || completedCount === 0) return;
+    setShowPdfModal(true);
+  };
 
-    if (containerEl) {
-      containerEl.style.fontSize = previousFontSize || '';
-    }
-    if (previousRootFontSize !== undefined) {
-      document.documentElement.style.fontSize = previousRootFontSize || '';
+  // --- Handler: Execute PDF Export with Options ---
+  const executePdfExport = async (options: ExportOptions, selectedIds: string[]) => {
+    setShowPdfModal(false);
+    setIsExporting(true);
+    if (options.splitBy !== 'combined' && options.fileNameTemplate !== config.exportFileNameTemplate) {
+      setConfig({ ...config, exportFileNameTemplate: options.fileNameTemplate });
     }
-
-    // Remove bg forcing
-    const container = document.getElementById('essays-container');
-    if (container) {
-      container.classList.remove('export-force-white');
-      container.classList.remove('export-contrast');
+    const selected = new Set(selectedIds);
+    // Same order as the list on screen
+    const targets = essays.filter((e) => selected.has(e.id) && e.gradingResult);
+    const today = new Date().toISOString().slice(0, 10);
+    const onProgress = (done: number, total: number) => setExportProgress({ done, total });
+    try {
+      if (options.format === 'docx') {
+        const { generateDocxReport, generateDocxZip } = await import('./services/docxReport');
+        if (options.splitBy === 'combined') {
+          downloadBlob(await generateDocxReport(targets, options, reportContext), `EssayFlow_Report_${today}.docx`);
+        } else {
+          downloadBlob(await generateDocxZip(targets, options, reportContext, onProgress), `EssayFlow_Reports_${today}.zip`);
+        }
+        return;
+      }
+      // pdf-lib and fontkit are only needed here, so they stay out of the main bundle
+      const { generatePdfReport, generateReportZip } = await import('./services/pdfReport');
+      if (options.splitBy === 'combined') {
+        downloadBlob(await generatePdfReport(targets, options, reportContext), `EssayFlow_Report_${today}.pdf`);
+      } else {
+        downloadBlob(await generateReportZip(targets, options, reportContext, onProgress), `EssayFlow_Reports_${today}.zip`);
+      }
+    } catch (error) {
+      console.error("Report generation failed", error);
+      alert(error instanceof Error ? error.message : "Could not generate PDF. Please try the Print option.");
+    } finally {
+      setIsExporting(false);
+      setExportProgress(null);
     }
-
-    setIsExporting(false);
   };
 
   const handlePrint = () => window.print();
 
   const completedCount = essays.filter(e => e.status === ProcessingStatus.COMPLETED).length;
   const startableCount = pickTargetsForMode(workflowMode).length;
-  const aiReadyCount = essays.filter(
-    (e) => e.gradingStatus !== 'done' && e.status !== ProcessingStatus.PROCESSING && hasTextContent(e)
-  ).length;
+  const aiReadyCount = essays.filter((e) => e.status !== ProcessingStatus.PROCESSING && isReadyForAi(e)).length;
+  const unverifiedCount = essays.filter(needsOcrVerification).length;
   const visibleCount = visibleEssays.length;
+  const queueActive = queueState.running.ocr + queueState.running.grading + queueState.waiting.ocr + queueState.waiting.grading > 0;
+
+  const handleToggleQueuePause = () => {
+    if (queueState.paused) queueRef.current.resume();
+    else queueRef.current.pause();
+  };
+
+  if (storageError) {
+    return (
+      <StorageErrorScreen
+        error={storageError}
+        onDownloadRaw={() =>
+          downloadBlob(
+            new Blob([storageError.raw], { type: 'application/json' }),
+            `EssayFlow_RawBackup_${new Date().toISOString().slice(0, 10)}.json`
+          )
+        }
+        onClear={clearPersistedEssays}
+      />
+    );
+  }
 
   return (
     <div className="min-h-screen bg-slate-50 flex font-sans text-slate-900">
@@ -717,13 +1173,43 @@ const App: React.FC = () => {
               >
                 <ChartBarIcon /> Analytics
               </button>
+              <button
+                onClick={() => setActiveTab('students')}
+                className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'students' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                <UsersIcon /> Students
+              </button>
+              <button
+                onClick={() => setActiveTab('assignments')}
+                className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'assignments' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                <BookOpenIcon /> Assignments
+              </button>
             </div>
           </div>
 
           <div className="flex items-center gap-4">
+            {exportProgress && (
+              <div className="flex items-center gap-2 text-xs text-slate-500">
+                <div className="w-3 h-3 border-2 border-brand-100 border-t-brand-500 rounded-full animate-spin"></div>
+                正在生成报告 {exportProgress.done}/{exportProgress.total}...
+              </div>
+            )}
+            <button onClick={handleUndo} disabled={!undoStack.length} className="icon-btn disabled:opacity-50" title={undoStack.length ? `撤销：${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}><ArrowUturnLeftIcon /></button>
+            <button onClick={handleRedo} disabled={!redoStack.length} className="icon-btn disabled:opacity-50" title={redoStack.length ? `重做：${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}><ArrowUturnRightIcon /></button>
+            <button onClick={() => setShowTrash(true)} className="icon-btn relative" title={`回收站（${trash.length}）`}>
+              <TrashIcon />
+              {trash.length > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-slate-500 text-white text-[10px] leading-4 text-center">{trash.length}</span>
+              )}
+            </button>
+            <button onClick={handleExportWorkspace} disabled={isExporting} className="icon-btn disabled:opacity-50" title="Export workspace (backup zip)"><ArchiveBoxArrowDownIcon /></button>
+            <button onClick={() => workspaceInputRef.current?.click()} className="icon-btn" title="Import workspace"><ArrowUpTrayIcon /></button>
+            <input ref={workspaceInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleWorkspaceFile} />
             {completedCount > 0 && (
               <>
                 <button onClick={handleDownloadJSON} className="icon-btn" title="Export JSON"><DownloadIcon /></button>
+                <button onClick={() => setShowGradebookModal(true)} className="icon-btn" title="Export gradebook (CSV/XLSX)"><TableCellsIcon /></button>
                 <button onClick={handleOpenPdfModal} disabled={isExporting} className="icon-btn disabled:opacity-50" title="Export PDF"><DocumentTextIcon /></button>
                 <button onClick={handlePrint} className="icon-btn" title="Print"><PrinterIcon /></button>
               </>
@@ -754,13 +1240,36 @@ const App: React.FC = () => {
                 </div>
 
                 {isInputExpanded && (
-                  <div className="animate-fade-in">
+                  <div className="animate-fade-in space-y-3">
+                    {assignments.length > 0 && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-slate-500">上传到作业</span>
+                        <select
+                          value={uploadAssignmentId}
+                          onChange={(event) => setUploadAssignmentId(event.target.value)}
+                          className="px-2 py-1.5 text-sm border border-slate-200 rounded-lg bg-white text-slate-600 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 shadow-sm"
+                        >
+                          <option value="">不归入作业（使用全局设置）</option>
+                          {assignments.map((assignment) => (
+                            <option key={assignment.id} value={assignment.id}>
+                              {assignment.title}{classes.find(c => c.id === assignment.classId) ? ` · ${classes.find(c => c.id === assignment.classId)?.name}` : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     <UploadZone
                       onUploadFiles={handleUploadFiles}
                       onSubmitText={handleTextSubmission}
                       onUploadMarkdown={handleUploadMarkdown}
-                      disabled={isProcessing}
+                      disabled={isProcessing || Boolean(preprocessProgress)}
                     />
+                    {preprocessProgress && (
+                      <div className="flex items-center gap-2 text-xs text-slate-500">
+                        <div className="w-3 h-3 border-2 border-brand-100 border-t-brand-500 rounded-full animate-spin"></div>
+                        正在预处理图片（纠偏、裁剪、压缩）{preprocessProgress.done}/{preprocessProgress.total}...
+                      </div>
+                    )}
                   </div>
                 )}
                 {!isInputExpanded && (
@@ -778,11 +1287,20 @@ const App: React.FC = () => {
                     Results Board
                     {essays.length > 0 && (
                       <span className="ml-2 text-xs font-normal normal-case bg-slate-100 px-2 py-0.5 rounded-full text-slate-500">
-                        {batchFilter === 'all' ? `${essays.length} items` : `${visibleCount}/${essays.length} items`}
+                        {visibleCount === essays.length ? `${essays.length} items` : `${visibleCount}/${essays.length} items`}
+                      </span>
+                    )}
+                    {storageUsage && storageUsage.quota > 0 && (
+                      <span
+                        className={`text-xs font-normal normal-case px-2 py-0.5 rounded-full ${storageUsage.usage / storageUsage.quota > 0.8 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}
+                        title="浏览器本地存储（IndexedDB）用量"
+                      >
+                        存储 {formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}
                       </span>
                     )}
                   </h2>
                   <div className="flex items-center gap-2">
+                    <ScopeFilter classes={classes} assignments={assignments} scope={scope} onChange={setScope} />
                     <div className="flex items-center gap-2">
                       <span className="text-xs text-slate-400">排序</span>
                       <select
@@ -808,6 +1326,38 @@ const App: React.FC = () => {
                         <option value="unbatched">未批量</option>
                       </select>
                     </div>
+                    {(queueActive || queueState.paused) && (
+                      <div className="flex items-center gap-2">
+                        <span
+                          className={`text-xs px-2 py-1 rounded-lg ${queueState.backoffUntil ? 'bg-amber-50 text-amber-700' : 'text-slate-500'}`}
+                          title="运行中 / 排队中"
+                        >
+                          OCR {queueState.running.ocr}/{queueState.waiting.ocr} · 批改 {queueState.running.grading}/{queueState.waiting.grading}
+                          {queueState.backoffUntil ? ' · 限流退避中' : ''}
+                        </span>
+                        <button
+                          onClick={handleToggleQueuePause}
+                          className={`px-3 py-1.5 text-xs font-semibold rounded-lg border transition-colors ${queueState.paused
+                            ? 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100'
+                            : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                            }`}
+                          title={queueState.paused ? '继续处理排队中的作文' : '暂停：运行中的任务会完成，排队任务暂不开始'}
+                        >
+                          {queueState.paused ? '继续队列' : '暂停队列'}
+                        </button>
+                      </div>
+                    )}
+                    <button
+                      onClick={() => setShowVerification(true)}
+                      disabled={unverifiedCount === 0}
+                      className={`px-3 py-1.5 text-xs font-semibold rounded-lg border transition-colors ${unverifiedCount > 0
+                        ? 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                        : 'bg-slate-50 text-slate-400 border-slate-200 cursor-not-allowed'
+                        }`}
+                      title="对照原图逐篇核对OCR文本"
+                    >
+                      OCR核对（{unverifiedCount}）
+                    </button>
                     <button
                       onClick={handleBatchAi}
                       disabled={isProcessing || aiReadyCount === 0}
@@ -849,6 +1399,16 @@ const App: React.FC = () => {
                     onRetry={handleRetry}
                     onCancel={handleCancel}
                     onStartAi={handleStartAiForEssay}
+                    roster={roster}
+                    onAssignStudent={handleAssignStudent}
+                    assignments={assignments}
+                    onAssignAssignment={handleAssignEssayToAssignment}
+                    onMergeInto={handleMergeEssays}
+                    onMovePage={handleMovePage}
+                    onSplitPage={handleSplitPage}
+                    onReplacePageImage={handleReplacePageImage}
+                    preprocessSettings={preprocessSettings}
+                    ocrConfidenceThreshold={config.ocr?.lowConfidenceThreshold}
                   />
                 ))}
               </div>
@@ -857,8 +1417,54 @@ const App: React.FC = () => {
 
           {/* --- TAB: ANALYTICS --- */}
           {activeTab === 'analytics' && (
+            <div className="max-w-6xl mx-auto pb-20 space-y-4">
+              <div className="flex justify-end">
+                <ScopeFilter classes={classes} assignments={assignments} scope={scope} onChange={setScope} />
+              </div>
+              <AnalyticsDashboard essays={scopedEssays} />
+            </div>
+          )}
+
+          {/* --- TAB: ASSIGNMENTS --- */}
+          {activeTab === 'assignments' && (
             <div className="max-w-6xl mx-auto pb-20">
-              <AnalyticsDashboard essays={essays} />
+              <AssignmentManager
+                classes={classes}
+                assignments={assignments}
+                essays={essays}
+                config={config}
+                onClassesChange={handleClassesChange}
+                onAssignmentsChange={handleAssignmentsChange}
+              />
+            </div>
+          )}
+
+          {/* --- TAB: STUDENTS --- */}
+          {activeTab === 'students' && (
+            <div className="max-w-6xl mx-auto pb-20 grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+              <RosterManager
+                roster={roster}
+                essays={essays}
+                selectedId={selectedStudentId}
+                onSelect={setSelectedStudentId}
+                onChange={handleRosterChange}
+                onLinkEssays={linkEssaysToStudent}
+                onRematch={handleRematch}
+              />
+              <div className="lg:col-span-2">
+                {roster.find(s => s.id === selectedStudentId) ? (
+                  <StudentProfile
+                    student={roster.find(s => s.id === selectedStudentId) as Student}
+                    essays={essays}
+                    onOpenEssay={handleOpenEssay}
+                  />
+                ) : (
+                  <div className="flex flex-col items-center justify-center h-96 text-slate-400 bg-white rounded-2xl border border-dashed border-slate-200">
+                    <div className="text-4xl mb-3">🎓</div>
+                    <p>选择左侧学生查看成长档案</p>
+                  </div>
+                )}
+              </div>
             </div>
           )}
 
@@ -866,13 +1472,59 @@ const App: React.FC = () => {
       </main>
 
       {/* PDF Configuration Modal */}
+      <WorkspaceImportModal
+        archive={importedWorkspace}
+        current={{ essays, config, roster, classes, assignments }}
+        onClose={() => setImportedWorkspace(null)}
+        onConfirm={applyWorkspaceImport}
+      />
+
+      <GradebookExportModal
+        isOpen={showGradebookModal}
+        onClose={() => setShowGradebookModal(false)}
+        onConfirm={executeGradebookExport}
+        essays={essays}
+        scopedEssays={scopedEssays}
+      />
+
       <PDFExportModal
         isOpen={showPdfModal}
         onClose={() => setShowPdfModal(false)}
         onConfirm={executePdfExport}
         essays={essays}
+        reportContext={reportContext}
+        defaultFileNameTemplate={config.exportFileNameTemplate}
+      />
+
+      <TrashBinModal
+        isOpen={showTrash}
+        trash={trash}
+        retentionDays={trashRetentionDays}
+        onRetentionChange={(days) => setConfig(prev => ({ ...prev, trashRetentionDays: days }))}
+        onRestore={handleRestoreFromTrash}
+        onDeleteForever={handleDeleteForever}
+        onClose={() => setShowTrash(false)}
       />
 
+      <Toast
+        message={toast?.message || null}
+        actionLabel={toast?.canUndo ? '撤销' : undefined}
+        onAction={() => {
+          setToast(null);
+          handleUndo();
+        }}
+        onDismiss={() => setToast(null)}
+      />
+
+      {showVerification && (
+        <OcrVerificationView
+          essays={essays}
+          ocrConfidenceThreshold={config.ocr?.lowConfidenceThreshold}
+          onSave={handleSaveVerifiedTranscript}
+          onClose={() => setShowVerification(false)}
+        />
+      )}
+
     </div>
   );
 };
@@ -30,6 +30,7 @@ const AnalyticsDashboard: React.FC<Props> = ({ essays }) => {
     const issueTypes: Record<string, number> = {};
     completedEssays.forEach(e => {
       e.gradingResult?.grammar_issues.forEach(issue => {
+        if (issue.review === 'rejected') return;
         const type = issue.type || "Grammar";
         issueTypes[type] = (issueTypes[type] || 0) + 1;
       });
@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { AgentConfig, Assignment, EssayData, GradingPrompts, RubricDimension, SchoolClass, StudentLevel } from '../types';
+import { assignmentToConfig, createAssignment, createClass, isOverdue, withGradingConfig } from '../services/assignments';
+import { EXAM_PRESETS, applyExamPreset, getExamPreset } from '../services/examPresets';
+import { DEFAULT_GRADING_PROMPTS } from '../services/promptDefaults';
+import { DEFAULT_RUBRIC } from '../services/rubric';
+import RubricConfigPanel from './RubricConfigPanel';
+import PromptConfigPanel from './PromptConfigPanel';
+import { BookOpenIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface Props {
+  classes: SchoolClass[];
+  assignments: Assignment[];
+  essays: EssayData[];
+  config: AgentConfig; // Global settings: template for new assignments and source of the model settings
+  onClassesChange: (classes: SchoolClass[]) => void;
+  onAssignmentsChange: (assignments: Assignment[]) => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md bg-white focus:ring-2 focus:ring-brand-500 focus:border-brand-500';
+const labelClass = 'block text-xs font-medium text-slate-500 mb-1';
+
+const AssignmentManager: React.FC<Props> = ({ classes, assignments, essays, config, onClassesChange, onAssignmentsChange }) => {
+  const [newClassName, setNewClassName] = useState('');
+  const [selectedId, setSelectedId] = useState<string | undefined>(assignments[0]?.id);
+
+  const selected = assignments.find((assignment) => assignment.id === selectedId);
+  const essayCount = (id: string) => essays.filter((essay) => essay.assignmentId === id).length;
+
+  const handleAddClass = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newClassName.trim()) return;
+    onClassesChange([...classes, createClass(newClassName)]);
+    setNewClassName('');
+  };
+
+  const handleDeleteClass = (item: SchoolClass) => {
+    const count = assignments.filter((assignment) => assignment.classId === item.id).length;
+    if (count > 0 && !window.confirm(`删除班级 ${item.name}？其 ${count} 个作业将变为“无班级”。`)) return;
+    onClassesChange(classes.filter((c) => c.id !== item.id));
+  };
+
+  const handleAddAssignment = (classId?: string) => {
+    const assignment = createAssignment(`作业 ${assignments.length + 1}`, config, { classId });
+    onAssignmentsChange([...assignments, assignment]);
+    setSelectedId(assignment.id);
+  };
+
+  const updateSelected = (patch: Partial<Assignment>) => {
+    if (!selected) return;
+    onAssignmentsChange(assignments.map((assignment) => (assignment.id === selected.id ? { ...assignment, ...patch } : assignment)));
+  };
+
+  // Grading settings are edited through an AgentConfig view so the sidebar helpers apply unchanged
+  const updateGrading = (next: AgentConfig) => {
+    if (!selected) return;
+    onAssignmentsChange(assignments.map((assignment) => (assignment.id === selected.id ? withGradingConfig(assignment, next) : assignment)));
+  };
+
+  const handleDeleteAssignment = (assignment: Assignment) => {
+    const count = essayCount(assignment.id);
+    if (count > 0 && !window.confirm(`删除作业 ${assignment.title}？其 ${count} 篇作文将改用全局批改设置（作文本身保留）。`)) return;
+    onAssignmentsChange(assignments.filter((a) => a.id !== assignment.id));
+    if (selectedId === assignment.id) setSelectedId(undefined);
+  };
+
+  const groups: { key: string; name: string; classId?: string; items: Assignment[] }[] = [
+    ...classes.map((item) => ({
+      key: item.id,
+      name: item.name,
+      classId: item.id,
+      items: assignments.filter((assignment) => assignment.classId === item.id)
+    })),
+    {
+      key: 'none',
+      name: '无班级',
+      items: assignments.filter((assignment) => !assignment.classId || !classes.some((c) => c.id === assignment.classId))
+    }
+  ];
+
+  const renderEditor = () => {
+    if (!selected) {
+      return (
+        <div className="flex flex-col items-center justify-center h-96 text-slate-400 bg-white rounded-2xl border border-dashed border-slate-200">
+          <div className="text-4xl mb-3">📚</div>
+          <p>选择或新建一个作业，编辑题目和批改配置</p>
+        </div>
+      );
+    }
+    const gradingConfig = assignmentToConfig(selected, config);
+    const preset = getExamPreset(selected.examPresetId);
+    return (
+      <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6 space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <input
+            className="font-bold text-slate-900 text-xl bg-transparent border-b border-slate-200 focus:border-brand-500 focus:outline-none flex-1"
+            value={selected.title}
+            onChange={(e) => updateSelected({ title: e.target.value })}
+            placeholder="作业名称"
+          />
+          <span className="text-xs text-slate-400 shrink-0 mt-2">{essayCount(selected.id)} 篇作文</span>
+          <button type="button" onClick={() => handleDeleteAssignment(selected)} className="text-slate-300 hover:text-rose-500 mt-1" title="删除作业">
+            <TrashIcon />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>班级</label>
+            <select className={inputClass} value={selected.classId || ''} onChange={(e) => updateSelected({ classId: e.target.value || undefined })}>
+              <option value="">无班级</option>
+              {classes.map((item) => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>截止日期</label>
+            <input
+              type="date"
+              className={inputClass}
+              value={selected.dueDate || ''}
+              onChange={(e) => updateSelected({ dueDate: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>题目 / 写作要求</label>
+          <textarea
+            className={`${inputClass} min-h-[90px]`}
+            value={selected.prompt}
+            onChange={(e) => updateSelected({ prompt: e.target.value })}
+            placeholder="批改时作为作文题目发送给模型（作文自带题目时以作文为准）"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>考试预设</label>
+            <select
+              className={inputClass}
+              value={selected.examPresetId || ''}
+              onChange={(e) => {
+                const next = getExamPreset(e.target.value);
+                updateGrading(next
+                  ? applyExamPreset(gradingConfig, next)
+                  : { ...gradingConfig, examPresetId: undefined, criteria: { ...gradingConfig.criteria, scoreStep: undefined } });
+              }}
+            >
+              <option value="">自定义</option>
+              {EXAM_PRESETS.map((item) => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>学生等级</label>
+            <select
+              className={inputClass}
+              value={selected.level}
+              onChange={(e) => updateGrading({ ...gradingConfig, level: e.target.value as StudentLevel })}
+            >
+              {Object.values(StudentLevel).map((lvl) => (
+                <option key={lvl} value={lvl}>{lvl}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>满分</label>
+            <input
+              type="number"
+              className={inputClass}
+              value={selected.criteria.maxScore}
+              onChange={(e) => updateGrading({
+                ...gradingConfig,
+                examPresetId: undefined,
+                criteria: { ...gradingConfig.criteria, maxScore: parseInt(e.target.value) || 20, scoreStep: undefined }
+              })}
+            />
+          </div>
+        </div>
+        {preset && <p className="text-[11px] text-slate-400 -mt-3">{preset.description || preset.name}</p>}
+
+        <div>
+          <label className={labelClass}>关注点（逗号分隔）</label>
+          <input
+            className={inputClass}
+            value={selected.criteria.focusAreas.join(', ')}
+            onChange={(e) => updateGrading({
+              ...gradingConfig,
+              criteria: {
+                ...gradingConfig.criteria,
+                focusAreas: e.target.value.split(/[,，]/).map((area) => area.trim()).filter(Boolean)
+              }
+            })}
+            placeholder="Grammar, Vocabulary"
+          />
+        </div>
+
+        <RubricConfigPanel
+          rubric={selected.rubric || DEFAULT_RUBRIC}
+          onChange={(rubric: RubricDimension[]) => updateGrading({ ...gradingConfig, rubric })}
+        />
+        <PromptConfigPanel
+          prompts={selected.prompts || { ...DEFAULT_GRADING_PROMPTS }}
+          onChange={(prompts: GradingPrompts) => updateGrading({ ...gradingConfig, prompts })}
+        />
+        <p className="text-[11px] text-slate-400">模型与服务商沿用左侧全局设置。</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+      <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-5">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2">
+          <BookOpenIcon /> 班级与作业
+        </h3>
+
+        <form onSubmit={handleAddClass} className="flex gap-2">
+          <input className={inputClass} value={newClassName} onChange={(e) => setNewClassName(e.target.value)} placeholder="新班级名称" />
+          <button type="submit" className="px-3 text-sm font-medium text-white bg-brand-600 rounded-md hover:bg-brand-700 shrink-0">
+            添加
+          </button>
+        </form>
+
+        <div className="space-y-4 max-h-[560px] overflow-y-auto custom-scrollbar">
+          {groups.map((group) => (
+            (group.classId || group.items.length > 0 || classes.length === 0) && (
+              <div key={group.key}>
+                <div className="flex items-center justify-between mb-1.5">
+                  <span className="text-xs font-bold uppercase tracking-wider text-slate-400">{group.name}</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleAddAssignment(group.classId)}
+                      className="text-brand-600 hover:text-brand-700"
+                      title="新建作业（复制当前全局批改设置）"
+                    >
+                      <PlusIcon />
+                    </button>
+                    {group.classId && (
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteClass(classes.find((c) => c.id === group.classId) as SchoolClass)}
+                        className="text-slate-300 hover:text-rose-500"
+                        title="删除班级"
+                      >
+                        <TrashIcon />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {group.items.length === 0 && <p className="text-xs text-slate-400 italic pl-1">暂无作业</p>}
+                <div className="space-y-1">
+                  {group.items.map((assignment) => (
+                    <div
+                      key={assignment.id}
+                      onClick={() => setSelectedId(assignment.id)}
+                      className={`px-3 py-2 rounded-lg cursor-pointer flex items-center gap-2 text-sm transition-colors ${selectedId === assignment.id ? 'bg-brand-50 text-brand-700' : 'hover:bg-slate-50 text-slate-700'}`}
+                    >
+                      <span className="flex-1 truncate font-medium">{assignment.title || '未命名作业'}</span>
+                      {assignment.dueDate && (
+                        <span className={`text-[11px] shrink-0 ${isOverdue(assignment) ? 'text-rose-500' : 'text-slate-400'}`}>
+                          {assignment.dueDate.slice(5)}
+                        </span>
+                      )}
+                      <span className="text-[11px] text-slate-400 shrink-0">{essayCount(assignment.id)} 篇</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          ))}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2">{renderEditor()}</div>
+    </div>
+  );
+};
+
+export default AssignmentManager;
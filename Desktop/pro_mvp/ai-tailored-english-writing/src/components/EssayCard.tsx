@@ -1,6 +1,27 @@
 import React, { useState } from 'react';
-import { EssayData, ProcessingStatus } from '../types';
-import { TrashIcon, BookOpenIcon, CheckCircleIcon, ExclamationCircleIcon, ArrowRightIcon, PencilSquareIcon, CheckIcon, ChevronDownIcon, ChevronUpIcon } from './Icons';
+import { Assignment, EssayData, GradingSchema, ImagePreprocessSettings, ProcessingStatus, ReviewStatus, Student } from '../types';
+import { computeWeightedTotal, getGradeLetter, resolveMaxScore, resolveScoreStep, withManualScore } from '../services/rubric';
+import { anchorIssues } from '../services/issueAnchoring';
+import {
+  ReviewListField,
+  acceptAllPending,
+  canApprove,
+  getListReviews,
+  getReviewStatus,
+  setIssueReview,
+  setListReview,
+  spliceListReview,
+  summarizeReviews
+} from '../services/review';
+import HighlightedTranscript from './HighlightedTranscript';
+import RevisionDiff from './RevisionDiff';
+import PageGallery from './PageGallery';
+import GradingHistoryDrawer from './GradingHistoryDrawer';
+import ImageEditor, { EditedImage } from './ImageEditor';
+import { getEssayPages } from '../services/essayPages';
+import { restoreRevision } from '../services/gradingHistory';
+import { findUncertainSpans } from '../services/ocrConfidence';
+import { TrashIcon, BookOpenIcon, CheckCircleIcon, ExclamationCircleIcon, ArrowRightIcon, PencilSquareIcon, CheckIcon, ChevronDownIcon, ChevronUpIcon, ClockIcon } from './Icons';
 
 interface Props {
   data: EssayData;
@@ -9,20 +30,106 @@ interface Props {
   onRetry?: (id: string) => void;
   onCancel?: (id: string) => void;
   onStartAi?: (id: string) => void;
+  roster?: Student[];
+  // studentId, null to unlink, or 'new' to create a student from the extracted name
+  onAssignStudent?: (id: string, target: string | null) => void;
+  assignments?: Assignment[];
+  onAssignAssignment?: (id: string, assignmentId: string | null) => void;
+  // Multi-page: drop another image essay onto this card to append its pages
+  onMergeInto?: (sourceId: string, targetId: string) => void;
+  onMovePage?: (id: string, pageId: string, delta: number) => void;
+  onSplitPage?: (id: string, pageId: string) => void;
+  // Manual rotate/crop; the re-processed image replaces the page and needs a fresh OCR
+  onReplacePageImage?: (id: string, pageId: string, image: EditedImage) => void;
+  preprocessSettings?: ImagePreprocessSettings;
+  ocrConfidenceThreshold?: number;
 }
 
-const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCancel, onStartAi }) => {
+const MERGE_DRAG_TYPE = 'application/x-essayflow-essay';
+
+const EssayCard: React.FC<Props> = ({
+  data,
+  onDelete,
+  onUpdate,
+  onRetry,
+  onCancel,
+  onStartAi,
+  roster = [],
+  onAssignStudent,
+  assignments = [],
+  onAssignAssignment,
+  onMergeInto,
+  onMovePage,
+  onSplitPage,
+  onReplacePageImage,
+  preprocessSettings,
+  ocrConfidenceThreshold
+}) => {
   const [isEditing, setIsEditing] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false); // State to toggle between List/Card view
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const [editingPageId, setEditingPageId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Total score being typed; rounded and clamped only when the field is left
+  const [scoreDraft, setScoreDraft] = useState<string | null>(null);
+
+  const pages = getEssayPages(data);
+  const canEditImages = Boolean(onReplacePageImage && preprocessSettings) && data.submissionType === 'image';
+  const editingIndex = pages.findIndex((page) => page.id === editingPageId);
+  const imageEditor = canEditImages && editingIndex >= 0 && (
+    <ImageEditor
+      key={pages[editingIndex].id}
+      page={pages[editingIndex]}
+      pageLabel={pages.length > 1 ? `第 ${editingIndex + 1} 页` : undefined}
+      settings={preprocessSettings}
+      onClose={() => setEditingPageId(null)}
+      onApply={(image) => {
+        setEditingPageId(null);
+        onReplacePageImage(data.id, pages[editingIndex].id, image);
+      }}
+    />
+  );
+  const canMerge = Boolean(onMergeInto) && data.submissionType === 'image' && data.status !== ProcessingStatus.PROCESSING;
+  const mergeDragProps: React.HTMLAttributes<HTMLDivElement> = canMerge
+    ? {
+      draggable: true,
+      title: '拖到另一张图片作文上，合并为多页作文',
+      onDragStart: (e) => {
+        e.dataTransfer.setData(MERGE_DRAG_TYPE, data.id);
+        e.dataTransfer.effectAllowed = 'move';
+      },
+      onDragOver: (e) => {
+        if (!e.dataTransfer.types.includes(MERGE_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setIsDropTarget(true);
+      },
+      onDragLeave: () => setIsDropTarget(false),
+      onDrop: (e) => {
+        setIsDropTarget(false);
+        const sourceId = e.dataTransfer.getData(MERGE_DRAG_TYPE);
+        if (!sourceId || sourceId === data.id) return;
+        e.preventDefault();
+        onMergeInto?.(sourceId, data.id);
+      }
+    }
+    : {};
+  const dropClass = isDropTarget ? ' ring-2 ring-brand-400 ring-offset-2' : '';
+  const pageBadge = pages.length > 1 && (
+    <span className="text-[10px] px-2 py-0.5 rounded-full border border-sky-200 bg-sky-50 text-sky-700">{pages.length} 页</span>
+  );
+
+  // Any change to the grading invalidates an earlier teacher sign-off
+  const updateGrading = (gradingResult: GradingSchema, extra: Partial<EssayData> = {}) => {
+    onUpdate(data.id, { ...extra, gradingResult, approvedAt: undefined });
+  };
 
   // Helper to handle nested updates (e.g. user manually editing a grade)
   const handleGradeChange = (field: string, value: any) => {
     if (!data.gradingResult) return;
-    onUpdate(data.id, {
-      gradingResult: {
-        ...data.gradingResult,
-        [field]: value
-      }
+    updateGrading({
+      ...data.gradingResult,
+      [field]: value
     });
   };
 
@@ -31,18 +138,33 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
     onUpdate(data.id, { [field]: value });
   };
 
+  // Editing the transcript moves every highlight, so re-anchor corrections along with it
+  const handleTranscriptChange = (value: string) => {
+    if (!data.gradingResult) {
+      handleRootChange('ocrText', value);
+      return;
+    }
+    updateGrading(
+      {
+        ...data.gradingResult,
+        grammar_issues: anchorIssues(value, data.gradingResult.grammar_issues)
+      },
+      { ocrText: value }
+    );
+  };
+
   // Grammar specific handlers
   const handleGrammarChange = (index: number, field: 'original' | 'correction' | 'explanation' | 'type', value: string) => {
     if (!data.gradingResult) return;
     const newIssues = [...(data.gradingResult.grammar_issues || [])];
-    newIssues[index] = { ...newIssues[index], [field]: value };
-    handleGradeChange('grammar_issues', newIssues);
+    newIssues[index] = { ...newIssues[index], [field]: value, review: 'edited' };
+    handleGradeChange('grammar_issues', field === 'original' ? anchorIssues(data.ocrText, newIssues) : newIssues);
   };
 
   const handleDeleteGrammarIssue = (index: number) => {
     if (!data.gradingResult) return;
     const newIssues = (data.gradingResult.grammar_issues || []).filter((_, i) => i !== index);
-    handleGradeChange('grammar_issues', newIssues);
+    handleGradeChange('grammar_issues', anchorIssues(data.ocrText, newIssues));
   };
 
   const handleAddGrammarIssue = () => {
@@ -51,41 +173,88 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
       type: "Grammar",
       original: "Error",
       correction: "Correction",
-      explanation: "Explanation in Chinese"
+      explanation: "Explanation in Chinese",
+      review: 'edited' as ReviewStatus
     };
     const newIssues = [...(data.gradingResult.grammar_issues || []), newIssue];
-    handleGradeChange('grammar_issues', newIssues);
+    handleGradeChange('grammar_issues', anchorIssues(data.ocrText, newIssues));
   };
 
   // Lists (Strengths/Improvements) handlers
-  const handleListChange = (field: 'strengths' | 'improvements', index: number, value: string) => {
+  const handleListChange = (field: ReviewListField, index: number, value: string) => {
     if (!data.gradingResult) return;
     const newList = [...(data.gradingResult[field] || [])];
     newList[index] = value;
-    handleGradeChange(field, newList);
+    updateGrading({ ...setListReview(data.gradingResult, field, index, 'edited'), [field]: newList });
   };
 
-  const handleDeleteListItem = (field: 'strengths' | 'improvements', index: number) => {
+  const handleDeleteListItem = (field: ReviewListField, index: number) => {
     if (!data.gradingResult) return;
     const newList = (data.gradingResult[field] || []).filter((_, i) => i !== index);
-    handleGradeChange(field, newList);
+    const reviews = spliceListReview(data.gradingResult, field, index);
+    updateGrading({
+      ...data.gradingResult,
+      [field]: newList,
+      [field === 'strengths' ? 'strength_reviews' : 'improvement_reviews']: reviews
+    });
   };
 
-  const handleAddListItem = (field: 'strengths' | 'improvements') => {
+  const handleAddListItem = (field: ReviewListField) => {
     if (!data.gradingResult) return;
     const newList = [...(data.gradingResult[field] || []), "New point..."];
-    handleGradeChange(field, newList);
+    const reviews = spliceListReview(data.gradingResult, field, newList.length - 1, 'edited');
+    updateGrading({
+      ...data.gradingResult,
+      [field]: newList,
+      [field === 'strengths' ? 'strength_reviews' : 'improvement_reviews']: reviews
+    });
   };
 
-  // Calculate Grade Letter
-  const getGradeLetter = (score: number, maxScore: number = 100) => {
-    // Normalize to percentage if maxScore is different
-    const percentage = (score / maxScore) * 100;
-    if (percentage >= 90) return 'A';
-    if (percentage >= 80) return 'B';
-    if (percentage >= 70) return 'C';
-    if (percentage >= 60) return 'D';
-    return 'F';
+  // Review handlers: clicking the active state again returns the item to pending
+  const handleIssueReview = (index: number, status: ReviewStatus) => {
+    if (!data.gradingResult) return;
+    const current = getReviewStatus(data.gradingResult.grammar_issues[index]?.review);
+    updateGrading(setIssueReview(data.gradingResult, index, current === status ? 'pending' : status));
+  };
+
+  const handleListReview = (field: ReviewListField, index: number, status: ReviewStatus) => {
+    if (!data.gradingResult) return;
+    const current = getListReviews(data.gradingResult, field)[index];
+    updateGrading(setListReview(data.gradingResult, field, index, current === status ? 'pending' : status));
+  };
+
+  const handleAcceptAll = () => {
+    if (!data.gradingResult) return;
+    updateGrading(acceptAllPending(data.gradingResult));
+  };
+
+  const handleToggleApproval = () => {
+    if (data.approvedAt) {
+      onUpdate(data.id, { approvedAt: undefined });
+      return;
+    }
+    if (!canApprove(data)) return;
+    onUpdate(data.id, { approvedAt: new Date().toISOString() });
+  };
+
+  // Rubric dimension scores: editing one recomputes the weighted total
+  const handleDimensionScoreChange = (dimensionId: string, value: number) => {
+    const result = data.gradingResult;
+    if (!result?.rubric) return;
+    const dimension = result.rubric.find((dim) => dim.id === dimensionId);
+    const clamped = Math.min(Math.max(value, 0), dimension?.maxPoints ?? value);
+    const dimensionScores = { ...(result.dimension_scores || {}), [dimensionId]: clamped };
+    const total = computeWeightedTotal(result.rubric, dimensionScores, resolveMaxScore(result), resolveScoreStep(result));
+    const rescored = { ...result, dimension_scores: dimensionScores };
+    updateGrading(total !== undefined ? withManualScore(rescored, total) : rescored);
+  };
+
+  const handleScoreCommit = () => {
+    if (scoreDraft === null) return;
+    setScoreDraft(null);
+    const score = parseFloat(scoreDraft);
+    if (!data.gradingResult || !Number.isFinite(score)) return;
+    updateGrading(withManualScore(data.gradingResult, score));
   };
 
   const getScoreColor = (score: number, maxScore: number = 20) => {
@@ -105,6 +274,69 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
     return 'bg-slate-100 text-slate-600 border-slate-200';
   };
 
+  const reviewLabels: Record<ReviewStatus, string> = {
+    pending: '待审',
+    accepted: '已接受',
+    rejected: '已拒绝',
+    edited: '已修改'
+  };
+
+  const getReviewStyle = (status: ReviewStatus) => {
+    switch (status) {
+      case 'accepted':
+        return 'bg-emerald-50 text-emerald-700 border-emerald-200';
+      case 'rejected':
+        return 'bg-slate-100 text-slate-500 border-slate-200';
+      case 'edited':
+        return 'bg-sky-50 text-sky-700 border-sky-200';
+      default:
+        return 'bg-amber-50 text-amber-700 border-amber-200';
+    }
+  };
+
+  // Per-item accept/reject buttons; never part of the exported PDF
+  const renderReviewControls = (status: ReviewStatus, onChange: (status: ReviewStatus) => void) => (
+    <div className="flex items-center gap-1 shrink-0 no-print">
+      <span className={`text-[10px] px-1.5 py-0.5 rounded-full border ${getReviewStyle(status)}`}>{reviewLabels[status]}</span>
+      <button
+        type="button"
+        onClick={() => onChange('accepted')}
+        className={`w-6 h-6 rounded-full text-xs border transition-colors ${status === 'accepted' ? 'bg-emerald-500 text-white border-emerald-500' : 'bg-white text-slate-400 border-slate-200 hover:text-emerald-600 hover:border-emerald-300'}`}
+        title="接受"
+      >
+        ✓
+      </button>
+      <button
+        type="button"
+        onClick={() => onChange('rejected')}
+        className={`w-6 h-6 rounded-full text-xs border transition-colors ${status === 'rejected' ? 'bg-slate-500 text-white border-slate-500' : 'bg-white text-slate-400 border-slate-200 hover:text-rose-600 hover:border-rose-300'}`}
+        title="拒绝（不会出现在导出中）"
+      >
+        ✕
+      </button>
+    </div>
+  );
+
+  const reviewSummary = summarizeReviews(data.gradingResult);
+  const renderApprovalBadge = () => {
+    if (!data.gradingResult) return null;
+    if (data.approvedAt) {
+      return (
+        <span
+          className="text-[10px] px-2 py-0.5 rounded-full border bg-emerald-50 text-emerald-700 border-emerald-200"
+          title={`教师审核通过：${new Date(data.approvedAt).toLocaleString()}`}
+        >
+          ✓ 已审核 {new Date(data.approvedAt).toLocaleDateString()}
+        </span>
+      );
+    }
+    return (
+      <span className="text-[10px] px-2 py-0.5 rounded-full border bg-amber-50 text-amber-700 border-amber-200">
+        {reviewSummary.pending > 0 ? `待审 ${reviewSummary.pending}` : '待签字'}
+      </span>
+    );
+  };
+
   const getProgressLabel = () => {
     switch (data.progressStep) {
       case 'ocr':
@@ -123,6 +355,7 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
   };
 
   const hasTextReady = Boolean((data.ocrText && data.ocrText.trim()) || (data.rawText && data.rawText.trim()));
+  const assignmentTitle = data.assignmentId ? assignments.find((assignment) => assignment.id === data.assignmentId)?.title : undefined;
   const stepLabel = (status?: string) => {
     switch (status) {
       case 'processing':
@@ -160,20 +393,45 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
   // --- LOADING STATE ---
   if (queuedOnly) {
     return (
-      <div id={`essay-card-${data.id}`} className="bg-slate-50 rounded-xl border border-slate-200 border-dashed p-3 flex items-center justify-between opacity-70 hover:opacity-100 transition-opacity mb-3">
-        <div className="flex items-center gap-4">
-          <div className="w-10 h-10 bg-slate-200 rounded-lg overflow-hidden flex items-center justify-center text-xs text-slate-400">
-            {data.imagePreview ? <img src={data.imagePreview} className="w-full h-full object-cover grayscale" alt="Thumbnail" /> : "TXT"}
+      <>
+        <div
+          id={`essay-card-${data.id}`}
+          className={`bg-slate-50 rounded-xl border border-slate-200 border-dashed p-3 flex items-center justify-between opacity-70 hover:opacity-100 transition-opacity mb-3${dropClass}`}
+          {...mergeDragProps}
+        >
+          <div className="flex items-center gap-4">
+            <div className="w-10 h-10 bg-slate-200 rounded-lg overflow-hidden flex items-center justify-center text-xs text-slate-400">
+              {data.imagePreview ? <img src={data.imagePreview} className="w-full h-full object-cover grayscale" alt="Thumbnail" draggable={false} /> : "TXT"}
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                {data.studentName || data.sourceFileName || "Submission"}
+                {pageBadge}
+              </h4>
+              <p className="text-xs text-slate-500" title={data.preprocessSummary}>
+                Waiting in queue...{data.preprocessSummary ? ' · 图片已预处理' : ''}
+              </p>
+            </div>
           </div>
-          <div>
-            <h4 className="text-sm font-semibold text-slate-700">{data.studentName || "Submission"}</h4>
-            <p className="text-xs text-slate-500">Waiting in queue...</p>
+          <div className="flex items-center gap-1">
+            {canEditImages && pages.map((page, i) => (
+              <button
+                key={page.id}
+                type="button"
+                onClick={() => setEditingPageId(page.id)}
+                className="px-2 py-1 text-[11px] border border-slate-200 rounded-md bg-white text-slate-600 hover:bg-slate-100"
+                title="手动旋转/裁剪这张图片"
+              >
+                {pages.length > 1 ? `调整 p${i + 1}` : '调整图片'}
+              </button>
+            ))}
+            <button onClick={() => onDelete(data.id)} className="text-slate-400 hover:text-rose-500 p-2">
+              <TrashIcon />
+            </button>
           </div>
         </div>
-        <button onClick={() => onDelete(data.id)} className="text-slate-400 hover:text-rose-500 p-2">
-          <TrashIcon />
-        </button>
-      </div>
+        {imageEditor}
+      </>
     );
   }
 
@@ -245,7 +503,7 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
           </div>
           <div>
             <p className="text-rose-700 font-medium text-sm">Analysis Failed</p>
-            <p className="text-xs text-slate-500 truncate max-w-xs">{data.errorMessage}</p>
+            <p className="text-xs text-slate-500 max-w-md whitespace-pre-line line-clamp-6">{data.errorMessage}</p>
             {data.ocrText && (
               <div className="mt-2 text-[11px] text-slate-600 bg-slate-50 border border-slate-200 rounded p-2 whitespace-pre-line max-h-24 overflow-hidden export-scroll-reset">
                 <div className="font-semibold mb-1 text-slate-700">OCR 已完成，文本已保存：</div>
@@ -273,7 +531,7 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
 
   // --- COMPACT MODE (Default) ---
   if (!isExpanded) {
-    const maxScore = data.gradingResult?.score && data.gradingResult.score > 20 ? 100 : 20;
+    const maxScore = resolveMaxScore(data.gradingResult);
     const scoreValue = data.gradingResult?.score;
     const scoreClass = getScoreColor(scoreValue || 0, maxScore);
     const gradeLetter = typeof scoreValue === 'number' ? getGradeLetter(scoreValue, maxScore) : '--';
@@ -282,8 +540,9 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
     return (
       <div
         id={`essay-card-${data.id}`}
-        className="group bg-white rounded-xl border border-slate-200 shadow-sm hover:shadow-md transition-all duration-200 cursor-pointer mb-3 relative overflow-hidden"
+        className={`group bg-white rounded-xl border border-slate-200 shadow-sm hover:shadow-md transition-all duration-200 cursor-pointer mb-3 relative overflow-hidden${dropClass}`}
         onClick={() => setIsExpanded(true)}
+        {...mergeDragProps}
       >
         {/* Hover indicator strip */}
         <div className="absolute left-0 top-0 bottom-0 w-1 bg-brand-500 opacity-0 group-hover:opacity-100 transition-opacity"></div>
@@ -307,6 +566,11 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
             </p>
             <div className="mt-1 flex flex-wrap gap-2">
               <span className={`text-[10px] px-2 py-0.5 rounded-full border ${stepStyle(data.gradingStatus)}`}>Carl：批改</span>
+              {renderApprovalBadge()}
+              {pageBadge}
+              {assignmentTitle && (
+                <span className="text-[10px] px-2 py-0.5 rounded-full border border-slate-200 bg-slate-50 text-slate-500">{assignmentTitle}</span>
+              )}
             </div>
           </div>
 
@@ -347,7 +611,16 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
   }
 
   // --- EXPANDED MODE (Full Details) ---
-  const expandedMaxScore = data.gradingResult?.score && data.gradingResult.score > 20 ? 100 : 20;
+  const expandedMaxScore = resolveMaxScore(data.gradingResult);
+  const rubric = data.gradingResult?.rubric || [];
+  const rubricTotalWeight = rubric.reduce((sum, dim) => sum + Math.max(dim.weight, 0), 0);
+  // Results graded before offsets existed are anchored on the fly
+  const rawIssues = data.gradingResult?.grammar_issues || [];
+  const issues = rawIssues.some((issue) => issue.start === undefined && !issue.unlocated)
+    ? anchorIssues(data.ocrText, rawIssues)
+    : rawIssues;
+  const unlocatedCount = issues.filter((issue) => issue.unlocated).length;
+  const uncertainSpans = findUncertainSpans(data.ocrText, data.ocrWords, ocrConfidenceThreshold);
   const expandedScoreValue = data.gradingResult?.score;
   const expandedGradeLetter =
     typeof expandedScoreValue === 'number' ? getGradeLetter(expandedScoreValue, expandedMaxScore) : '--';
@@ -389,8 +662,38 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
               <span className="mx-1">•</span>
               <span>{data.date}</span>
             </div>
-            <div className="flex gap-2 mt-2">
+            <div className="flex gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
               <span className={`text-[11px] px-2 py-0.5 rounded-full border ${stepStyle(data.gradingStatus)}`}>Carl：批改</span>
+              {renderApprovalBadge()}
+              {onAssignStudent && (
+                <select
+                  value={data.studentId || ''}
+                  onChange={(e) => onAssignStudent(data.id, e.target.value || null)}
+                  className={`no-print text-[11px] px-2 py-0.5 rounded-full border bg-white ${data.studentId ? 'border-slate-200 text-slate-600' : 'border-amber-200 text-amber-700'}`}
+                  title={data.extractedName ? `识别姓名：${data.extractedName}` : '关联到花名册中的学生'}
+                >
+                  <option value="">未关联学生</option>
+                  {roster.map((student) => (
+                    <option key={student.id} value={student.id}>
+                      {student.name}{student.className ? ` (${student.className})` : ''}
+                    </option>
+                  ))}
+                  <option value="new">+ 以当前姓名新建学生</option>
+                </select>
+              )}
+              {onAssignAssignment && assignments.length > 0 && (
+                <select
+                  value={data.assignmentId || ''}
+                  onChange={(e) => onAssignAssignment(data.id, e.target.value || null)}
+                  className="no-print text-[11px] px-2 py-0.5 rounded-full border border-slate-200 bg-white text-slate-600"
+                  title="作文所属作业；重改时使用该作业的批改配置"
+                >
+                  <option value="">未归入作业</option>
+                  {assignments.map((assignment) => (
+                    <option key={assignment.id} value={assignment.id}>{assignment.title}</option>
+                  ))}
+                </select>
+              )}
             </div>
           </div>
 
@@ -425,6 +728,15 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
                   重改
                 </button>
               )}
+              {(data.gradingHistory?.length || 0) > 0 && (
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="p-2 bg-white border border-slate-200 rounded-full text-slate-400 hover:text-brand-600 hover:border-brand-200 transition-colors shadow-sm"
+                  title={`批改历史（${data.gradingHistory!.length} 次）`}
+                >
+                  <ClockIcon />
+                </button>
+              )}
             </div>
 
             <div className="w-px h-12 bg-slate-200/60 hidden sm:block"></div>
@@ -435,10 +747,12 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
                 {isEditing ? (
                   <input
                     type="number"
-                    step="0.1"
+                    step={resolveScoreStep(data.gradingResult) || 0.1}
                     className="text-4xl font-bold text-sky-600 w-24 text-right bg-transparent border-b border-sky-200 focus:outline-none"
-                    value={data.gradingResult?.score}
-                    onChange={(e) => handleGradeChange('score', parseFloat(e.target.value) || 0)}
+                    value={scoreDraft ?? data.gradingResult?.score ?? ''}
+                    onChange={(e) => setScoreDraft(e.target.value)}
+                    onBlur={handleScoreCommit}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
                   />
                 ) : (
                   <span className="text-5xl font-bold text-sky-600 tracking-tighter">{expandedScoreValue ?? '—'}</span>
@@ -479,10 +793,12 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
               Source
             </h4>
             {data.submissionType === 'image' && data.imagePreview ? (
-              <div className="aspect-[3/4] w-full bg-slate-100 rounded-xl overflow-hidden border border-slate-200 shadow-inner group/image relative">
-                <img src={data.imagePreview} alt="Student Work" className="w-full h-full object-cover transition-transform duration-500 group-hover/image:scale-105" />
-                <div className="absolute inset-0 bg-black/0 hover:bg-black/5 transition-colors cursor-pointer" onClick={() => window.open(data.imagePreview, '_blank')}></div>
-              </div>
+              <PageGallery
+                pages={pages}
+                onMovePage={onMovePage ? (pageId, delta) => onMovePage(data.id, pageId, delta) : undefined}
+                onSplitPage={onSplitPage ? (pageId) => onSplitPage(data.id, pageId) : undefined}
+                onEditPage={canEditImages ? setEditingPageId : undefined}
+              />
             ) : (
               <div className="p-4 bg-slate-50 border border-slate-200 rounded-xl text-slate-500 text-sm italic text-center">
                 Submitted via Text Input
@@ -495,6 +811,35 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
             <div className="px-4 py-3 border-b border-orange-100/50 bg-orange-50/30 flex items-center gap-2">
               <BookOpenIcon />
               <h4 className="text-sm font-semibold text-slate-700">{data.submissionType === 'text' ? 'Essay Content' : 'OCR Transcription'}</h4>
+              {unlocatedCount > 0 && (
+                <span
+                  className="ml-auto text-[10px] px-2 py-0.5 rounded-full bg-amber-100 text-amber-700"
+                  title="这些批注的原文片段在文本中找不到，无法高亮"
+                >
+                  {unlocatedCount} 条未定位
+                </span>
+              )}
+              {uncertainSpans.length > 0 && (
+                <span
+                  className={`${unlocatedCount > 0 ? '' : 'ml-auto '}text-[10px] px-2 py-0.5 rounded-full bg-sky-100 text-sky-700 no-print`}
+                  title="虚线标出的词OCR置信度较低，可能是识别错误，请对照原图核对"
+                >
+                  {uncertainSpans.length} 处OCR存疑
+                </span>
+              )}
+              {data.submissionType === 'image' && data.ocrStatus === 'done' && (
+                <button
+                  type="button"
+                  onClick={() => onUpdate(data.id, { ocrVerifiedAt: data.ocrVerifiedAt ? undefined : new Date().toISOString() })}
+                  className={`${unlocatedCount > 0 || uncertainSpans.length > 0 ? '' : 'ml-auto '}text-[10px] px-2 py-0.5 rounded-full border no-print ${data.ocrVerifiedAt
+                    ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+                    : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+                    }`}
+                  title={data.ocrVerifiedAt ? '已对照原图核对，点击取消' : '对照原图核对后标记'}
+                >
+                  {data.ocrVerifiedAt ? '✓ 已核对' : '标记已核对'}
+                </button>
+              )}
             </div>
 
             <div className="p-4">
@@ -502,11 +847,15 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
                 <textarea
                   className="w-full h-64 p-3 bg-white rounded-lg border border-orange-200 text-base text-slate-700 font-serif leading-relaxed focus:border-orange-400 focus:ring-1 focus:ring-orange-400 outline-none resize-none shadow-inner"
                   value={data.ocrText}
-                  onChange={(e) => handleRootChange('ocrText', e.target.value)}
+                  onChange={(e) => handleTranscriptChange(e.target.value)}
                 />
               ) : (
                 <div className="text-base text-slate-700 font-serif leading-relaxed whitespace-pre-wrap h-auto max-h-[500px] overflow-y-auto pr-2 custom-scrollbar export-scroll-reset">
-                  {data.ocrText}
+                  <HighlightedTranscript
+                    text={data.ocrText || ''}
+                    issues={issues.filter((issue) => issue.review !== 'rejected')}
+                    uncertain={uncertainSpans}
+                  />
                 </div>
               )}
             </div>
@@ -516,6 +865,88 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
         {/* --- Right Column: Feedback & Grading (8 cols) --- */}
         <div className="xl:col-span-7 p-8 bg-[#FDFBF7] export-col-right">
 
+          {/* Teacher Review */}
+          {data.gradingResult && (
+            <div className="mb-8 no-print">
+              <div className={`p-4 rounded-xl border flex flex-wrap items-center justify-between gap-3 ${data.approvedAt ? 'bg-emerald-50/60 border-emerald-200' : 'bg-white border-slate-200'}`}>
+                <div className="text-sm text-slate-600">
+                  <span className="font-semibold text-slate-800">教师审核</span>
+                  <span className="ml-2">
+                    已处理 {reviewSummary.total - reviewSummary.pending} / {reviewSummary.total}
+                  </span>
+                  <span className="ml-2 text-xs text-slate-400">
+                    接受 {reviewSummary.accepted} · 修改 {reviewSummary.edited} · 拒绝 {reviewSummary.rejected}
+                  </span>
+                  {data.approvedAt && (
+                    <p className="text-xs text-emerald-700 mt-1">审核通过于 {new Date(data.approvedAt).toLocaleString()}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={handleAcceptAll}
+                    disabled={reviewSummary.pending === 0}
+                    className="text-xs px-3 py-1.5 rounded-md border border-emerald-200 text-emerald-700 bg-white hover:bg-emerald-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    全部接受
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleToggleApproval}
+                    disabled={!data.approvedAt && reviewSummary.pending > 0}
+                    title={!data.approvedAt && reviewSummary.pending > 0 ? '仍有待审核的批注' : undefined}
+                    className={`text-xs px-3 py-1.5 rounded-md font-semibold border disabled:opacity-40 disabled:cursor-not-allowed ${data.approvedAt ? 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50' : 'bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-700'}`}
+                  >
+                    {data.approvedAt ? '撤销审核' : '审核通过'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Score Breakdown */}
+          {rubric.length > 0 && (
+            <div className="mb-8">
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">Score Breakdown</h4>
+              <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-3">
+                {rubric.map((dim) => {
+                  const dimScore = data.gradingResult?.dimension_scores?.[dim.id];
+                  const percent = typeof dimScore === 'number' && dim.maxPoints > 0 ? (dimScore / dim.maxPoints) * 100 : 0;
+                  const weightShare = rubricTotalWeight > 0 ? Math.round((Math.max(dim.weight, 0) / rubricTotalWeight) * 100) : 0;
+                  return (
+                    <div key={dim.id} title={dim.description}>
+                      <div className="flex justify-between items-center text-sm mb-1">
+                        <span className="font-medium text-slate-700">
+                          {dim.name}
+                          <span className="ml-2 text-[10px] text-slate-400 font-normal">权重 {weightShare}%</span>
+                        </span>
+                        <span className="text-slate-500 flex items-center gap-1">
+                          {isEditing ? (
+                            <input
+                              type="number"
+                              step="0.5"
+                              min={0}
+                              max={dim.maxPoints}
+                              className="w-14 text-right bg-transparent border-b border-sky-200 focus:outline-none text-sky-700 font-semibold"
+                              value={dimScore ?? ''}
+                              onChange={(e) => handleDimensionScoreChange(dim.id, parseFloat(e.target.value) || 0)}
+                            />
+                          ) : (
+                            <span className="font-semibold text-sky-700">{dimScore ?? '—'}</span>
+                          )}
+                          <span>/ {dim.maxPoints}</span>
+                        </span>
+                      </div>
+                      <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                        <div className="bg-sky-400 h-2 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Summary */}
           <div className="mb-8 export-section-summary">
             <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">Teacher's Summary</h4>
@@ -546,23 +977,29 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
                 {isEditing && <button onClick={() => handleAddListItem('strengths')} className="text-xs text-emerald-600 hover:underline">+ Add</button>}
               </div>
               <ul className="space-y-3">
-                {data.gradingResult?.strengths.map((s, i) => (
-                  <li key={i} className="flex items-start gap-2 text-sm text-emerald-900">
-                    <span className="mt-1.5 w-1.5 h-1.5 bg-emerald-400 rounded-full shrink-0"></span>
-                    {isEditing ? (
-                      <div className="flex w-full gap-1">
-                        <input
-                          className="flex-1 bg-white/80 border-b border-emerald-200 focus:outline-none px-1 text-sm"
-                          value={s}
-                          onChange={(e) => handleListChange('strengths', i, e.target.value)}
-                        />
-                        <button onClick={() => handleDeleteListItem('strengths', i)} className="text-emerald-400 hover:text-emerald-700"><TrashIcon /></button>
-                      </div>
-                    ) : (
-                      <span className="leading-snug">{s}</span>
-                    )}
-                  </li>
-                ))}
+                {data.gradingResult?.strengths.map((s, i) => {
+                  const review = getListReviews(data.gradingResult!, 'strengths')[i];
+                  return (
+                    <li key={i} className={`flex items-start gap-2 text-sm text-emerald-900 ${review === 'rejected' ? 'export-rejected opacity-50' : ''}`}>
+                      <span className="mt-1.5 w-1.5 h-1.5 bg-emerald-400 rounded-full shrink-0"></span>
+                      {isEditing ? (
+                        <div className="flex w-full gap-1">
+                          <input
+                            className="flex-1 bg-white/80 border-b border-emerald-200 focus:outline-none px-1 text-sm"
+                            value={s}
+                            onChange={(e) => handleListChange('strengths', i, e.target.value)}
+                          />
+                          <button onClick={() => handleDeleteListItem('strengths', i)} className="text-emerald-400 hover:text-emerald-700"><TrashIcon /></button>
+                        </div>
+                      ) : (
+                        <>
+                          <span className={`leading-snug flex-1 ${review === 'rejected' ? 'line-through' : ''}`}>{s}</span>
+                          {renderReviewControls(review, (status) => handleListReview('strengths', i, status))}
+                        </>
+                      )}
+                    </li>
+                  );
+                })}
               </ul>
             </div>
 
@@ -576,23 +1013,29 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
                 {isEditing && <button onClick={() => handleAddListItem('improvements')} className="text-xs text-rose-600 hover:underline">+ Add</button>}
               </div>
               <ul className="space-y-3">
-                {data.gradingResult?.improvements.map((s, i) => (
-                  <li key={i} className="flex items-start gap-2 text-sm text-rose-900">
-                    <span className="mt-1.5 w-1.5 h-1.5 bg-rose-400 rounded-full shrink-0"></span>
-                    {isEditing ? (
-                      <div className="flex w-full gap-1">
-                        <input
-                          className="flex-1 bg-white/80 border-b border-rose-200 focus:outline-none px-1 text-sm"
-                          value={s}
-                          onChange={(e) => handleListChange('improvements', i, e.target.value)}
-                        />
-                        <button onClick={() => handleDeleteListItem('improvements', i)} className="text-rose-400 hover:text-rose-700"><TrashIcon /></button>
-                      </div>
-                    ) : (
-                      <span className="leading-snug">{s}</span>
-                    )}
-                  </li>
-                ))}
+                {data.gradingResult?.improvements.map((s, i) => {
+                  const review = getListReviews(data.gradingResult!, 'improvements')[i];
+                  return (
+                    <li key={i} className={`flex items-start gap-2 text-sm text-rose-900 ${review === 'rejected' ? 'export-rejected opacity-50' : ''}`}>
+                      <span className="mt-1.5 w-1.5 h-1.5 bg-rose-400 rounded-full shrink-0"></span>
+                      {isEditing ? (
+                        <div className="flex w-full gap-1">
+                          <input
+                            className="flex-1 bg-white/80 border-b border-rose-200 focus:outline-none px-1 text-sm"
+                            value={s}
+                            onChange={(e) => handleListChange('improvements', i, e.target.value)}
+                          />
+                          <button onClick={() => handleDeleteListItem('improvements', i)} className="text-rose-400 hover:text-rose-700"><TrashIcon /></button>
+                        </div>
+                      ) : (
+                        <>
+                          <span className={`leading-snug flex-1 ${review === 'rejected' ? 'line-through' : ''}`}>{s}</span>
+                          {renderReviewControls(review, (status) => handleListReview('improvements', i, status))}
+                        </>
+                      )}
+                    </li>
+                  );
+                })}
               </ul>
             </div>
           </div>
@@ -609,8 +1052,11 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
             </div>
 
             <div className="flex flex-col gap-0 bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm divide-y divide-slate-100">
-              {data.gradingResult?.grammar_issues.map((issue, idx) => (
-                <div key={idx} className="p-5 hover:bg-slate-50 transition-colors group/item relative">
+              {issues.map((issue, idx) => (
+                <div
+                  key={idx}
+                  className={`p-5 hover:bg-slate-50 transition-colors group/item relative ${!isEditing && issue.review === 'rejected' ? 'export-rejected opacity-50' : ''}`}
+                >
                   {isEditing ? (
                     // --- EDIT MODE ROW ---
                     <div className="flex flex-col gap-3 pr-8">
@@ -628,10 +1074,11 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
                       </div>
                       <div className="grid grid-cols-2 gap-4">
                         <input
-                          className="text-sm border border-slate-200 rounded px-2 py-1 text-rose-600 bg-rose-50/50"
+                          className={`text-sm border rounded px-2 py-1 text-rose-600 bg-rose-50/50 ${issue.unlocated ? 'border-amber-400' : 'border-slate-200'}`}
                           value={issue.original}
                           placeholder="Original Error"
                           onChange={(e) => handleGrammarChange(idx, 'original', e.target.value)}
+                          title={issue.unlocated ? '原文中找不到该片段' : undefined}
                         />
                         <input
                           className="text-sm border border-slate-200 rounded px-2 py-1 text-emerald-600 bg-emerald-50/50 font-medium"
@@ -670,6 +1117,15 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
                             {issue.correction}
                           </span>
                         </div>
+                        {issue.unlocated && (
+                          <span
+                            className="shrink-0 text-[10px] px-2 py-0.5 rounded-full bg-amber-100 text-amber-700"
+                            title="原文中找不到该片段，请编辑原文或修正 OCR 文本"
+                          >
+                            未定位
+                          </span>
+                        )}
+                        {renderReviewControls(getReviewStatus(issue.review), (status) => handleIssueReview(idx, status))}
                       </div>
                       <p className="text-sm text-slate-500 pl-[calc(60px+1rem)] leading-relaxed">
                         {issue.explanation}
@@ -687,8 +1143,37 @@ const EssayCard: React.FC<Props> = ({ data, onDelete, onUpdate, onRetry, onCance
             </div>
           </div>
 
+          {/* Model Revision */}
+          {data.gradingResult?.revised_essay !== undefined && (
+            <div className="mt-8 export-section-revision">
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">Model Revision</h4>
+              <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+                {isEditing ? (
+                  <textarea
+                    className="w-full h-64 p-3 text-base text-slate-700 font-serif leading-relaxed border border-slate-200 rounded focus:outline-none focus:border-sky-400 resize-none"
+                    value={data.gradingResult.revised_essay}
+                    onChange={(e) => handleGradeChange('revised_essay', e.target.value)}
+                  />
+                ) : (
+                  <RevisionDiff original={data.ocrText || ''} revised={data.gradingResult.revised_essay} />
+                )}
+              </div>
+            </div>
+          )}
+
         </div>
       </div>
+      {imageEditor}
+      <GradingHistoryDrawer
+        essay={data}
+        isOpen={showHistory}
+        canRestore={data.status !== ProcessingStatus.PROCESSING}
+        onClose={() => setShowHistory(false)}
+        onRestore={(revisionId) => {
+          const restored = restoreRevision(data, revisionId);
+          if (restored) onUpdate(data.id, restored);
+        }}
+      />
     </div>
   );
 };
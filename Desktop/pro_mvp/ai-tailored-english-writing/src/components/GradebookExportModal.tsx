@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { TableCellsIcon } from './Icons';
+import { EssayData, GradebookFormat, GradebookOptions } from '../types';
+import { isApproved } from '../services/review';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (options: GradebookOptions) => void;
+  essays: EssayData[];
+  scopedEssays: EssayData[]; // Essays under the current class/assignment filter
+}
+
+const formatOptions: { value: GradebookFormat; label: string; hint: string }[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)', hint: '两个工作表：成绩明细（每篇一行）和 学生×作业 汇总' },
+  { value: 'csv-essays', label: 'CSV · 成绩明细', hint: '每篇作文一行：得分、等级、各类问题数、词数、是否已审核' },
+  { value: 'csv-pivot', label: 'CSV · 学生×作业', hint: '每个学生一行，每个作业一列（同一作业取最新一篇的得分）' }
+];
+
+const GradebookExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays, scopedEssays }) => {
+  const [format, setFormat] = useState<GradebookFormat>('xlsx');
+  const [scope, setScope] = useState<GradebookOptions['scope']>('filtered');
+  const [approvedOnly, setApprovedOnly] = useState(false);
+
+  const filterActive = scopedEssays.length !== essays.length;
+
+  useEffect(() => {
+    if (isOpen) setScope(filterActive ? 'filtered' : 'all');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const source = scope === 'filtered' ? scopedEssays : essays;
+  const graded = source.filter((essay) => essay.gradingResult);
+  const exportCount = approvedOnly ? graded.filter(isApproved).length : graded.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm transition-opacity">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-3 flex-shrink-0">
+          <div className="bg-brand-100 text-brand-600 p-2 rounded-lg">
+            <TableCellsIcon />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">导出成绩表</h3>
+            <p className="text-xs text-slate-500">For the school grade system or spreadsheets</p>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-8">
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">1. 格式</h4>
+            <div className="space-y-2">
+              {formatOptions.map(({ value, label, hint }) => (
+                <label key={value} className="flex items-start gap-3 p-2.5 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer transition-colors">
+                  <input
+                    type="radio"
+                    name="gradebookFormat"
+                    checked={format === value}
+                    onChange={() => setFormat(value)}
+                    className="mt-0.5 text-brand-600 focus:ring-brand-500"
+                  />
+                  <div>
+                    <span className="text-sm font-medium text-slate-700">{label}</span>
+                    <p className="text-xs text-slate-500 mt-0.5">{hint}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">2. 范围</h4>
+            <div className="flex gap-4 mb-3">
+              <label className={`flex items-center gap-2 ${filterActive ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                <input
+                  type="radio"
+                  name="gradebookScope"
+                  checked={scope === 'filtered'}
+                  disabled={!filterActive}
+                  onChange={() => setScope('filtered')}
+                  className="text-brand-600 focus:ring-brand-500"
+                />
+                <span className="text-sm text-slate-700">当前班级/作业筛选</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="gradebookScope"
+                  checked={scope === 'all'}
+                  onChange={() => setScope('all')}
+                  className="text-brand-600 focus:ring-brand-500"
+                />
+                <span className="text-sm text-slate-700">全部作文</span>
+              </label>
+            </div>
+            <label className="flex items-center justify-between p-2.5 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer transition-colors">
+              <span className="text-sm font-medium text-slate-700">仅导出已审核的作文</span>
+              <input
+                type="checkbox"
+                checked={approvedOnly}
+                onChange={() => setApprovedOnly(!approvedOnly)}
+                className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+              />
+            </label>
+            <p className="text-xs text-slate-400 mt-2">将导出 {exportCount} 篇已批改作文{graded.length > exportCount ? `（跳过 ${graded.length - exportCount} 篇未审核）` : ''}</p>
+          </div>
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 border-t border-slate-100 flex justify-end gap-3 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm({ format, scope, approvedOnly })}
+            disabled={exportCount === 0}
+            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 shadow-sm shadow-brand-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GradebookExportModal;
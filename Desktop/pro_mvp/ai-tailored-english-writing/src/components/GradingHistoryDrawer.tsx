@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { ClockIcon } from './Icons';
+import { EssayData, GradingRevision, GrammarIssue } from '../types';
+import { compareResults, displayedResult, isRevisionEdited } from '../services/gradingHistory';
+import { resolveMaxScore } from '../services/rubric';
+
+interface Props {
+  essay: EssayData;
+  isOpen: boolean;
+  canRestore: boolean; // False while the essay is being graded
+  onClose: () => void;
+  onRestore: (revisionId: string) => void;
+}
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleString() : '时间未知');
+
+const modelLabel = (revision: GradingRevision) =>
+  revision.provider ? `${revision.provider}:${revision.model || ''}` : '模型未记录';
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${Math.round(delta * 10) / 10}`;
+
+const deltaClass = (delta: number) => (delta > 0 ? 'text-emerald-600' : delta < 0 ? 'text-rose-600' : 'text-slate-400');
+
+// Settings that differ between two runs, when both recorded them
+const configDifferences = (before: GradingRevision, after: GradingRevision) => {
+  const differences: string[] = [];
+  if (modelLabel(before) !== modelLabel(after)) differences.push(`模型：${modelLabel(before)} → ${modelLabel(after)}`);
+  if (before.assignmentTitle !== after.assignmentTitle) {
+    differences.push(`作业：${before.assignmentTitle || '无'} → ${after.assignmentTitle || '无'}`);
+  }
+  const a = before.config;
+  const b = after.config;
+  if (!a || !b) return differences;
+  if (a.level !== b.level) differences.push(`学段：${a.level} → ${b.level}`);
+  if (a.criteria?.maxScore !== b.criteria?.maxScore) differences.push(`满分：${a.criteria?.maxScore} → ${b.criteria?.maxScore}`);
+  if (a.examPresetId !== b.examPresetId) differences.push(`考试预设：${a.examPresetId || '无'} → ${b.examPresetId || '无'}`);
+  if (JSON.stringify(a.rubric) !== JSON.stringify(b.rubric)) differences.push('评分维度不同');
+  if (JSON.stringify(a.prompts) !== JSON.stringify(b.prompts)) differences.push('提示词不同');
+  return differences;
+};
+
+const IssueLine: React.FC<{ issue: GrammarIssue; tone: 'added' | 'removed' }> = ({ issue, tone }) => (
+  <li className={`text-sm ${tone === 'removed' ? 'text-slate-400 line-through' : 'text-slate-700'}`}>
+    <span className="text-rose-500">{issue.original}</span> → <span className="text-emerald-600">{issue.correction}</span>
+    {issue.type && <span className="ml-2 text-[10px] uppercase text-slate-400">{issue.type}</span>}
+  </li>
+);
+
+const GradingHistoryDrawer: React.FC<Props> = ({ essay, isOpen, canRestore, onClose, onRestore }) => {
+  const history = essay.gradingHistory || [];
+  const [selected, setSelected] = useState<string[]>([]);
+
+  // Start with the two most recent runs side by side
+  useEffect(() => {
+    if (isOpen) setSelected(history.slice(-2).map((revision) => revision.id));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const indexOf = (id: string) => history.findIndex((revision) => revision.id === id);
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id].slice(-2)));
+  };
+
+  // Older run on the left, whatever order they were picked in
+  const [before, after] = selected
+    .filter((id) => indexOf(id) >= 0)
+    .sort((a, b) => indexOf(a) - indexOf(b))
+    .map((id) => history[indexOf(id)]);
+  const comparison = before && after ? compareResults(displayedResult(essay, before), displayedResult(essay, after)) : undefined;
+  const settingChanges = before && after ? configDifferences(before, after) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/50 backdrop-blur-sm no-print" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-xl h-full flex flex-col animate-fade-in" onClick={(e) => e.stopPropagation()}>
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-3 flex-shrink-0">
+          <div className="bg-brand-100 text-brand-600 p-2 rounded-lg">
+            <ClockIcon />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-lg font-bold text-slate-800">批改历史</h3>
+            <p className="text-xs text-slate-500">{essay.studentName || 'Unknown Student'} · 共 {history.length} 次批改，勾选两次进行对比</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-xl leading-none px-2" title="Close">×</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-8 flex-1">
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">1. 各次批改</h4>
+            {history.length === 0 && <p className="text-sm text-slate-400">还没有批改记录。</p>}
+            <div className="space-y-2">
+              {history.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => {
+                const result = displayedResult(essay, revision);
+                const current = revision.id === essay.gradingRevisionId;
+                return (
+                  <div
+                    key={revision.id}
+                    className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${current ? 'border-brand-200 bg-brand-50/40' : 'border-slate-200 hover:bg-slate-50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(revision.id)}
+                      onChange={() => toggleSelected(revision.id)}
+                      className="mt-1 w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                      title="选择用于对比"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-sm font-bold text-slate-700">第 {index + 1} 次</span>
+                        {current && <span className="text-[10px] px-2 py-0.5 rounded-full border border-brand-200 bg-white text-brand-700">当前</span>}
+                        {isRevisionEdited(essay, revision) && (
+                          <span className="text-[10px] px-2 py-0.5 rounded-full border border-amber-200 bg-amber-50 text-amber-700">含老师修改</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500 mt-0.5 truncate">
+                        {formatTime(revision.gradedAt)} · {modelLabel(revision)}{revision.assignmentTitle ? ` · ${revision.assignmentTitle}` : ''}
+                      </p>
+                      <p className="text-xs text-slate-400 mt-0.5">{result.grammar_issues?.length || 0} 处修改建议</p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className="text-lg font-bold text-sky-600">
+                        {result.score}<span className="text-xs text-slate-400 font-medium"> / {resolveMaxScore(result)}</span>
+                      </div>
+                      {!current && (
+                        <button
+                          onClick={() => onRestore(revision.id)}
+                          disabled={!canRestore}
+                          className="mt-1 text-xs font-medium text-brand-600 hover:text-brand-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          title={canRestore ? '把这次的结果设为当前批改（当前结果保留在历史中）' : '批改进行中，完成后再恢复'}
+                        >
+                          恢复此版本
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {comparison && (
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">
+                2. 对比：第 {indexOf(before.id) + 1} 次 → 第 {indexOf(after.id) + 1} 次
+              </h4>
+
+              <div className="p-3 rounded-lg border border-slate-200 mb-4">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-sm font-medium text-slate-600">总分</span>
+                  <span className="text-sm text-slate-700">
+                    {comparison.score.before} / {comparison.score.maxBefore} → <b>{comparison.score.after}</b> / {comparison.score.maxAfter}
+                    <span className={`ml-2 font-bold ${deltaClass(comparison.score.after - comparison.score.before)}`}>
+                      {formatDelta(comparison.score.after - comparison.score.before)}
+                    </span>
+                  </span>
+                </div>
+                {comparison.dimensions.map((dimension) => (
+                  <div key={dimension.id} className="flex items-baseline justify-between mt-1 text-xs text-slate-500">
+                    <span>{dimension.name}</span>
+                    <span>
+                      {dimension.before ?? '—'} → {dimension.after ?? '—'}
+                      {typeof dimension.before === 'number' && typeof dimension.after === 'number' && (
+                        <span className={`ml-2 font-medium ${deltaClass(dimension.after - dimension.before)}`}>{formatDelta(dimension.after - dimension.before)}</span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {settingChanges.length > 0 && (
+                <div className="p-3 rounded-lg border border-slate-200 bg-slate-50 mb-4 text-xs text-slate-600 space-y-0.5">
+                  {settingChanges.map((change) => <p key={change}>{change}</p>)}
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <p className="text-xs text-slate-400">
+                  修改建议：新增 {comparison.issues.added.length}，删除 {comparison.issues.removed.length}，改动 {comparison.issues.changed.length}，相同 {comparison.issues.unchanged}（不含已驳回的）
+                </p>
+                {comparison.issues.added.length > 0 && (
+                  <div>
+                    <h5 className="text-xs font-bold text-emerald-700 mb-1">新增</h5>
+                    <ul className="space-y-1">{comparison.issues.added.map((issue, i) => <IssueLine key={i} issue={issue} tone="added" />)}</ul>
+                  </div>
+                )}
+                {comparison.issues.removed.length > 0 && (
+                  <div>
+                    <h5 className="text-xs font-bold text-rose-700 mb-1">删除</h5>
+                    <ul className="space-y-1">{comparison.issues.removed.map((issue, i) => <IssueLine key={i} issue={issue} tone="removed" />)}</ul>
+                  </div>
+                )}
+                {comparison.issues.changed.length > 0 && (
+                  <div>
+                    <h5 className="text-xs font-bold text-amber-700 mb-1">改动</h5>
+                    <ul className="space-y-1">
+                      {comparison.issues.changed.map(({ before: old, after: next }, i) => (
+                        <li key={i} className="text-sm text-slate-700">
+                          <span className="text-rose-500">{next.original}</span> →{' '}
+                          <span className="text-slate-400 line-through">{old.correction}</span>{' '}
+                          <span className="text-emerald-600">{next.correction}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {(['strengths', 'improvements'] as const).map((field) => {
+                  const { added, removed } = comparison[field];
+                  if (!added.length && !removed.length) return null;
+                  return (
+                    <div key={field}>
+                      <h5 className="text-xs font-bold text-slate-600 mb-1">{field === 'strengths' ? 'Strengths' : 'Areas for Improvement'}</h5>
+                      <ul className="space-y-1 text-sm">
+                        {added.map((item, i) => <li key={`a${i}`} className="text-emerald-700">+ {item}</li>)}
+                        {removed.map((item, i) => <li key={`r${i}`} className="text-slate-400 line-through">− {item}</li>)}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GradingHistoryDrawer;
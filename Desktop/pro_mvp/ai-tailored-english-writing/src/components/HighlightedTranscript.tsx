@@ -0,0 +1,98 @@
+import React from 'react';
+import { GrammarIssue } from '../types';
+import { hasValidAnchor } from '../services/issueAnchoring';
+import { OcrSpan } from '../services/ocrConfidence';
+
+interface Props {
+  text: string;
+  issues: GrammarIssue[];
+  uncertain?: OcrSpan[]; // Low-confidence OCR words, shown with a dotted underline
+}
+
+// Same palette as the correction tags in EssayCard, as underlined highlights
+const getHighlightStyle = (type: string = 'Grammar') => {
+  const t = type.toLowerCase();
+  if (t.includes('vocab')) return 'bg-purple-100 decoration-purple-400';
+  if (t.includes('grammar')) return 'bg-orange-100 decoration-orange-400';
+  if (t.includes('struct')) return 'bg-blue-100 decoration-blue-400';
+  if (t.includes('spell')) return 'bg-rose-100 decoration-rose-400';
+  return 'bg-slate-100 decoration-slate-400';
+};
+
+type Piece = { text: string; uncertain?: OcrSpan };
+type Segment = { text: string; start: number; issue?: GrammarIssue };
+
+const buildSegments = (text: string, issues: GrammarIssue[]): Segment[] => {
+  const anchored = issues
+    .filter((issue) => hasValidAnchor(text, issue))
+    .sort((a, b) => (a.start as number) - (b.start as number));
+
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const issue of anchored) {
+    const start = issue.start as number;
+    const end = issue.end as number;
+    // Overlapping ranges keep the earlier highlight
+    if (start < cursor) continue;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), start: cursor });
+    segments.push({ text: text.slice(start, end), start, issue });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), start: cursor });
+  return segments;
+};
+
+// Cut a segment further where uncertain OCR words fall inside it
+const splitUncertain = (segment: Segment, uncertain: OcrSpan[]): Piece[] => {
+  const end = segment.start + segment.text.length;
+  const pieces: Piece[] = [];
+  let cursor = segment.start;
+  for (const span of uncertain) {
+    if (span.end <= cursor || span.start >= end) continue;
+    const from = Math.max(span.start, cursor);
+    const to = Math.min(span.end, end);
+    if (from > cursor) pieces.push({ text: segment.text.slice(cursor - segment.start, from - segment.start) });
+    pieces.push({ text: segment.text.slice(from - segment.start, to - segment.start), uncertain: span });
+    cursor = to;
+  }
+  if (cursor < end) pieces.push({ text: segment.text.slice(cursor - segment.start) });
+  return pieces;
+};
+
+const renderPieces = (segment: Segment, uncertain: OcrSpan[]) =>
+  splitUncertain(segment, uncertain).map((piece, idx) =>
+    piece.uncertain ? (
+      <span
+        key={idx}
+        className="ocr-uncertain border-b-2 border-dotted border-sky-500"
+        title={`OCR 置信度低（${Math.round(piece.uncertain.confidence * 100)}%），请对照原图核对`}
+      >
+        {piece.text}
+      </span>
+    ) : (
+      <React.Fragment key={idx}>{piece.text}</React.Fragment>
+    )
+  );
+
+const HighlightedTranscript: React.FC<Props> = ({ text, issues, uncertain = [] }) => (
+  <>
+    {buildSegments(text, issues).map((segment, idx) =>
+      segment.issue ? (
+        <span
+          key={idx}
+          className={`relative group/hl rounded-sm underline decoration-2 underline-offset-4 cursor-help ${getHighlightStyle(segment.issue.type)}`}
+        >
+          {renderPieces(segment, uncertain)}
+          <span className="hidden group-hover/hl:block absolute left-0 bottom-full mb-1 z-20 w-64 p-2 rounded-lg bg-slate-800 text-white text-xs font-sans leading-snug shadow-lg whitespace-normal pointer-events-none">
+            <span className="block font-semibold text-emerald-300">→ {segment.issue.correction}</span>
+            {segment.issue.explanation && <span className="block mt-1 text-slate-200">{segment.issue.explanation}</span>}
+          </span>
+        </span>
+      ) : (
+        <React.Fragment key={idx}>{renderPieces(segment, uncertain)}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default HighlightedTranscript;
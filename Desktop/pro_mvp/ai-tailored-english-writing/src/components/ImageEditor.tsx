@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EssayPage, ImageEdit, ImagePreprocessSettings } from '../types';
+import { PreprocessResult, preprocessImage, renderRotated } from '../services/imagePreprocess';
+
+export interface EditedImage {
+  file: File;
+  imagePreview: string;
+  originalFile: File;
+  preprocessSummary: string;
+  imageEdit: ImageEdit;
+}
+
+interface Props {
+  page: EssayPage;
+  pageLabel?: string;
+  settings: ImagePreprocessSettings;
+  onApply: (image: EditedImage) => void;
+  onClose: () => void;
+}
+
+type Crop = NonNullable<ImageEdit['crop']>;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Object URL for a file, revoked when it changes or the editor closes
+const useObjectUrl = (file?: Blob) => {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    if (!file) {
+      setUrl(undefined);
+      return undefined;
+    }
+    const next = URL.createObjectURL(file);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [file]);
+  return url;
+};
+
+/**
+ * Manual rotate/crop on top of the automatic clean-up, with a before/after preview.
+ * Works from the untouched upload while it is still in memory; after a reload the
+ * stored (already processed) image is the starting point.
+ */
+const ImageEditor: React.FC<Props> = ({ page, pageLabel, settings, onApply, onClose }) => {
+  const source = page.originalFile || page.file;
+  const fromOriginal = Boolean(page.originalFile);
+  const [quarterTurns, setQuarterTurns] = useState(() => (fromOriginal ? Math.round((page.imageEdit?.rotation || 0) / 90) : 0));
+  const [fineAngle, setFineAngle] = useState(() => {
+    if (!fromOriginal) return 0;
+    const rotation = page.imageEdit?.rotation || 0;
+    return Math.round((rotation - Math.round(rotation / 90) * 90) * 10) / 10;
+  });
+  const [crop, setCrop] = useState<Crop | undefined>(fromOriginal ? page.imageEdit?.crop : undefined);
+  const [options, setOptions] = useState<ImagePreprocessSettings>({ ...settings, enabled: true });
+  const [base, setBase] = useState<PreprocessResult>();
+  const [after, setAfter] = useState<PreprocessResult>();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string>();
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<Crop>();
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  const rotation = quarterTurns * 90 + fineAngle;
+  const edit: ImageEdit = { rotation, crop };
+  const baseUrl = useObjectUrl(base?.file);
+  const afterUrl = useObjectUrl(after?.file);
+
+  // Rotated source the crop rectangle is drawn on (crop fractions refer to this image)
+  useEffect(() => {
+    if (!source) return undefined;
+    let cancelled = false;
+    renderRotated(source, rotation)
+      .then((result) => !cancelled && setBase(result))
+      .catch((err) => !cancelled && setError(err?.message || '图片读取失败'));
+    return () => {
+      cancelled = true;
+    };
+  }, [source, rotation]);
+
+  // Debounced after-preview with the full pipeline
+  useEffect(() => {
+    if (!source) return undefined;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      setBusy(true);
+      preprocessImage(source, options, edit)
+        .then((result) => {
+          if (cancelled) return;
+          setAfter(result);
+          setError(undefined);
+        })
+        .catch((err) => !cancelled && setError(err?.message || '图片处理失败'))
+        .finally(() => !cancelled && setBusy(false));
+    }, 400);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+    // edit is rebuilt every render; its parts are the real dependencies
+  }, [source, options, rotation, crop]);
+
+  const pointerFraction = (e: React.PointerEvent) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointerFraction(e);
+    setDraft(undefined);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const point = pointerFraction(e);
+    const start = dragStart.current;
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    // A click without a drag leaves the crop as it was
+    if (draft && draft.width > 0.05 && draft.height > 0.05) setCrop(draft);
+    setDraft(undefined);
+  };
+
+  const handleApply = () => {
+    if (!after || !source || busy) return;
+    onApply({
+      file: after.file,
+      imagePreview: URL.createObjectURL(after.file),
+      originalFile: source,
+      preprocessSummary: after.steps.join(' · '),
+      imageEdit: edit
+    });
+  };
+
+  const shownCrop = draft || crop;
+  const toggleClass = 'flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer';
+  const buttonClass = 'px-2.5 py-1 text-xs border border-slate-200 rounded-md bg-white text-slate-600 hover:bg-slate-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4 no-print" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-[92vh] overflow-y-auto p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold text-slate-800">调整图片{pageLabel ? ` · ${pageLabel}` : ''}</h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-600 text-xl leading-none">×</button>
+        </div>
+        {!fromOriginal && (
+          <p className="text-[11px] text-amber-700 bg-amber-50 border border-amber-100 rounded-md px-2 py-1">
+            原图只在本次会话中保留，当前以已处理的图片为起点继续调整。
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button type="button" className={buttonClass} onClick={() => setQuarterTurns((turns) => (turns + 3) % 4)}>↺ 左转90°</button>
+          <button type="button" className={buttonClass} onClick={() => setQuarterTurns((turns) => (turns + 1) % 4)}>↻ 右转90°</button>
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            微调
+            <input type="range" min={-15} max={15} step={0.5} value={fineAngle} onChange={(e) => setFineAngle(parseFloat(e.target.value))} />
+            <span className="w-10 text-right tabular-nums">{fineAngle}°</span>
+          </label>
+          <button type="button" className={buttonClass} onClick={() => setCrop(undefined)} disabled={!crop}>清除裁剪</button>
+          <span className="h-4 w-px bg-slate-200" />
+          <label className={toggleClass}>
+            <input type="checkbox" checked={options.autoCrop} onChange={(e) => setOptions({ ...options, autoCrop: e.target.checked })} />
+            自动裁剪纸张
+          </label>
+          <label className={toggleClass}>
+            <input type="checkbox" checked={options.deskew} onChange={(e) => setOptions({ ...options, deskew: e.target.checked })} />
+            纠偏
+          </label>
+          <label className={toggleClass}>
+            <input type="checkbox" checked={options.grayscale} onChange={(e) => setOptions({ ...options, grayscale: e.target.checked })} />
+            灰度
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            对比度
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.1}
+              value={options.contrast}
+              onChange={(e) => setOptions({ ...options, contrast: parseFloat(e.target.value) })}
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <div className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">处理前 · 拖动框选裁剪区域</div>
+            <div className="bg-slate-100 rounded-xl border border-slate-200 flex items-center justify-center min-h-[300px] p-2">
+              {baseUrl ? (
+                <div
+                  ref={stageRef}
+                  className="relative inline-block cursor-crosshair select-none touch-none"
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                >
+                  <img src={baseUrl} alt="Before" className="max-h-[55vh] max-w-full block" draggable={false} />
+                  {shownCrop && (
+                    <div
+                      className="absolute border-2 border-brand-500 bg-brand-500/10 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] pointer-events-none"
+                      style={{
+                        left: `${shownCrop.x * 100}%`,
+                        top: `${shownCrop.y * 100}%`,
+                        width: `${shownCrop.width * 100}%`,
+                        height: `${shownCrop.height * 100}%`
+                      }}
+                    />
+                  )}
+                </div>
+              ) : (
+                <span className="text-xs text-slate-400">加载中...</span>
+              )}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">处理后{busy ? ' · 处理中...' : ''}</div>
+            <div className="bg-slate-100 rounded-xl border border-slate-200 flex items-center justify-center min-h-[300px] p-2">
+              {afterUrl ? (
+                <img src={afterUrl} alt="After" draggable={false} className={`max-h-[55vh] max-w-full block ${busy ? 'opacity-60' : ''}`} />
+              ) : (
+                <span className="text-xs text-slate-400">{error || '处理中...'}</span>
+              )}
+            </div>
+            {after && <p className="text-[11px] text-slate-500 mt-2">{after.width}×{after.height} · {after.steps.join(' · ')}</p>}
+          </div>
+        </div>
+
+        {error && afterUrl && <p className="text-xs text-rose-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50">取消</button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!after || busy}
+            className="px-4 py-2 text-sm text-white bg-brand-600 rounded-lg hover:bg-brand-700 disabled:opacity-50"
+          >
+            应用（需重新OCR）
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,269 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { EssayData } from '../types';
+import { getEssayPages } from '../services/essayPages';
+import { findUncertainSpans } from '../services/ocrConfidence';
+import { isOcrVerified, locateTranscriptLine, needsOcrVerification } from '../services/ocrVerification';
+
+interface Props {
+  essays: EssayData[];
+  ocrConfidenceThreshold?: number;
+  onSave: (id: string, text: string, verified: boolean) => void;
+  onClose: () => void;
+}
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3];
+
+const SHORTCUTS: [string, string][] = [
+  ['Ctrl+Enter', '标记已核对并下一篇'],
+  ['Alt+→ / Alt+←', '下一篇 / 上一篇'],
+  ['Alt+= / Alt+- / Alt+0', '放大 / 缩小 / 适合宽度'],
+  ['Esc', '保存并退出']
+];
+
+const lineAt = (text: string, offset: number) => text.slice(0, offset).split('\n').length - 1;
+
+/**
+ * Full-screen check of OCR transcripts: the source pages on the left, the editable text on
+ * the right. The image follows the caret (and the text scroll) line by line, estimated from
+ * each page's share of the transcript.
+ */
+const OcrVerificationView: React.FC<Props> = ({ essays, ocrConfidenceThreshold, onSave, onClose }) => {
+  // Fixed when the view opens, so verified essays do not drop out from under the teacher
+  const [ids] = useState(() => essays.filter(needsOcrVerification).map((essay) => essay.id));
+  const [index, setIndex] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [zoom, setZoom] = useState(1);
+  const [guide, setGuide] = useState<{ page: number; fraction: number; lineSpan: number } | null>(null);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+  const paneRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const lastCaretSync = useRef(0);
+
+  const essay = essays.find((item) => item.id === ids[index]);
+  const pages = essay ? getEssayPages(essay) : [];
+  const verifiedCount = ids.filter((id) => {
+    const item = essays.find((e) => e.id === id);
+    return item && isOcrVerified(item);
+  }).length;
+  const uncertain = essay ? findUncertainSpans(draft, essay.ocrWords, ocrConfidenceThreshold) : [];
+
+  useEffect(() => {
+    setDraft(essay?.ocrText || '');
+    setGuide(null);
+    paneRef.current?.scrollTo({ top: 0 });
+    textRef.current?.scrollTo({ top: 0 });
+    textRef.current?.focus();
+    // Only when moving to another essay; saving the draft must not reset the editor
+  }, [essay?.id]);
+
+  const save = useCallback((verified?: boolean) => {
+    if (!essay) return;
+    const nextVerified = verified ?? isOcrVerified(essay);
+    if (draft !== essay.ocrText || nextVerified !== isOcrVerified(essay)) onSave(essay.id, draft, nextVerified);
+  }, [essay, draft, onSave]);
+
+  const go = useCallback((delta: number) => {
+    save();
+    setIndex((current) => Math.min(ids.length - 1, Math.max(0, current + delta)));
+  }, [save, ids.length]);
+
+  const verifyAndNext = useCallback(() => {
+    save(true);
+    setIndex((current) => Math.min(ids.length - 1, current + 1));
+  }, [save, ids.length]);
+
+  const close = useCallback(() => {
+    save();
+    onClose();
+  }, [save, onClose]);
+
+  const changeZoom = useCallback((direction: number) => {
+    setZoom((current) => {
+      if (direction === 0) return 1;
+      const position = ZOOM_STEPS.findIndex((step) => step >= current);
+      const next = Math.min(ZOOM_STEPS.length - 1, Math.max(0, (position < 0 ? ZOOM_STEPS.length - 1 : position) + direction));
+      return ZOOM_STEPS[next];
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        close();
+      } else if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+        e.preventDefault();
+        verifyAndNext();
+      } else if (e.altKey && (e.key === 'ArrowRight' || e.key === 'ArrowLeft')) {
+        e.preventDefault();
+        go(e.key === 'ArrowRight' ? 1 : -1);
+      } else if (e.altKey && (e.code === 'Equal' || e.code === 'Minus' || e.code === 'Digit0')) {
+        e.preventDefault();
+        changeZoom(e.code === 'Equal' ? 1 : e.code === 'Minus' ? -1 : 0);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [close, verifyAndNext, go, changeZoom]);
+
+  const scrollImageToLine = (line: number, align: 'top' | 'center') => {
+    const pane = paneRef.current;
+    if (!pane || !essay) return;
+    const position = locateTranscriptLine(draft, pages.map((page) => page.ocrText), line);
+    const pageEl = pageRefs.current[position.page];
+    if (!pageEl) return;
+    setGuide(position);
+    const target = pageEl.offsetTop + position.fraction * pageEl.offsetHeight;
+    pane.scrollTo({ top: target - (align === 'center' ? pane.clientHeight / 2 : pane.clientHeight * 0.15) });
+  };
+
+  const handleCaret = () => {
+    const textarea = textRef.current;
+    if (!textarea) return;
+    lastCaretSync.current = Date.now();
+    scrollImageToLine(lineAt(textarea.value, textarea.selectionStart), 'center');
+  };
+
+  const handleTextScroll = () => {
+    const textarea = textRef.current;
+    // A caret move scrolls the textarea too; that scroll should not move the image again
+    if (!textarea || Date.now() - lastCaretSync.current < 200) return;
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 28;
+    scrollImageToLine(Math.floor(textarea.scrollTop / lineHeight), 'top');
+  };
+
+  // Keep the guide on the same line when zooming
+  useLayoutEffect(() => {
+    if (!guide || !paneRef.current) return;
+    const pageEl = pageRefs.current[guide.page];
+    if (pageEl) paneRef.current.scrollTo({ top: pageEl.offsetTop + guide.fraction * pageEl.offsetHeight - paneRef.current.clientHeight / 2 });
+  }, [zoom]);
+
+  const selectSpan = (start: number, end: number) => {
+    const textarea = textRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    handleCaret();
+  };
+
+  const buttonClass = 'px-3 py-1.5 text-xs font-semibold rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/70 flex no-print">
+      <div className="bg-white w-full h-full flex flex-col">
+        <div className="px-6 py-3 border-b border-slate-200 flex items-center gap-4">
+          <h2 className="font-bold text-slate-800">OCR 核对</h2>
+          {ids.length > 0 && (
+            <span className="text-xs text-slate-500">
+              第 {index + 1} / {ids.length} 篇 · 已核对 {verifiedCount}
+              {verifiedCount === ids.length && <span className="ml-2 text-emerald-600 font-semibold">全部核对完成</span>}
+            </span>
+          )}
+          {essay && (
+            <span className="text-sm text-slate-700 truncate">
+              {essay.studentName || essay.sourceFileName || 'Submission'}
+              {isOcrVerified(essay) && <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 border border-emerald-200">已核对</span>}
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            <button type="button" className={buttonClass} onClick={() => go(-1)} disabled={index === 0}>← 上一篇</button>
+            <button type="button" className={buttonClass} onClick={() => go(1)} disabled={index >= ids.length - 1}>下一篇 →</button>
+            {essay && isOcrVerified(essay) ? (
+              <button type="button" className={buttonClass} onClick={() => save(false)}>取消核对</button>
+            ) : (
+              <button
+                type="button"
+                onClick={verifyAndNext}
+                disabled={!essay}
+                className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+              >
+                ✓ 已核对
+              </button>
+            )}
+            <button type="button" className={buttonClass} onClick={close}>完成</button>
+          </div>
+        </div>
+
+        {!essay ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-slate-500">没有待核对的OCR文本。</div>
+        ) : (
+          <div className="flex-1 grid grid-cols-2 min-h-0">
+            <div className="flex flex-col min-h-0 border-r border-slate-200 bg-slate-100">
+              <div className="px-4 py-2 flex items-center gap-2 text-xs text-slate-500 border-b border-slate-200 bg-white">
+                <button type="button" className={buttonClass} onClick={() => changeZoom(-1)}>−</button>
+                <span className="w-12 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+                <button type="button" className={buttonClass} onClick={() => changeZoom(1)}>+</button>
+                <button type="button" className={buttonClass} onClick={() => changeZoom(0)}>适合宽度</button>
+                {pages.length > 1 && <span className="ml-auto">共 {pages.length} 页</span>}
+              </div>
+              <div ref={paneRef} className="flex-1 overflow-auto p-4 custom-scrollbar">
+                <div className="space-y-4 mx-auto" style={{ width: `${zoom * 100}%` }}>
+                  {pages.map((page, i) => (
+                    <div key={page.id} ref={(el) => { pageRefs.current[i] = el; }} className="relative bg-white shadow-sm">
+                      {page.imagePreview ? (
+                        <img src={page.imagePreview} alt={`p${i + 1}`} className="w-full block" draggable={false} />
+                      ) : (
+                        <div className="aspect-[3/4] flex items-center justify-center text-xs text-slate-400">图片不可用</div>
+                      )}
+                      {guide?.page === i && (
+                        <div
+                          className="absolute inset-x-0 bg-amber-300/25 border-y border-amber-400/60 pointer-events-none"
+                          style={{
+                            top: `${Math.max(0, guide.fraction - guide.lineSpan / 2) * 100}%`,
+                            height: `${guide.lineSpan * 100}%`
+                          }}
+                        />
+                      )}
+                      {pages.length > 1 && (
+                        <span className="absolute top-2 left-2 text-[10px] px-1.5 py-0.5 rounded bg-black/50 text-white">p{i + 1}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-col min-h-0">
+              <textarea
+                ref={textRef}
+                value={draft}
+                wrap="off"
+                spellCheck={false}
+                onChange={(e) => setDraft(e.target.value)}
+                onSelect={handleCaret}
+                onScroll={handleTextScroll}
+                className="flex-1 w-full p-6 text-base leading-7 font-serif text-slate-700 resize-none outline-none border-0 focus:ring-0 custom-scrollbar"
+              />
+              <div className="px-6 py-3 border-t border-slate-200 space-y-2">
+                {uncertain.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                    <span className="text-slate-500">OCR存疑：</span>
+                    {uncertain.map((span) => (
+                      <button
+                        key={span.start}
+                        type="button"
+                        onClick={() => selectSpan(span.start, span.end)}
+                        className="px-2 py-0.5 rounded border border-dotted border-sky-400 bg-sky-50 text-sky-700 hover:bg-sky-100"
+                        title={`置信度 ${Math.round(span.confidence * 100)}%`}
+                      >
+                        {span.text}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-slate-400">
+                  {SHORTCUTS.map(([keys, label]) => (
+                    <span key={keys}><kbd className="font-mono text-slate-500">{keys}</kbd> {label}</span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OcrVerificationView;
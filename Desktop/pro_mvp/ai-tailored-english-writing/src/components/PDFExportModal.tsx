@@ -1,35 +1,42 @@
 import React, { useState, useEffect } from 'react';
 import { DocumentTextIcon } from './Icons';
-import { EssayData } from '../types';
-
-export interface ExportOptions {
-  includeImage: boolean;
-  includeOCR: boolean;
-  includeSummary: boolean;
-  includeLists: boolean;
-  includeCorrections: boolean;
-  fontScale: number;
-}
+import { EssayData, ExportOptions, ReportFormat, ReportSplitMode } from '../types';
+import { isApproved } from '../services/review';
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  FILE_NAME_FIELDS,
+  formatReportFileName,
+  groupReportEssays,
+  ReportContext,
+  reportFileFields
+} from '../services/reportBundle';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   onConfirm: (options: ExportOptions, selectedIds: string[]) => void;
   essays: EssayData[];
+  reportContext: ReportContext;
+  defaultFileNameTemplate?: string;
 }
 
-type ContentOptionKey = 'includeImage' | 'includeOCR' | 'includeSummary' | 'includeLists' | 'includeCorrections';
+type ContentOptionKey = 'includeImage' | 'includeOCR' | 'includeSummary' | 'includeLists' | 'includeCorrections' | 'includeRevision';
 
-const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays }) => {
+const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays, reportContext, defaultFileNameTemplate }) => {
   // Content Options
   const [options, setOptions] = useState<Record<ContentOptionKey, boolean>>({
     includeImage: true,
     includeOCR: true,
     includeSummary: true,
     includeLists: true,
-    includeCorrections: true
+    includeCorrections: true,
+    includeRevision: true
   });
   const [fontScale, setFontScale] = useState<number>(100);
+  const [approvedOnly, setApprovedOnly] = useState(false);
+  const [format, setFormat] = useState<ReportFormat>('pdf');
+  const [splitBy, setSplitBy] = useState<ReportSplitMode>('combined');
+  const [fileNameTemplate, setFileNameTemplate] = useState(defaultFileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE);
 
   // Student Selection State
   const [selectionMode, setSelectionMode] = useState<'all' | 'custom'>('all');
@@ -46,6 +53,7 @@ const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays })
       setSelectedIds(new Set(initialIds));
       setSelectionMode('all');
       setFontScale(100);
+      setFileNameTemplate(defaultFileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE);
     }
   }, [isOpen, essays]);
 
@@ -54,7 +62,7 @@ const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays })
   };
 
   const toggleAllOptions = () => {
-    const contentKeys: ContentOptionKey[] = ['includeImage', 'includeOCR', 'includeSummary', 'includeLists', 'includeCorrections'];
+    const contentKeys: ContentOptionKey[] = ['includeImage', 'includeOCR', 'includeSummary', 'includeLists', 'includeCorrections', 'includeRevision'];
     setOptions(prev => {
       const allSelected = contentKeys.every(key => prev[key]);
       const next = { ...prev };
@@ -87,13 +95,22 @@ const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays })
     setSelectedIds(next);
   };
 
+  // If 'all', pass all current essay IDs, otherwise pass the selected set
+  const requestedIds = selectionMode === 'all'
+    ? essays.map(e => e.id)
+    : Array.from(selectedIds).filter((id) => validEssayIdSet.has(id));
+  const approvedIdSet = new Set(essays.filter(isApproved).map((essay) => essay.id));
+  const finalIds = approvedOnly ? requestedIds.filter((id) => approvedIdSet.has(id)) : requestedIds;
+  const skippedCount = requestedIds.filter((id) => validEssayIdSet.has(id) && !approvedIdSet.has(id)).length;
+
+  // Files the split modes will produce, for the count and the example name
+  const finalIdSet = new Set(finalIds);
+  const reportGroups = splitBy === 'combined' ? [] : groupReportEssays(validEssays.filter((essay) => finalIdSet.has(essay.id)), splitBy);
+  const exampleFileName = reportGroups.length > 0 ? formatReportFileName(fileNameTemplate, reportFileFields(reportGroups[0], reportContext), format) : '';
+
   const handleConfirm = () => {
-    // If 'all', pass all current essay IDs, otherwise pass the selected set
-    const finalIds = selectionMode === 'all' 
-      ? essays.map(e => e.id) 
-      : Array.from(selectedIds).filter((id) => validEssayIdSet.has(id));
-    
-    onConfirm({ ...options, fontScale }, finalIds);
+    if (finalIds.length === 0) return;
+    onConfirm({ ...options, fontScale, approvedOnly, format, splitBy, fileNameTemplate: fileNameTemplate.trim() || DEFAULT_FILE_NAME_TEMPLATE }, finalIds);
   };
 
   if (!isOpen) return null;
@@ -104,6 +121,19 @@ const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays })
     { key: 'includeSummary', label: "Teacher's Summary" },
     { key: 'includeLists', label: 'Strengths & Improvements' },
     { key: 'includeCorrections', label: 'Detailed Corrections' },
+    { key: 'includeRevision', label: 'Model Revision (diff)' },
+  ];
+
+  const formatOptions: { value: ReportFormat; label: string; hint: string }[] = [
+    { value: 'pdf', label: 'PDF', hint: '排版固定，适合打印和分发' },
+    { value: 'docx', label: 'Word (.docx)', hint: '批改以修订和批注的形式写在原文中，可逐条接受/拒绝' }
+  ];
+  const fileLabel = format === 'pdf' ? 'PDF' : 'Word 文件';
+
+  const splitOptions: { value: ReportSplitMode; label: string; hint: string }[] = [
+    { value: 'combined', label: `合并为一个${fileLabel}`, hint: '所有作文依次排在同一个文件中' },
+    { value: 'essay', label: `每篇作文一个${fileLabel}`, hint: '打包为 zip，附 manifest.csv' },
+    { value: 'student', label: `每个学生一个${fileLabel}`, hint: '同一作业下同一学生的作文合并为一个文件，打包为 zip' }
   ];
 
   return (
@@ -179,9 +209,74 @@ const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays })
               </div>
            </div>
 
-           {/* --- Section 3: Select Students --- */}
+           {/* --- Section 3: Output --- */}
+           <div className="mb-8">
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">3. 输出方式</h4>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                {formatOptions.map(({ value, label, hint }) => (
+                  <label key={value} className={`flex items-start gap-3 p-2.5 rounded-lg border cursor-pointer transition-colors ${format === value ? 'border-brand-300 bg-brand-50/60' : 'border-slate-200 hover:bg-slate-50'}`}>
+                      <input
+                        type="radio"
+                        name="reportFormat"
+                        checked={format === value}
+                        onChange={() => setFormat(value)}
+                        className="mt-0.5 text-brand-600 focus:ring-brand-500"
+                      />
+                      <div>
+                          <span className="text-sm font-medium text-slate-700">{label}</span>
+                          <p className="text-xs text-slate-500 mt-0.5">{hint}</p>
+                      </div>
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2">
+                {splitOptions.map(({ value, label, hint }) => (
+                  <label key={value} className="flex items-start gap-3 p-2.5 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer transition-colors">
+                      <input
+                        type="radio"
+                        name="splitBy"
+                        checked={splitBy === value}
+                        onChange={() => setSplitBy(value)}
+                        className="mt-0.5 text-brand-600 focus:ring-brand-500"
+                      />
+                      <div>
+                          <span className="text-sm font-medium text-slate-700">{label}</span>
+                          <p className="text-xs text-slate-500 mt-0.5">{hint}</p>
+                      </div>
+                  </label>
+                ))}
+              </div>
+
+              {splitBy !== 'combined' && (
+                <div className="mt-3 p-4 border border-slate-200 rounded-xl bg-slate-50/50 shadow-sm">
+                    <label className="text-sm font-semibold text-slate-800" htmlFor="report-file-name-template">文件名模板</label>
+                    <input
+                      id="report-file-name-template"
+                      type="text"
+                      value={fileNameTemplate}
+                      onChange={(e) => setFileNameTemplate(e.target.value)}
+                      placeholder={DEFAULT_FILE_NAME_TEMPLATE}
+                      className="mt-2 w-full px-3 py-2 text-sm font-mono border border-slate-200 rounded-lg bg-white focus:outline-none focus:border-brand-400"
+                    />
+                    <p className="text-xs text-slate-500 mt-2">
+                      可用字段：
+                      {FILE_NAME_FIELDS.map((field) => (
+                        <code key={field} className="mx-0.5 px-1 rounded bg-white border border-slate-200 text-slate-600">{`{${field}}`}</code>
+                      ))}
+                    </p>
+                    {exampleFileName && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        示例：<span className="font-mono text-slate-700">{exampleFileName}</span>
+                      </p>
+                    )}
+                    <p className="text-xs text-slate-400 mt-1">共 {reportGroups.length} 个{fileLabel}</p>
+                </div>
+              )}
+           </div>
+
+           {/* --- Section 4: Select Students --- */}
            <div>
-              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">3. Select Students</h4>
+              <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">4. Select Students</h4>
               
               <div className="flex gap-4 mb-4">
                   <label className="flex items-center gap-2 cursor-pointer">
@@ -240,7 +335,10 @@ const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays })
                                 className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
                               />
                               <div className="flex-1">
-                                  <p className="text-sm font-semibold text-slate-800">{essay.studentName || "Unknown Student"}</p>
+                                  <p className="text-sm font-semibold text-slate-800">
+                                    {essay.studentName || "Unknown Student"}
+                                    {approvedIdSet.has(essay.id) && <span className="ml-2 text-[10px] font-medium text-emerald-600">✓ 已审核</span>}
+                                  </p>
                                   <p className="text-xs text-slate-400">{essay.topic || "No Topic"} • Grade: {essay.gradingResult?.score}</p>
                               </div>
                           </label>
@@ -248,6 +346,21 @@ const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays })
                   </div>
                 </>
               )}
+
+              <label className="mt-4 flex items-center justify-between p-2.5 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer transition-colors">
+                  <div>
+                      <span className="text-sm font-medium text-slate-700">仅导出教师已审核的作文</span>
+                      {approvedOnly && skippedCount > 0 && (
+                          <p className="text-xs text-amber-600 mt-0.5">{skippedCount} 篇未审核，将被跳过</p>
+                      )}
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={approvedOnly}
+                    onChange={() => setApprovedOnly(!approvedOnly)}
+                    className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                  />
+              </label>
            </div>
 
         </div>
@@ -262,9 +375,10 @@ const PDFExportModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, essays })
             </button>
             <button 
                onClick={handleConfirm}
-               className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 shadow-sm shadow-brand-200 flex items-center gap-2 transition-colors"
+               disabled={finalIds.length === 0}
+               className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 shadow-sm shadow-brand-200 flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-               Generate PDF
+               {splitBy !== 'combined' ? '生成 zip' : format === 'pdf' ? 'Generate PDF' : 'Generate Word'}
             </button>
         </div>
       </div>
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { EssayPage } from '../types';
+
+interface Props {
+  pages: EssayPage[];
+  onMovePage?: (pageId: string, delta: number) => void;
+  onSplitPage?: (pageId: string) => void;
+  onEditPage?: (pageId: string) => void;
+}
+
+const PageImage: React.FC<{ page: EssayPage; alt: string; src?: string }> = ({ page, alt, src = page.imagePreview }) => (
+  <div className="aspect-[3/4] w-full bg-slate-100 rounded-xl overflow-hidden border border-slate-200 shadow-inner group/image relative">
+    {src ? (
+      <>
+        <img src={src} alt={alt} className="w-full h-full object-cover transition-transform duration-500 group-hover/image:scale-105" />
+        <div className="absolute inset-0 bg-black/0 hover:bg-black/5 transition-colors cursor-pointer" onClick={() => window.open(src, '_blank')}></div>
+      </>
+    ) : (
+      <div className="w-full h-full flex items-center justify-center text-xs text-slate-400">图片不可用</div>
+    )}
+  </div>
+);
+
+// Source images of an essay: one page at a time on screen, every page in the PDF / print
+const PageGallery: React.FC<Props> = ({ pages, onMovePage, onSplitPage, onEditPage }) => {
+  const [selected, setSelected] = useState(0);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [originalUrl, setOriginalUrl] = useState<string>();
+  const index = Math.min(selected, Math.max(0, pages.length - 1));
+  const current = pages[index];
+  const originalFile = current?.originalFile;
+
+  // The untouched upload only exists for this session, so it is previewed from memory
+  useEffect(() => {
+    if (!originalFile) {
+      setOriginalUrl(undefined);
+      return undefined;
+    }
+    const url = URL.createObjectURL(originalFile);
+    setOriginalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [originalFile]);
+
+  if (!current) return null;
+
+  const multiPage = pages.length > 1;
+  const comparing = showOriginal && Boolean(originalUrl);
+  const buttonClass = 'px-2 py-0.5 text-[11px] border border-slate-200 rounded bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40';
+
+  return (
+    <div>
+      <div className="no-print space-y-2">
+        <PageImage page={current} alt={`Student Work p${index + 1}`} src={comparing ? originalUrl : current.imagePreview} />
+        {current.preprocessSummary && (
+          <p className="text-[11px] text-slate-400 leading-snug" title="上传时的图片预处理">
+            {comparing ? '原图' : `已处理：${current.preprocessSummary}`}
+          </p>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-slate-500">{multiPage ? `第 ${index + 1} / ${pages.length} 页` : ''}</span>
+          <div className="flex items-center gap-1">
+            {originalUrl && (
+              <button
+                type="button"
+                className={buttonClass}
+                onClick={() => setShowOriginal((value) => !value)}
+                title="对比预处理前后的图片"
+              >
+                {comparing ? '看处理后' : '看原图'}
+              </button>
+            )}
+            {onEditPage && (
+              <button type="button" className={buttonClass} onClick={() => onEditPage(current.id)} title="手动旋转/裁剪，重新预处理">
+                调整图片
+              </button>
+            )}
+            {multiPage && onMovePage && (
+              <>
+                <button
+                  type="button"
+                  className={buttonClass}
+                  disabled={index === 0}
+                  onClick={() => {
+                    onMovePage(current.id, -1);
+                    setSelected(index - 1);
+                  }}
+                  title="与上一页交换"
+                >
+                  ← 前移
+                </button>
+                <button
+                  type="button"
+                  className={buttonClass}
+                  disabled={index === pages.length - 1}
+                  onClick={() => {
+                    onMovePage(current.id, 1);
+                    setSelected(index + 1);
+                  }}
+                  title="与下一页交换"
+                >
+                  后移 →
+                </button>
+              </>
+            )}
+            {multiPage && onSplitPage && (
+              <button
+                type="button"
+                className={buttonClass}
+                onClick={() => {
+                  onSplitPage(current.id);
+                  setSelected(Math.max(0, index - 1));
+                }}
+                title="把这一页拆成单独的作文"
+              >
+                拆出
+              </button>
+            )}
+          </div>
+        </div>
+        {multiPage && (
+          <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+            {pages.map((page, i) => (
+              <button
+                key={page.id}
+                type="button"
+                onClick={() => setSelected(i)}
+                className={`relative w-12 h-16 shrink-0 rounded-md overflow-hidden border-2 ${i === index ? 'border-brand-500' : 'border-transparent opacity-70 hover:opacity-100'}`}
+              >
+                {page.imagePreview && <img src={page.imagePreview} alt={`p${i + 1}`} className="w-full h-full object-cover" />}
+                <span className="absolute bottom-0 right-0 px-1 text-[10px] bg-black/50 text-white rounded-tl">{i + 1}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="export-only space-y-3">
+        {pages.map((page, i) => (
+          <PageImage key={page.id} page={page} alt={`Student Work p${i + 1}`} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PageGallery;
@@ -0,0 +1,71 @@
+import React, { useMemo, useState } from 'react';
+import { DiffOp, diffWords, summarizeDiff } from '../services/textDiff';
+
+interface Props {
+  original: string;
+  revised: string;
+}
+
+type ViewMode = 'inline' | 'side';
+
+const renderOps = (ops: DiffOp[], show: DiffOp['type'][]) =>
+  ops
+    .filter((op) => show.includes(op.type))
+    .map((op, idx) => {
+      if (op.type === 'insert') {
+        return <ins key={idx} className="no-underline bg-emerald-100 text-emerald-800 rounded-sm">{op.text}</ins>;
+      }
+      if (op.type === 'delete') {
+        return <del key={idx} className="bg-rose-100 text-rose-700 rounded-sm">{op.text}</del>;
+      }
+      return <React.Fragment key={idx}>{op.text}</React.Fragment>;
+    });
+
+const RevisionDiff: React.FC<Props> = ({ original, revised }) => {
+  const [mode, setMode] = useState<ViewMode>('inline');
+  // Computed locally so it also works for persisted essays
+  const ops = useMemo(() => diffWords(original, revised), [original, revised]);
+  const stats = summarizeDiff(ops);
+
+  const textClass = 'text-base text-slate-700 font-serif leading-relaxed whitespace-pre-wrap';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3 text-xs text-slate-500">
+          <span className="px-1.5 rounded-sm bg-emerald-100 text-emerald-800">+{stats.inserted} 词</span>
+          <span className="px-1.5 rounded-sm bg-rose-100 text-rose-700 line-through">-{stats.deleted} 词</span>
+        </div>
+        <div className="flex rounded-md border border-slate-200 overflow-hidden text-xs no-print">
+          {(['inline', 'side'] as ViewMode[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMode(value)}
+              className={`px-3 py-1 transition-colors ${mode === value ? 'bg-slate-800 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+            >
+              {value === 'inline' ? '行内' : '并排'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'inline' ? (
+        <div className={textClass}>{renderOps(ops, ['equal', 'delete', 'insert'])}</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider mb-2">Original</p>
+            <div className={textClass}>{renderOps(ops, ['equal', 'delete'])}</div>
+          </div>
+          <div>
+            <p className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider mb-2">Revision</p>
+            <div className={textClass}>{renderOps(ops, ['equal', 'insert'])}</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionDiff;
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { EssayData, Student, StudentLevel } from '../types';
+import { createStudent, isPlaceholderName, normalizeName, parseAliases } from '../services/roster';
+import { CheckIcon, PencilSquareIcon, TrashIcon, UsersIcon } from './Icons';
+
+interface Props {
+  roster: Student[];
+  essays: EssayData[];
+  selectedId?: string;
+  onSelect: (id: string) => void;
+  onChange: (roster: Student[]) => void;
+  onLinkEssays: (essayIds: string[], student: Student) => void;
+  onRematch: () => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md bg-white focus:ring-2 focus:ring-brand-500 focus:border-brand-500';
+
+const RosterManager: React.FC<Props> = ({ roster, essays, selectedId, onSelect, onChange, onLinkEssays, onRematch }) => {
+  const [newName, setNewName] = useState('');
+  const [newClass, setNewClass] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ name: '', aliases: '', className: '', level: '' });
+
+  const essayCount = (id: string) => essays.filter((essay) => essay.studentId === id).length;
+
+  // Names read from essays that are not linked to anyone yet, grouped by spelling
+  const unmatchedGroups: Record<string, { name: string; essayIds: string[] }> = {};
+  essays
+    .filter((essay) => !essay.studentId && !isPlaceholderName(essay.studentName))
+    .forEach((essay) => {
+      const key = normalizeName(essay.studentName);
+      if (!unmatchedGroups[key]) unmatchedGroups[key] = { name: (essay.studentName || '').trim(), essayIds: [] };
+      unmatchedGroups[key].essayIds.push(essay.id);
+    });
+  const unmatched = Object.values(unmatchedGroups);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const student = createStudent(newName, { className: newClass.trim() || undefined });
+    onChange([...roster, student]);
+    setNewName('');
+    onSelect(student.id);
+  };
+
+  const startEdit = (student: Student) => {
+    setEditingId(student.id);
+    setDraft({
+      name: student.name,
+      aliases: student.aliases.join(', '),
+      className: student.className || '',
+      level: student.level || ''
+    });
+  };
+
+  const saveEdit = () => {
+    if (!editingId || !draft.name.trim()) return;
+    onChange(
+      roster.map((student) =>
+        student.id === editingId
+          ? {
+              ...student,
+              name: draft.name.trim(),
+              aliases: parseAliases(draft.aliases),
+              className: draft.className.trim() || undefined,
+              level: (draft.level as StudentLevel) || undefined
+            }
+          : student
+      )
+    );
+    setEditingId(null);
+  };
+
+  const handleDelete = (student: Student) => {
+    const count = essayCount(student.id);
+    if (count > 0 && !window.confirm(`删除 ${student.name}？其 ${count} 篇作文将取消关联（作文本身保留）。`)) return;
+    onChange(roster.filter((s) => s.id !== student.id));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2">
+          <UsersIcon /> 学生花名册
+          <span className="text-xs font-normal text-slate-400">{roster.length} 人</span>
+        </h3>
+        <button
+          type="button"
+          onClick={onRematch}
+          disabled={roster.length === 0}
+          className="text-xs text-brand-600 hover:underline disabled:opacity-40 disabled:no-underline"
+          title="按姓名/别名重新匹配未关联的作文"
+        >
+          重新匹配
+        </button>
+      </div>
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input className={inputClass} value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="姓名" />
+        <input className={`${inputClass} w-28`} value={newClass} onChange={(e) => setNewClass(e.target.value)} placeholder="班级" />
+        <button type="submit" className="px-3 text-sm font-medium text-white bg-brand-600 rounded-md hover:bg-brand-700 shrink-0">
+          添加
+        </button>
+      </form>
+
+      <div className="divide-y divide-slate-100 border border-slate-100 rounded-xl overflow-hidden max-h-[420px] overflow-y-auto custom-scrollbar">
+        {roster.length === 0 && <p className="p-4 text-sm text-slate-400 text-center italic">还没有学生，先添加或从下方未关联姓名创建。</p>}
+        {roster.map((student) =>
+          editingId === student.id ? (
+            <div key={student.id} className="p-3 space-y-2 bg-slate-50">
+              <input className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="姓名" />
+              <input
+                className={inputClass}
+                value={draft.aliases}
+                onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                placeholder="别名，用逗号分隔（如 tom, Tom Li）"
+              />
+              <div className="flex gap-2">
+                <input className={inputClass} value={draft.className} onChange={(e) => setDraft({ ...draft, className: e.target.value })} placeholder="班级" />
+                <select className={inputClass} value={draft.level} onChange={(e) => setDraft({ ...draft, level: e.target.value })}>
+                  <option value="">等级（未设置）</option>
+                  {Object.values(StudentLevel).map((lvl) => (
+                    <option key={lvl} value={lvl}>{lvl}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => setEditingId(null)} className="text-xs px-3 py-1 text-slate-500 hover:text-slate-700">取消</button>
+                <button type="button" onClick={saveEdit} className="text-xs px-3 py-1 rounded-md bg-brand-600 text-white flex items-center gap-1">
+                  <CheckIcon /> 保存
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div
+              key={student.id}
+              onClick={() => onSelect(student.id)}
+              className={`p-3 flex items-center gap-3 cursor-pointer transition-colors ${selectedId === student.id ? 'bg-brand-50' : 'hover:bg-slate-50'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-slate-800 truncate">{student.name}</p>
+                <p className="text-xs text-slate-400 truncate">
+                  {[student.className, student.level, student.aliases.length ? `别名：${student.aliases.join(', ')}` : '']
+                    .filter(Boolean)
+                    .join(' · ') || '—'}
+                </p>
+              </div>
+              <span className="text-xs text-slate-400 shrink-0">{essayCount(student.id)} 篇</span>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); startEdit(student); }}
+                className="text-slate-300 hover:text-brand-600"
+                title="编辑"
+              >
+                <PencilSquareIcon />
+              </button>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); handleDelete(student); }}
+                className="text-slate-300 hover:text-rose-500"
+                title="删除"
+              >
+                <TrashIcon />
+              </button>
+            </div>
+          )
+        )}
+      </div>
+
+      {unmatched.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">未关联的姓名</h4>
+          <div className="space-y-2">
+            {unmatched.map((group) => (
+              <div key={group.name} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate text-slate-700">
+                  {group.name} <span className="text-xs text-slate-400">({group.essayIds.length} 篇)</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onLinkEssays(group.essayIds, createStudent(group.name))}
+                  className="text-xs px-2 py-1 rounded-md border border-brand-200 text-brand-600 hover:bg-brand-50"
+                >
+                  新建学生
+                </button>
+                {roster.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const student = roster.find((s) => s.id === e.target.value);
+                      if (student) onLinkEssays(group.essayIds, student);
+                    }}
+                    className="text-xs border border-slate-200 rounded-md px-1 py-1 bg-white max-w-[120px]"
+                  >
+                    <option value="">归入…</option>
+                    {roster.map((student) => (
+                      <option key={student.id} value={student.id}>{student.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RosterManager;
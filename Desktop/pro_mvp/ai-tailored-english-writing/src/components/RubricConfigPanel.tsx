@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { RubricDimension } from '../types';
+import { DEFAULT_RUBRIC, createDimensionId } from '../services/rubric';
+import { ChevronDownIcon, ChevronUpIcon, TrashIcon } from './Icons';
+
+interface Props {
+    rubric: RubricDimension[];
+    onChange: (rubric: RubricDimension[]) => void;
+    disabled?: boolean;
+}
+
+const RubricConfigPanel: React.FC<Props> = ({ rubric, onChange, disabled }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const totalWeight = rubric.reduce((sum, dim) => sum + Math.max(dim.weight, 0), 0);
+    const isDefault = JSON.stringify(rubric) === JSON.stringify(DEFAULT_RUBRIC);
+
+    const handleFieldChange = (index: number, field: 'name' | 'description', value: string) => {
+        const next = [...rubric];
+        next[index] = { ...next[index], [field]: value };
+        onChange(next);
+    };
+
+    const handleNumberChange = (index: number, field: 'maxPoints' | 'weight', value: string) => {
+        const parsed = parseFloat(value);
+        const next = [...rubric];
+        next[index] = { ...next[index], [field]: Number.isFinite(parsed) && parsed >= 0 ? parsed : 0 };
+        onChange(next);
+    };
+
+    const handleAdd = () => {
+        const name = 'Content';
+        onChange([
+            ...rubric,
+            { id: createDimensionId(name, rubric), name, description: '内容是否切题、充实。', maxPoints: 5, weight: 20 }
+        ]);
+    };
+
+    const handleDelete = (index: number) => {
+        onChange(rubric.filter((_, i) => i !== index));
+    };
+
+    const handleReset = () => {
+        onChange(DEFAULT_RUBRIC.map((dim) => ({ ...dim })));
+    };
+
+    return (
+        <div className="space-y-3">
+            <div
+                className="flex justify-between items-center cursor-pointer group"
+                onClick={() => setIsExpanded(!isExpanded)}
+            >
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider group-hover:text-slate-600 transition-colors">
+                    Rubric
+                </h3>
+                <div className="flex items-center gap-2">
+                    <span className="text-xs text-slate-400">{rubric.length} 维度</span>
+                    {!isDefault && (
+                        <span className="text-[10px] px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">
+                            已修改
+                        </span>
+                    )}
+                    <span className="text-slate-400 group-hover:text-slate-600 transition-colors">
+                        {isExpanded ? <ChevronUpIcon /> : <ChevronDownIcon />}
+                    </span>
+                </div>
+            </div>
+
+            {isExpanded && (
+                <div className="space-y-3 animate-fade-in">
+                    <p className="text-xs text-slate-400">
+                        模型按维度分别打分，总分 = Σ(得分/满分 × 权重) / 总权重 × Max Score。
+                    </p>
+
+                    {rubric.map((dim, index) => (
+                        <div key={dim.id} className="p-3 border border-slate-200 rounded-lg bg-slate-50 space-y-2 relative">
+                            <div className="flex items-center gap-2 pr-7">
+                                <input
+                                    disabled={disabled}
+                                    type="text"
+                                    value={dim.name}
+                                    onChange={(e) => handleFieldChange(index, 'name', e.target.value)}
+                                    className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border-slate-200 rounded bg-white focus:ring-2 focus:ring-brand-500 focus:border-brand-500"
+                                    placeholder="维度名称"
+                                />
+                                <span className="text-[10px] text-slate-400 font-mono">{dim.id}</span>
+                            </div>
+                            <textarea
+                                disabled={disabled}
+                                value={dim.description}
+                                onChange={(e) => handleFieldChange(index, 'description', e.target.value)}
+                                rows={2}
+                                className="block w-full px-2 py-1 text-xs border-slate-200 rounded bg-white focus:ring-2 focus:ring-brand-500 focus:border-brand-500 resize-none"
+                                placeholder="评分说明"
+                            />
+                            <div className="grid grid-cols-2 gap-2">
+                                <label className="text-[11px] text-slate-500 flex items-center gap-1">
+                                    满分
+                                    <input
+                                        disabled={disabled}
+                                        type="number"
+                                        min={0}
+                                        step={0.5}
+                                        value={dim.maxPoints}
+                                        onChange={(e) => handleNumberChange(index, 'maxPoints', e.target.value)}
+                                        className="w-full px-2 py-1 text-xs border-slate-200 rounded bg-white"
+                                    />
+                                </label>
+                                <label className="text-[11px] text-slate-500 flex items-center gap-1">
+                                    权重
+                                    <input
+                                        disabled={disabled}
+                                        type="number"
+                                        min={0}
+                                        value={dim.weight}
+                                        onChange={(e) => handleNumberChange(index, 'weight', e.target.value)}
+                                        className="w-full px-2 py-1 text-xs border-slate-200 rounded bg-white"
+                                    />
+                                </label>
+                            </div>
+                            <p className="text-[10px] text-slate-400">
+                                占比 {totalWeight > 0 ? Math.round((Math.max(dim.weight, 0) / totalWeight) * 100) : 0}%
+                            </p>
+                            <button
+                                type="button"
+                                disabled={disabled || rubric.length <= 1}
+                                onClick={() => handleDelete(index)}
+                                className="absolute top-3 right-2 text-slate-300 hover:text-rose-500 disabled:opacity-40"
+                                title="删除维度"
+                            >
+                                <TrashIcon />
+                            </button>
+                        </div>
+                    ))}
+
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            disabled={disabled}
+                            onClick={handleAdd}
+                            className="flex-1 py-2 px-3 text-xs font-medium text-brand-600 bg-brand-50 rounded-lg hover:bg-brand-100 transition-colors disabled:opacity-50"
+                        >
+                            + 添加维度
+                        </button>
+                        <button
+                            type="button"
+                            disabled={disabled || isDefault}
+                            onClick={handleReset}
+                            className="flex-1 py-2 px-3 text-xs font-medium text-slate-500 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            重置为默认
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RubricConfigPanel;
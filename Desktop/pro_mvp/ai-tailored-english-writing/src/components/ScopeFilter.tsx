@@ -0,0 +1,59 @@
+import React from 'react';
+import { Assignment, SchoolClass } from '../types';
+import { AssignmentScope, UNASSIGNED } from '../services/assignments';
+
+interface Props {
+  classes: SchoolClass[];
+  assignments: Assignment[];
+  scope: AssignmentScope;
+  onChange: (scope: AssignmentScope) => void;
+}
+
+const selectClass =
+  'px-2 py-1.5 text-xs border border-slate-200 rounded-lg bg-white text-slate-600 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 transition-all shadow-sm max-w-[160px]';
+
+// Class + assignment filter shared by the results list and the analytics tab
+const ScopeFilter: React.FC<Props> = ({ classes, assignments, scope, onChange }) => {
+  if (classes.length === 0 && assignments.length === 0) return null;
+
+  const assignmentOptions = assignments.filter((assignment) => {
+    if (!scope.classId) return true;
+    if (scope.classId === UNASSIGNED) return !assignment.classId;
+    return assignment.classId === scope.classId;
+  });
+
+  const handleClassChange = (classId: string) => {
+    // Drop an assignment selection that no longer belongs to the chosen class
+    const current = assignments.find((assignment) => assignment.id === scope.assignmentId);
+    const keepAssignment =
+      !current || !classId || (classId === UNASSIGNED ? !current.classId : current.classId === classId);
+    onChange({ classId, assignmentId: keepAssignment ? scope.assignmentId : '' });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {classes.length > 0 && (
+        <select value={scope.classId} onChange={(e) => handleClassChange(e.target.value)} className={selectClass}>
+          <option value="">全部班级</option>
+          {classes.map((item) => (
+            <option key={item.id} value={item.id}>{item.name}</option>
+          ))}
+          <option value={UNASSIGNED}>无班级</option>
+        </select>
+      )}
+      <select
+        value={scope.assignmentId}
+        onChange={(e) => onChange({ ...scope, assignmentId: e.target.value })}
+        className={selectClass}
+      >
+        <option value="">全部作业</option>
+        {assignmentOptions.map((assignment) => (
+          <option key={assignment.id} value={assignment.id}>{assignment.title}</option>
+        ))}
+        <option value={UNASSIGNED}>未归入作业</option>
+      </select>
+    </div>
+  );
+};
+
+export default ScopeFilter;
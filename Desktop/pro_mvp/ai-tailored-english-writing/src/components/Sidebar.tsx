@@ -1,9 +1,17 @@
 import React, { useState } from 'react';
-import { AgentConfig, StudentLevel, ModelSettings, WorkflowMode, GradingPrompts } from '../types';
+import { AgentConfig, StudentLevel, ModelSettings, WorkflowMode, GradingPrompts, RubricDimension, QueueSettings, OcrSettings, ImagePreprocessSettings } from '../types';
 import { PlayIcon, Cog6ToothIcon } from './Icons';
-import { MODEL_OPTIONS, getDefaultModelForProvider, providerLabels } from '../services/modelRegistry';
+import { getDefaultModelForProvider, getModelOptions } from '../services/modelRegistry';
+import { getProviderAdapter } from '../services/providerAdapters';
 import { DEFAULT_GRADING_PROMPTS } from '../services/promptDefaults';
+import { DEFAULT_RUBRIC } from '../services/rubric';
+import { EXAM_PRESETS, applyExamPreset, describeWordCount, getExamPreset } from '../services/examPresets';
+import { DEFAULT_QUEUE_SETTINGS } from '../services/processingQueue';
+import { DEFAULT_OCR_ENGINE, getOcrEngine, listOcrEngines } from '../services/ocrEngines';
+import { resolveLowConfidenceThreshold } from '../services/ocrConfidence';
+import { DEFAULT_PREPROCESS_SETTINGS } from '../services/imagePreprocess';
 import PromptConfigPanel from './PromptConfigPanel';
+import RubricConfigPanel from './RubricConfigPanel';
 
 interface Props {
   config: AgentConfig;
@@ -35,12 +43,25 @@ const Sidebar: React.FC<Props> = ({
   };
 
   const handleScoreChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Preset band descriptors only make sense on the preset's own scale
     setConfig({
       ...config,
-      criteria: { ...config.criteria, maxScore: parseInt(e.target.value) || 20 }
+      examPresetId: undefined,
+      criteria: { ...config.criteria, maxScore: parseInt(e.target.value) || 20, scoreStep: undefined }
     });
   };
 
+  const activePreset = getExamPreset(config.examPresetId);
+
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = getExamPreset(e.target.value);
+    if (preset) {
+      setConfig(applyExamPreset(config, preset));
+    } else {
+      setConfig({ ...config, examPresetId: undefined, criteria: { ...config.criteria, scoreStep: undefined } });
+    }
+  };
+
   const toggleFocusArea = (area: string) => {
     const current = config.criteria.focusAreas;
     const next = current.includes(area)
@@ -80,12 +101,23 @@ const Sidebar: React.FC<Props> = ({
   };
   const startLabel = `开始（${modeLabelMap[workflowMode]}）`;
 
+  const modelOptions = getModelOptions();
+  const activeAdapter = getProviderAdapter(config.model.provider);
+
   const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const provider = e.target.value as ModelSettings["provider"];
     const nextModel = getDefaultModelForProvider(provider);
+    // Keep a previously entered custom endpoint when switching back and forth
+    setConfig({
+      ...config,
+      model: { provider, model: nextModel, baseUrl: config.model.baseUrl, apiKey: config.model.apiKey }
+    });
+  };
+
+  const handleEndpointChange = (field: 'baseUrl' | 'apiKey', value: string) => {
     setConfig({
       ...config,
-      model: { provider, model: nextModel }
+      model: { ...config.model, [field]: value }
     });
   };
 
@@ -103,6 +135,49 @@ const Sidebar: React.FC<Props> = ({
     setConfig({ ...config, prompts });
   };
 
+  // OCR 引擎
+  const ocrEngine = getOcrEngine(config.ocr?.engine);
+  const ocrUnavailable = ocrEngine.unavailableReason(config);
+  const ocrQueueProvider = ocrEngine.queueProvider(config);
+
+  const handleOcrChange = (patch: Partial<OcrSettings>) => {
+    setConfig({ ...config, ocr: { engine: DEFAULT_OCR_ENGINE, ...config.ocr, ...patch } });
+  };
+
+  // 上传图片预处理
+  const preprocessSettings: ImagePreprocessSettings = { ...DEFAULT_PREPROCESS_SETTINGS, ...config.preprocess };
+
+  const handlePreprocessChange = (patch: Partial<ImagePreprocessSettings>) => {
+    setConfig({ ...config, preprocess: { ...preprocessSettings, ...patch } });
+  };
+
+  const preprocessToggles: { key: 'autoCrop' | 'deskew' | 'grayscale'; label: string }[] = [
+    { key: 'autoCrop', label: '自动裁剪纸张' },
+    { key: 'deskew', label: '纠偏' },
+    { key: 'grayscale', label: '灰度' }
+  ];
+
+  // 批处理队列配置
+  const queueSettings: QueueSettings = { ...DEFAULT_QUEUE_SETTINGS, ...config.queue };
+
+  const handleQueueChange = (patch: Partial<QueueSettings>) => {
+    setConfig({ ...config, queue: { ...queueSettings, ...patch } });
+  };
+
+  const handleProviderLimitChange = (provider: string, value: string) => {
+    const parsed = parseInt(value);
+    handleQueueChange({
+      providerLimits: { ...queueSettings.providerLimits, [provider]: Number.isFinite(parsed) && parsed >= 0 ? parsed : 0 }
+    });
+  };
+
+  // 评分维度配置处理
+  const currentRubric: RubricDimension[] = config.rubric || DEFAULT_RUBRIC;
+
+  const handleRubricChange = (rubric: RubricDimension[]) => {
+    setConfig({ ...config, rubric });
+  };
+
   return (
     <div className="w-80 bg-white border-r border-slate-200 flex-shrink-0 h-screen sticky top-0 flex flex-col shadow-[4px_0_24px_rgba(0,0,0,0.02)] z-20">
       {/* Header */}
@@ -129,15 +204,44 @@ const Sidebar: React.FC<Props> = ({
               onChange={handleProviderChange}
               className="block w-full px-3 py-2.5 text-sm border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 transition-all shadow-sm"
             >
-              {MODEL_OPTIONS.map((opt) => (
-                <option key={`${opt.provider}-${opt.model}`} value={opt.provider}>
-                  {providerLabels[opt.provider]}
+              {modelOptions.map((opt) => (
+                <option key={opt.provider} value={opt.provider}>
+                  {getProviderAdapter(opt.provider).label}
                 </option>
               ))}
             </select>
-            <p className="text-[11px] text-slate-400">OpenAI/OpenRouter/Gemini/DeepSeek 需要在环境变量中设置对应 API Key。</p>
+            <p className="text-[11px] text-slate-400">{activeAdapter.hint || '需要在环境变量中设置对应 API Key。'}</p>
           </div>
 
+          {/* Custom Endpoint */}
+          {activeAdapter.configurable && (
+            <div className="space-y-2">
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1.5">Base URL</label>
+                <input
+                  disabled={isProcessing}
+                  type="url"
+                  value={config.model.baseUrl || ''}
+                  onChange={(e) => handleEndpointChange('baseUrl', e.target.value)}
+                  className="block w-full px-3 py-2.5 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+                  placeholder="http://localhost:8000/v1"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1.5">API Key（可选）</label>
+                <input
+                  disabled={isProcessing}
+                  type="password"
+                  autoComplete="off"
+                  value={config.model.apiKey || ''}
+                  onChange={(e) => handleEndpointChange('apiKey', e.target.value)}
+                  className="block w-full px-3 py-2.5 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+                  placeholder="sk-..."
+                />
+              </div>
+            </div>
+          )}
+
           {/* Model Identifier */}
           <div>
             <label className="block text-sm font-medium text-slate-600 mb-1.5">Model ID</label>
@@ -147,10 +251,33 @@ const Sidebar: React.FC<Props> = ({
               value={config.model.model}
               onChange={handleModelChange}
               className="block w-full px-3 py-2.5 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
-              placeholder="e.g., gpt-4o-mini / gemini-1.5-flash / deepseek-chat / openai/gpt-4o-mini"
+              placeholder={activeAdapter.defaultModel ? `e.g., ${activeAdapter.defaultModel}` : 'e.g., llama-3.1-8b-instruct'}
             />
           </div>
 
+          {/* Exam Preset */}
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1.5">Exam Preset</label>
+            <select
+              disabled={isProcessing}
+              value={config.examPresetId || ''}
+              onChange={handlePresetChange}
+              className="block w-full px-3 py-2.5 text-sm border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 transition-all shadow-sm"
+            >
+              <option value="">自定义（不使用预设）</option>
+              {EXAM_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+            {activePreset && (
+              <p className="text-[11px] text-slate-400 mt-1">
+                {activePreset.description || activePreset.name}
+                {describeWordCount(activePreset.wordCount) ? ` · ${describeWordCount(activePreset.wordCount)}` : ''}
+                {` · ${activePreset.bands.length} 档`}
+              </p>
+            )}
+          </div>
+
           {/* Level */}
           <div>
             <label className="block text-sm font-medium text-slate-600 mb-1.5">Student Level</label>
@@ -166,6 +293,21 @@ const Sidebar: React.FC<Props> = ({
             </select>
           </div>
 
+          {/* Model Revision */}
+          <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 bg-slate-50 cursor-pointer">
+            <input
+              disabled={isProcessing}
+              type="checkbox"
+              checked={Boolean(config.generateRevision)}
+              onChange={(e) => setConfig({ ...config, generateRevision: e.target.checked })}
+              className="mt-0.5 w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-600">生成修改范文</span>
+              <span className="block text-[11px] text-slate-400">批改后再调用一次模型，按学生水平改写全文并显示差异</span>
+            </span>
+          </label>
+
           {/* Max Score */}
           <div>
             <label className="block text-sm font-medium text-slate-600 mb-1.5">Max Score</label>
@@ -208,6 +350,194 @@ const Sidebar: React.FC<Props> = ({
               );
             })}
           </div>
+          {workflowMode === 'ai_only' && (
+            <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 bg-slate-50 cursor-pointer">
+              <input
+                disabled={isProcessing}
+                type="checkbox"
+                checked={Boolean(config.gradeVerifiedOnly)}
+                onChange={(e) => setConfig({ ...config, gradeVerifiedOnly: e.target.checked })}
+                className="mt-0.5 w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-slate-600">只批改已核对的OCR文本</span>
+                <span className="block text-[11px] text-slate-400">图片作文需先在“OCR核对”中确认转写；文本提交不受影响</span>
+              </span>
+            </label>
+          )}
+        </div>
+
+        {/* OCR Engine */}
+        <div className="space-y-3">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">OCR Engine</h3>
+          <select
+            disabled={isProcessing}
+            value={ocrEngine.id}
+            onChange={(e) => handleOcrChange({ engine: e.target.value })}
+            className="block w-full px-3 py-2.5 text-sm border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 transition-all shadow-sm"
+          >
+            {listOcrEngines().map((engine) => (
+              <option key={engine.id} value={engine.id}>{engine.label}</option>
+            ))}
+          </select>
+          {ocrEngine.hint && <p className="text-[11px] text-slate-400">{ocrEngine.hint}</p>}
+          {ocrUnavailable && (
+            <p className="text-[11px] text-rose-600 bg-rose-50 border border-rose-100 rounded-md px-2 py-1">当前不可用：{ocrUnavailable}</p>
+          )}
+          {ocrEngine.id === 'tesseract' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">识别语言</label>
+              <input
+                disabled={isProcessing}
+                type="text"
+                value={config.ocr?.tesseractLang || 'eng'}
+                onChange={(e) => handleOcrChange({ tesseractLang: e.target.value })}
+                placeholder="eng"
+                className="block w-full px-3 py-2 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+              />
+              <p className="text-[11px] text-slate-400 mt-1">多语言用 + 连接，如 eng+chi_sim；语言包放在 public/tessdata。</p>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">
+              存疑阈值 {Math.round(resolveLowConfidenceThreshold(config.ocr?.lowConfidenceThreshold) * 100)}%
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={resolveLowConfidenceThreshold(config.ocr?.lowConfidenceThreshold)}
+              onChange={(e) => handleOcrChange({ lowConfidenceThreshold: parseFloat(e.target.value) })}
+              className="w-full accent-brand-600"
+            />
+            <p className="text-[11px] text-slate-400 mt-1">置信度低于此值的词在原文中用虚线标出，批改时不按拼写错误扣分（需引擎提供逐词置信度）。</p>
+          </div>
+        </div>
+
+        {/* Image Preprocessing: applied to new uploads before they are stored or sent to OCR */}
+        <div className="space-y-3">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Image Preprocessing</h3>
+          <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 bg-slate-50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={preprocessSettings.enabled}
+              onChange={(e) => handlePreprocessChange({ enabled: e.target.checked })}
+              className="mt-0.5 w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-600">上传时预处理图片</span>
+              <span className="block text-[11px] text-slate-400">在浏览器内纠偏、裁剪、增强对比度并压缩，OCR 和存储都使用处理后的图片</span>
+            </span>
+          </label>
+          {preprocessSettings.enabled && (
+            <>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {preprocessToggles.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={preprocessSettings[key]}
+                      onChange={(e) => handlePreprocessChange({ [key]: e.target.checked })}
+                      className="w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">对比度增强 {Math.round(preprocessSettings.contrast * 100)}%</label>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={preprocessSettings.contrast}
+                  onChange={(e) => handlePreprocessChange({ contrast: parseFloat(e.target.value) })}
+                  className="w-full accent-brand-600"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">最长边 (px)</label>
+                  <input
+                    type="number"
+                    min={800}
+                    max={6000}
+                    step={100}
+                    value={preprocessSettings.maxDimension}
+                    onChange={(e) => handlePreprocessChange({ maxDimension: Math.max(800, parseInt(e.target.value) || DEFAULT_PREPROCESS_SETTINGS.maxDimension) })}
+                    className="block w-full px-3 py-2 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">JPEG 质量</label>
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={1}
+                    step={0.05}
+                    value={preprocessSettings.quality}
+                    onChange={(e) => handlePreprocessChange({ quality: Math.min(1, Math.max(0.5, parseFloat(e.target.value) || DEFAULT_PREPROCESS_SETTINGS.quality)) })}
+                    className="block w-full px-3 py-2 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+                  />
+                </div>
+              </div>
+              <p className="text-[11px] text-slate-400">每张卡片都可以手动旋转/裁剪；原图只在本次会话中保留用于对比。</p>
+            </>
+          )}
+        </div>
+
+        {/* Processing Queue: editable while a batch runs, applies to jobs not yet started */}
+        <div className="space-y-3">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Queue</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">OCR 并发</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={queueSettings.ocrConcurrency}
+                onChange={(e) => handleQueueChange({ ocrConcurrency: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="block w-full px-3 py-2 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">批改并发</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={queueSettings.gradingConcurrency}
+                onChange={(e) => handleQueueChange({ gradingConcurrency: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="block w-full px-3 py-2 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+              />
+            </div>
+            {ocrQueueProvider !== config.model.provider && (
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">OCR 次/分钟</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={queueSettings.providerLimits?.[ocrQueueProvider] ?? queueSettings.requestsPerMinute}
+                  onChange={(e) => handleProviderLimitChange(ocrQueueProvider, e.target.value)}
+                  className="block w-full px-3 py-2 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">{activeAdapter.label} 次/分钟</label>
+              <input
+                type="number"
+                min={0}
+                value={queueSettings.providerLimits?.[config.model.provider] ?? queueSettings.requestsPerMinute}
+                onChange={(e) => handleProviderLimitChange(config.model.provider, e.target.value)}
+                className="block w-full px-3 py-2 border-slate-200 rounded-lg bg-slate-50 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 text-sm shadow-sm"
+              />
+            </div>
+          </div>
+          <p className="text-[11px] text-slate-400">0 表示不限速；遇到 429 时同一服务商的任务会一起退避后重试。</p>
         </div>
 
         <div className="space-y-4">
@@ -248,7 +578,14 @@ const Sidebar: React.FC<Props> = ({
           </form>
         </div>
 
-        {/* Section 4: Prompt Settings */}
+        {/* Section 4: Rubric */}
+        <RubricConfigPanel
+          rubric={currentRubric}
+          onChange={handleRubricChange}
+          disabled={isProcessing}
+        />
+
+        {/* Section 5: Prompt Settings */}
         <PromptConfigPanel
           prompts={currentPrompts}
           onChange={handlePromptsChange}
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { DownloadIcon, ExclamationCircleIcon, RefreshIcon, TrashIcon } from './Icons';
+import { StorageLoadError } from '../services/persistence';
+
+interface Props {
+  error: StorageLoadError;
+  onDownloadRaw: () => void;
+  onClear: () => Promise<void>;
+}
+
+// Shown instead of the app when saved essays cannot be read, so nothing overwrites them
+const StorageErrorScreen: React.FC<Props> = ({ error, onDownloadRaw, onClear }) => {
+  const [downloaded, setDownloaded] = useState(false);
+  const [clearing, setClearing] = useState(false);
+
+  const handleDownload = () => {
+    onDownloadRaw();
+    setDownloaded(true);
+  };
+
+  const handleClear = async () => {
+    const warning = downloaded
+      ? '确定删除本机保存的所有作文和图片？此操作无法撤销。'
+      : '还没有下载原始备份。确定删除本机保存的所有作文和图片？此操作无法撤销。';
+    if (!window.confirm(warning)) return;
+    setClearing(true);
+    try {
+      await onClear();
+      window.location.reload();
+    } catch (err) {
+      console.error('Could not clear saved essays', err);
+      alert('删除失败，请在浏览器设置中清除本站数据。');
+      setClearing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4 font-sans text-slate-900">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-3">
+          <div className="bg-rose-100 text-rose-600 p-2 rounded-lg">
+            <ExclamationCircleIcon />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">无法读取已保存的作文</h3>
+            <p className="text-xs text-slate-500">EssayFlow AI could not load your saved data</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm text-slate-600">
+          <p className="p-3 rounded-lg border border-rose-200 bg-rose-50 text-rose-700">{error.message}</p>
+          <p>
+            为避免覆盖这些数据，应用暂停在此页面。请先下载原始备份（JSON 文件，不含图片），然后刷新重试；
+            如果问题仍然存在，可以把备份文件交给技术支持，或清空本机保存的作文后重新开始。
+          </p>
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 border-t border-slate-100 flex flex-wrap justify-end gap-3">
+          <button
+            onClick={handleClear}
+            disabled={clearing}
+            className="mr-auto px-4 py-2 text-sm font-medium text-rose-600 bg-white border border-rose-200 rounded-lg hover:bg-rose-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <TrashIcon /> 清空并重新开始
+          </button>
+          <button
+            onClick={() => window.location.reload()}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors flex items-center gap-2"
+          >
+            <RefreshIcon /> 刷新
+          </button>
+          <button
+            onClick={handleDownload}
+            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 shadow-sm shadow-brand-200 transition-colors flex items-center gap-2"
+          >
+            <DownloadIcon /> 下载原始备份
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageErrorScreen;
@@ -0,0 +1,165 @@
+import React, { useMemo } from 'react';
+import { EssayData, GradingSchema, Student } from '../types';
+import { normalizeName } from '../services/roster';
+import { resolveMaxScore } from '../services/rubric';
+
+interface Props {
+  student: Student;
+  essays: EssayData[];
+  onOpenEssay?: (id: string) => void;
+}
+
+const TrendChart: React.FC<{ points: number[] }> = ({ points }) => {
+  if (points.length < 2) {
+    return <p className="text-sm text-slate-400 italic">至少需要两篇已批改作文才能显示趋势。</p>;
+  }
+  const width = 100;
+  const height = 40;
+  const step = width / (points.length - 1);
+  const coords = points.map((value, i) => `${(i * step).toFixed(2)},${(height - (value / 100) * height).toFixed(2)}`);
+  return (
+    <svg viewBox={`0 -2 ${width} ${height + 4}`} preserveAspectRatio="none" className="w-full h-32">
+      {[25, 50, 75].map((line) => (
+        <line key={line} x1={0} x2={width} y1={height - (line / 100) * height} y2={height - (line / 100) * height} stroke="#e2e8f0" strokeWidth={0.3} />
+      ))}
+      <polyline points={coords.join(' ')} fill="none" stroke="#0ea5e9" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      {coords.map((coord, i) => {
+        const [x, y] = coord.split(',');
+        return <circle key={i} cx={x} cy={y} r={1.2} fill="#0284c7" />;
+      })}
+    </svg>
+  );
+};
+
+const StudentProfile: React.FC<Props> = ({ student, essays, onOpenEssay }) => {
+  const studentEssays = useMemo(
+    () =>
+      essays
+        .filter((essay) => essay.studentId === student.id)
+        .sort((a, b) => (a.addedAt || '').localeCompare(b.addedAt || '')),
+    [essays, student.id]
+  );
+  const graded = useMemo(() => studentEssays.filter((essay) => essay.gradingResult), [studentEssays]);
+  const percents = graded.map((essay) => {
+    const result = essay.gradingResult as GradingSchema;
+    return Math.round((result.score / resolveMaxScore(result)) * 100);
+  });
+  const average = percents.length ? Math.round(percents.reduce((a, b) => a + b, 0) / percents.length) : undefined;
+  const delta = percents.length >= 2 ? percents[percents.length - 1] - percents[0] : undefined;
+
+  // Recurring error types and repeated mistakes across all essays (rejected corrections excluded)
+  const { errorTypes, repeated } = useMemo(() => {
+    const types: Record<string, number> = {};
+    const mistakes: Record<string, { original: string; correction: string; essays: Set<string> }> = {};
+    graded.forEach((essay) => {
+      essay.gradingResult?.grammar_issues.forEach((issue) => {
+        if (issue.review === 'rejected') return;
+        const type = issue.type || 'Grammar';
+        types[type] = (types[type] || 0) + 1;
+        const key = normalizeName(issue.original);
+        if (!key) return;
+        if (!mistakes[key]) mistakes[key] = { original: issue.original, correction: issue.correction, essays: new Set() };
+        mistakes[key].essays.add(essay.id);
+      });
+    });
+    return {
+      errorTypes: Object.entries(types).sort((a, b) => b[1] - a[1]),
+      repeated: Object.values(mistakes)
+        .filter((m) => m.essays.size >= 2)
+        .sort((a, b) => b.essays.size - a.essays.size)
+        .slice(0, 8)
+    };
+  }, [graded]);
+
+  const maxTypeCount = errorTypes[0]?.[1] || 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6">
+        <h3 className="text-2xl font-bold text-slate-900">{student.name}</h3>
+        <p className="text-sm text-slate-500 mt-1">
+          {[student.className, student.level].filter(Boolean).join(' · ') || '未设置班级/等级'}
+          {student.aliases.length > 0 && <span className="ml-2 text-slate-400">别名：{student.aliases.join(', ')}</span>}
+        </p>
+        <div className="grid grid-cols-3 gap-4 mt-5">
+          <div>
+            <p className="text-xs text-slate-400">作文数</p>
+            <p className="text-2xl font-bold text-slate-800">{studentEssays.length}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">平均得分率</p>
+            <p className="text-2xl font-bold text-sky-600">{average !== undefined ? `${average}%` : '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">首篇 → 最近</p>
+            <p className={`text-2xl font-bold ${delta === undefined ? 'text-slate-400' : delta >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+              {delta === undefined ? '—' : `${delta >= 0 ? '+' : ''}${delta}%`}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6">
+          <h4 className="font-bold text-slate-800 mb-4">得分趋势（得分率 %）</h4>
+          <TrendChart points={percents} />
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6">
+          <h4 className="font-bold text-slate-800 mb-4">常见错误类型</h4>
+          <div className="space-y-3">
+            {errorTypes.length === 0 && <p className="text-sm text-slate-400 italic">暂无纠错记录。</p>}
+            {errorTypes.slice(0, 6).map(([type, count]) => (
+              <div key={type}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium text-slate-700">{type}</span>
+                  <span className="text-slate-500">{count}</span>
+                </div>
+                <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                  <div className="bg-rose-400 h-2 rounded-full" style={{ width: `${(count / maxTypeCount) * 100}%` }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+          {repeated.length > 0 && (
+            <div className="mt-5">
+              <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">反复出现的错误</p>
+              <ul className="space-y-1 text-sm">
+                {repeated.map((mistake) => (
+                  <li key={mistake.original} className="flex items-center gap-2">
+                    <span className="text-rose-500 line-through">{mistake.original}</span>
+                    <span className="text-slate-300">→</span>
+                    <span className="text-emerald-700">{mistake.correction}</span>
+                    <span className="ml-auto text-xs text-slate-400">{mistake.essays.size} 篇</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+        <h4 className="font-bold text-slate-800 px-6 pt-5 pb-3">全部作文</h4>
+        {studentEssays.length === 0 && <p className="px-6 pb-5 text-sm text-slate-400 italic">还没有关联的作文。</p>}
+        <div className="divide-y divide-slate-100">
+          {studentEssays.map((essay) => (
+            <div
+              key={essay.id}
+              onClick={() => onOpenEssay?.(essay.id)}
+              className={`px-6 py-3 flex items-center gap-4 text-sm ${onOpenEssay ? 'cursor-pointer hover:bg-slate-50' : ''}`}
+            >
+              <span className="text-slate-400 w-24 shrink-0">{essay.date || essay.addedAt?.slice(0, 10)}</span>
+              <span className="flex-1 truncate text-slate-700">{essay.topic || essay.sourceFileName || 'General Submission'}</span>
+              <span className="font-semibold text-sky-700">
+                {essay.gradingResult ? `${essay.gradingResult.score} / ${resolveMaxScore(essay.gradingResult)}` : '未批改'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudentProfile;
@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface Props {
+  message: string | null;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+}
+
+// Short notice at the bottom of the screen, with one optional action (e.g. undo)
+const Toast: React.FC<Props> = ({ message, actionLabel, onAction, onDismiss }) => {
+  if (!message) return null;
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 no-print">
+      <div className="animate-fade-in flex items-center gap-4 bg-slate-800 text-white text-sm rounded-xl shadow-2xl px-4 py-3">
+        <span>{message}</span>
+        {actionLabel && onAction && (
+          <button onClick={onAction} className="font-bold text-brand-200 hover:text-white transition-colors">
+            {actionLabel}
+          </button>
+        )}
+        <button onClick={onDismiss} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+      </div>
+    </div>
+  );
+};
+
+export default Toast;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { TrashIcon } from './Icons';
+import { EssayData } from '../types';
+import { TRASH_RETENTION_OPTIONS, trashExpiresAt } from '../services/editHistory';
+
+interface Props {
+  isOpen: boolean;
+  trash: EssayData[]; // Most recently deleted first
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (id: string) => void;
+  onDeleteForever: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const daysLeft = (essay: EssayData, retentionDays: number) =>
+  Math.max(0, Math.ceil((trashExpiresAt(essay, retentionDays).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+const TrashBinModal: React.FC<Props> = ({ isOpen, trash, retentionDays, onRetentionChange, onRestore, onDeleteForever, onClose }) => {
+  if (!isOpen) return null;
+
+  const handleDeleteForever = (ids: string[]) => {
+    const message = ids.length === 1 ? '永久删除这篇作文及其图片？此操作无法撤销。' : `永久删除回收站中的 ${ids.length} 篇作文及其图片？此操作无法撤销。`;
+    if (window.confirm(message)) onDeleteForever(ids);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm transition-opacity">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-3 flex-shrink-0">
+          <div className="bg-brand-100 text-brand-600 p-2 rounded-lg">
+            <TrashIcon />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">回收站</h3>
+            <p className="text-xs text-slate-500">Deleted essays can be restored until they expire</p>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-8">
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">1. 保留时间</h4>
+            <div className="flex gap-4">
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <label key={days} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="trashRetention"
+                    checked={retentionDays === days}
+                    onChange={() => onRetentionChange(days)}
+                    className="text-brand-600 focus:ring-brand-500"
+                  />
+                  <span className="text-sm text-slate-700">{days} 天</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">超过保留时间的作文会在打开应用时永久删除</p>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">2. 已删除的作文（{trash.length}）</h4>
+            {trash.length === 0 && <p className="text-sm text-slate-400">回收站是空的。</p>}
+            <div className="space-y-2">
+              {trash.map((essay) => (
+                <div key={essay.id} className="flex items-center gap-3 p-2.5 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-700 truncate">
+                      {essay.studentName || 'Unknown Student'}
+                      {essay.gradingResult && <span className="ml-2 text-xs text-sky-600">{essay.gradingResult.score} 分</span>}
+                    </p>
+                    <p className="text-xs text-slate-500 truncate">
+                      {essay.topic || essay.sourceFileName || 'General Submission'} · 删除于 {new Date(essay.deletedAt!).toLocaleString()} · 剩 {daysLeft(essay, retentionDays)} 天
+                    </p>
+                  </div>
+                  <button onClick={() => onRestore(essay.id)} className="text-xs font-medium text-brand-600 hover:text-brand-700">
+                    恢复
+                  </button>
+                  <button onClick={() => handleDeleteForever([essay.id])} className="text-xs font-medium text-rose-500 hover:text-rose-600">
+                    永久删除
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 border-t border-slate-100 flex justify-end gap-3 flex-shrink-0">
+          <button
+            onClick={() => handleDeleteForever(trash.map((essay) => essay.id))}
+            disabled={trash.length === 0}
+            className="mr-auto px-4 py-2 text-sm font-medium text-rose-600 bg-white border border-rose-200 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            清空回收站
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 shadow-sm shadow-brand-200 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashBinModal;
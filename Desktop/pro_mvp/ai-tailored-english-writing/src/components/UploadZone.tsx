@@ -70,6 +70,9 @@ const UploadZone: React.FC<Props> = ({ onUploadFiles, onSubmitText, onUploadMark
                 <h3 className="text-lg font-semibold text-slate-800 mb-2">Upload Student Essays</h3>
                 <p className="text-sm text-slate-500 mb-6 max-w-md mx-auto">
                     Batch upload images of handwritten or printed essays.
+                    <span className="block text-xs text-slate-400 mt-1">
+                        多页作文：命名为 name_p1.jpg、name_p2.jpg 自动合并，或上传后把一张卡片拖到另一张上。
+                    </span>
                 </p>
                 
                 <div className="flex justify-center gap-4">
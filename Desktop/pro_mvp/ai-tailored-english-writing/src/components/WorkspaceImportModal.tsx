@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowUpTrayIcon } from './Icons';
+import { findWorkspaceCollisions, ImportedWorkspace, WorkspaceData, WorkspaceImportMode } from '../services/workspaceArchive';
+
+interface Props {
+  archive: ImportedWorkspace | null;
+  current: WorkspaceData;
+  onClose: () => void;
+  onConfirm: (mode: WorkspaceImportMode) => void;
+}
+
+const WorkspaceImportModal: React.FC<Props> = ({ archive, current, onClose, onConfirm }) => {
+  const [mode, setMode] = useState<WorkspaceImportMode>('keep-local');
+
+  const currentEmpty = current.essays.length + current.roster.length + current.classes.length + current.assignments.length === 0;
+
+  useEffect(() => {
+    if (archive) setMode(currentEmpty ? 'replace' : 'keep-local');
+  }, [archive]);
+
+  if (!archive) return null;
+
+  const { counts, exportedAt } = archive.manifest;
+  const collisions = findWorkspaceCollisions(current, archive);
+  const collisionCount = collisions.essays + collisions.students + collisions.classes + collisions.assignments;
+  const collisionText = [
+    collisions.essays && `${collisions.essays} 篇作文`,
+    collisions.students && `${collisions.students} 名学生`,
+    collisions.classes && `${collisions.classes} 个班级`,
+    collisions.assignments && `${collisions.assignments} 个作业`
+  ].filter(Boolean).join('、');
+
+  const modeOptions: { value: WorkspaceImportMode; label: string; hint: string; hidden?: boolean }[] = [
+    {
+      value: 'keep-local',
+      label: collisionCount > 0 ? '合并，冲突项保留本机的' : '合并到当前工作区',
+      hint: '导入备份中的新记录，本机的设置不变'
+    },
+    {
+      value: 'use-incoming',
+      label: '合并，冲突项使用备份中的',
+      hint: '本机同一记录的批改和修改会被备份覆盖',
+      hidden: collisionCount === 0
+    },
+    {
+      value: 'replace',
+      label: '替换整个工作区',
+      hint: '删除本机所有作文、花名册、班级和作业，使用备份中的数据和设置（API Key 保留本机的）'
+    }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm transition-opacity">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in flex flex-col max-h-[90vh]">
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-3 flex-shrink-0">
+          <div className="bg-brand-100 text-brand-600 p-2 rounded-lg">
+            <ArrowUpTrayIcon />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">导入工作区</h3>
+            <p className="text-xs text-slate-500">备份时间 {new Date(exportedAt).toLocaleString()}</p>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-6">
+          <p className="text-sm text-slate-600">
+            备份包含 {counts.essays} 篇作文、{counts.images} 张图片、{counts.students} 名学生、{counts.classes} 个班级、{counts.assignments} 个作业，以及批改设置和提示词。
+          </p>
+
+          {collisionCount > 0 && (
+            <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+              其中 {collisionText} 与本机已有的记录相同（id 冲突）。
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {modeOptions.filter((option) => !option.hidden).map(({ value, label, hint }) => (
+              <label key={value} className="flex items-start gap-3 p-2.5 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer transition-colors">
+                <input
+                  type="radio"
+                  name="workspaceImportMode"
+                  checked={mode === value}
+                  onChange={() => setMode(value)}
+                  className="mt-0.5 text-brand-600 focus:ring-brand-500"
+                />
+                <div>
+                  <span className={`text-sm font-medium ${value === 'replace' && !currentEmpty ? 'text-rose-600' : 'text-slate-700'}`}>{label}</span>
+                  <p className="text-xs text-slate-500 mt-0.5">{hint}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 border-t border-slate-100 flex justify-end gap-3 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mode)}
+            className="px-4 py-2 text-sm font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 shadow-sm shadow-brand-200 transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceImportModal;
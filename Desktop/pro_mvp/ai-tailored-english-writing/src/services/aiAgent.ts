@@ -1,25 +1,14 @@
 
-import { AgentConfig, EssayData, ProcessingStatus, StudentLevel } from "../types";
-import {
-  APP_NAME,
-  APP_URL,
-  DEEPSEEK_API_KEY,
-  DEEPSEEK_BASE_URL,
-  GEMINI_API_KEY,
-  GEMINI_BASE_URL,
-  OPENAI_API_KEY,
-  OPENAI_BASE_URL,
-  OPENROUTER_API_KEY,
-  OPENROUTER_BASE_URL
-} from "./config";
-import { transcribeHandwriting } from "./handwritingOcr";
+import { AgentConfig, EssayData, ExamPreset, OcrWord, ProcessingStatus, Student, StudentLevel } from "../types";
+import { describeWordCount, findScoreBand, getExamPreset } from "./examPresets";
+import { AgentOutput, extractJsonPayload, formatValidationErrors, validateAgentOutput } from "./gradingValidation";
+import { anchorIssues } from "./issueAnchoring";
+import { listUncertainWords, parseMarkedTranscript } from "./ocrConfidence";
 import { DEFAULT_GRADING_PROMPTS } from "./promptDefaults";
-
-type PromptBundle = {
-  systemPrompt: string;
-  userPrompt: string;
-  image?: { base64: string; mimeType: string };
-};
+import { getProviderAdapter, PromptBundle } from "./providerAdapters";
+import { createRateLimitError, isRateLimitError, parseRetryAfter } from "./processingQueue";
+import { applyRosterMatch } from "./roster";
+import { DEFAULT_RUBRIC } from "./rubric";
 
 const LEVEL_GUIDANCE: Record<StudentLevel, string> = {
   [StudentLevel.ELEMENTARY]:
@@ -49,27 +38,48 @@ const fileToBase64 = (file: File): Promise<{ base64: string; mimeType: string }>
   });
 };
 
+const getActiveRubric = (config: AgentConfig) =>
+  config.rubric && config.rubric.length > 0 ? config.rubric : DEFAULT_RUBRIC;
+
+const buildExamSection = (preset: ExamPreset) => {
+  const wordCount = describeWordCount(preset.wordCount);
+  const bandLines = preset.bands.map((band) => `- ${band.label} (≥ ${band.minScore}): ${band.descriptor}`).join("\n");
+  return [
+    `考试标准（Exam Preset）: ${preset.name}`,
+    preset.taskType ? `Task type: ${preset.taskType}` : "",
+    wordCount ? `字数要求: ${wordCount}；字数明显不足或超出时按考试规则扣分，并在 improvements 中指出。` : "",
+    bandLines ? `档次描述（先定档，再在档内给分）:\n${bandLines}` : ""
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
 const buildPromptBundle = async (
   essay: EssayData,
   config: AgentConfig,
   providedText?: string
 ): Promise<PromptBundle> => {
   const focusAreas = config.criteria.focusAreas.length > 0 ? config.criteria.focusAreas.join(", ") : "Grammar, Vocabulary";
-  const levelGuidance = LEVEL_GUIDANCE[config.level] || LEVEL_GUIDANCE[StudentLevel.MIDDLE];
+  const preset = getExamPreset(config.examPresetId);
+  const levelGuidance = preset?.levelGuidance || LEVEL_GUIDANCE[config.level] || LEVEL_GUIDANCE[StudentLevel.MIDDLE];
+  const examSection = preset ? `\n${buildExamSection(preset)}\n` : "";
 
   // 使用自定义提示词或默认提示词
   const prompts = config.prompts || DEFAULT_GRADING_PROMPTS;
+  const rubric = getActiveRubric(config);
+  const rubricLines = rubric
+    .map((dim) => `- ${dim.name} [id: ${dim.id}; 0-${dim.maxPoints} 分; 权重 ${dim.weight}]: ${dim.description}`)
+    .join("\n");
+  const dimensionSchema = rubric.map((dim) => `"${dim.id}": number`).join(", ");
 
   const systemPrompt = `
 You are an expert English Teacher and AI Assistant. If OCR text is provided, use it directly and do not redo OCR. If only an image is provided, perform OCR first, then grade the essay.
 Adapt grading strictness, vocabulary expectations, and suggestions to the student's level: ${levelGuidance}
 Use the rubric below; keep feedback concise and actionable.
-
-评分维度-具体描述+示例:
-- Grammar: 正确时态/主谓一致/冠词，指出错误并给出替换。例如 “She go to school” -> “She goes to school.” 解释用中文。
-- Vocabulary: 词汇多样性与准确性，给出同义词或短语替换。例如 “good” -> “remarkable / impressive”。
-- Structure/Coherence: 段落与衔接词使用，指出缺少过渡句并提供示例句。
-- Spelling/Punctuation: 标注错误词并给出正确拼写或标点用法。
+${examSection}
+评分维度-具体描述+示例（每个维度单独打分，填入 dimension_scores，分值不超过该维度满分）:
+${rubricLines}
+- score 为总分（满分见 Max Score），系统会根据 dimension_scores 按权重重新计算。
 - Focus Areas (教师自定义): 优先覆盖 ${focusAreas}，若无匹配则按以上通用维度评价。
 
 自定义评价要求（Custom Grading Requirements）:
@@ -84,6 +94,7 @@ Return a single JSON object with the following keys:
   "ocrText": string,
   "gradingResult": {
     "score": number,
+    "dimension_scores": { ${dimensionSchema} },
     "summary_cn": string,
     "strengths": string[],
     "improvements": string[],
@@ -98,12 +109,18 @@ All feedback in "summary_cn" and each "explanation" must be in Chinese. Do not i
   const sharedContext = `
 Student Level: ${config.level}
 Focus Areas: ${focusAreas}
-Max Score: ${config.criteria.maxScore}
+Max Score: ${config.criteria.maxScore}${preset ? `\nExam: ${preset.name}` : ""}
 `.trim();
 
   const baseText = (providedText || essay.rawText || "").trim();
 
   if (baseText) {
+    // Low-confidence OCR tokens may be misreads, not the student's spelling
+    const uncertainWords = listUncertainWords(essay, baseText, config.ocr?.lowConfidenceThreshold);
+    const uncertainSection = uncertainWords.length
+      ? `\nOCR uncertain words (the OCR engine had low confidence, so these may be misreads rather than the student's mistakes): ${uncertainWords.map((word) => JSON.stringify(word)).join(", ")}
+Do not report these as Spelling issues or deduct points for them unless the surrounding text shows the student's own error. Keep them unchanged in "ocrText".\n`
+      : "";
     const userPrompt = `
 ${sharedContext}
 Student Name (provided): ${essay.studentName || "Unknown"}
@@ -113,13 +130,15 @@ Essay Text (already transcribed or typed):
 """
 ${baseText}
 """
-
+${uncertainSection}
 Use the provided essay text directly as "ocrText" (no OCR needed), infer student name and date from the header when possible, then grade it and return the JSON described in the system prompt.
 `.trim();
     return { systemPrompt, userPrompt };
   }
 
   if (!essay.file) throw new Error("No file provided for image submission");
+  // Only one image fits the grading request; the pages must be transcribed first
+  if ((essay.pages?.length || 0) > 1) throw new Error("多页作文需要先完成OCR再批改");
   const fileData = await fileToBase64(essay.file);
   const userPrompt = `
 ${sharedContext}
@@ -132,227 +151,203 @@ An image of the handwritten essay is attached. Perform OCR to transcribe the ess
   return { systemPrompt, userPrompt, image: fileData };
 };
 
-const buildMessages = (bundle: PromptBundle) => {
-  const userContent: any[] = [{ type: "text", text: bundle.userPrompt }];
-  if (bundle.image) {
-    userContent.push({
-      type: "image_url",
-      image_url: { url: `data:${bundle.image.mimeType};base64,${bundle.image.base64}` }
-    });
+const routeModel = async (bundle: PromptBundle, config: AgentConfig, signal?: AbortSignal) => {
+  const adapter = getProviderAdapter(config.model.provider);
+  if (signal?.aborted) throw new Error("Processing cancelled");
+  if (bundle.image && !adapter.capabilities.vision) {
+    throw new Error(`${adapter.label} 不支持图片输入，请先完成OCR后再批改`);
   }
-  return [
-    { role: "system", content: bundle.systemPrompt },
-    { role: "user", content: userContent }
-  ];
-};
 
-const runOpenAIStyleModel = async (params: {
-  bundle: PromptBundle;
-  modelId: string;
-  apiKey?: string;
-  baseUrl: string;
-  providerName: string;
-  extraHeaders?: Record<string, string>;
-  signal?: AbortSignal;
-}) => {
-  const { bundle, modelId, apiKey, baseUrl, providerName, extraHeaders = {}, signal } = params;
-  if (!apiKey) throw new Error(`${providerName} API key is missing`);
-  if (signal?.aborted) throw new Error("Processing cancelled");
+  const endpoint = adapter.resolveEndpoint(config.model);
+  if (!endpoint.baseUrl) throw new Error(`${adapter.label} base URL is missing`);
+  if (adapter.requiresApiKey && !endpoint.apiKey) throw new Error(`${adapter.label} API key is missing`);
 
-  const response = await fetch(`${baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      ...extraHeaders
-    },
-    signal,
-    body: JSON.stringify({
-      model: modelId || "gpt-4o-mini",
-      messages: buildMessages(bundle),
-      temperature: 0.4,
-      response_format: { type: "json_object" }
-    })
+  const { url, init } = adapter.buildRequest({
+    bundle,
+    modelId: config.model.model || adapter.defaultModel,
+    ...endpoint
   });
+  const response = await fetch(url, { ...init, signal });
 
-  const data = await response.json();
+  let data: any = {};
+  try {
+    data = await response.json();
+  } catch (err) {
+    data = {};
+  }
   if (!response.ok) {
     const detail = data?.error?.message || data?.message;
-    throw new Error(detail || `${providerName} request failed`);
+    const message = detail || `${adapter.label} request failed (${response.status})`;
+    if (response.status === 429) {
+      throw createRateLimitError(message, parseRetryAfter(response.headers?.get("retry-after")));
+    }
+    throw new Error(message);
   }
 
-  const content = data?.choices?.[0]?.message?.content;
-  if (!content) throw new Error(`No response from ${providerName}`);
-  if (typeof content === "string") return content;
+  return adapter.parseResponse(data);
+};
 
-  if (Array.isArray(content)) {
-    const textPart = content.find((part: any) => part.type === "text")?.text;
-    if (textPart) return textPart;
-  }
+// Follow-up prompt asking the same model to fix an output that failed validation.
+// The image is dropped: the previous reply already carries the transcription.
+const buildRepairBundle = (bundle: PromptBundle, previousOutput: string, errors: string[]): PromptBundle => ({
+  systemPrompt: bundle.systemPrompt,
+  userPrompt: `
+${bundle.userPrompt}
 
-  throw new Error(`${providerName} returned unsupported content format`);
-};
+Your previous response could not be used because it failed validation:
+${errors.map((reason) => `- ${reason}`).join("\n")}
 
-const runGeminiModel = async (params: {
-  bundle: PromptBundle;
-  modelId: string;
-  apiKey?: string;
-  baseUrl: string;
-  providerName: string;
-  signal?: AbortSignal;
-}) => {
-  const { bundle, modelId, apiKey, baseUrl, providerName, signal } = params;
-  if (!apiKey) throw new Error(`${providerName} API key is missing`);
-  if (signal?.aborted) throw new Error("Processing cancelled");
+Previous response:
+"""
+${previousOutput.slice(0, 12000)}
+"""
+
+Return the corrected JSON object only, following the schema in the system prompt exactly. Keep the existing content where it is valid.
+`.trim()
+});
 
-  const parts: any[] = [{ text: bundle.userPrompt }];
-  if (bundle.image) {
-    parts.push({ inline_data: { mime_type: bundle.image.mimeType, data: bundle.image.base64 } });
+const requestValidatedOutput = async (
+  bundle: PromptBundle,
+  config: AgentConfig,
+  onRepair: () => void,
+  signal?: AbortSignal
+): Promise<AgentOutput> => {
+  const firstText = await routeModel(bundle, config, signal);
+  const first = validateAgentOutput(firstText, config.criteria, getActiveRubric(config));
+  if (first.value) {
+    if (first.warnings.length) console.warn("Grading output coerced:", first.warnings);
+    return first.value;
   }
 
-  const response = await fetch(
-    `${baseUrl.replace(/\/$/, "")}/models/${modelId}:generateContent?key=${apiKey}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      signal,
-      body: JSON.stringify({
-        system_instruction: { parts: [{ text: bundle.systemPrompt }] },
-        contents: [{ parts }],
-        generationConfig: {
-          temperature: 0.4,
-          response_mime_type: "application/json"
-        }
-      })
-    }
-  );
+  console.warn("Grading output failed validation, requesting repair:", first.errors);
+  if (signal?.aborted) throw new Error("Processing cancelled");
+  onRepair();
 
-  const data = await response.json();
-  if (!response.ok) {
-    const detail = data?.error?.message || data?.message;
-    throw new Error(detail || `${providerName} request failed`);
+  const repairedText = await routeModel(buildRepairBundle(bundle, firstText, first.errors), config, signal);
+  const repaired = validateAgentOutput(repairedText, config.criteria, getActiveRubric(config));
+  if (repaired.value) {
+    if (repaired.warnings.length) console.warn("Repaired grading output coerced:", repaired.warnings);
+    return repaired.value;
   }
 
-  const candidateParts = data?.candidates?.[0]?.content?.parts;
-  if (Array.isArray(candidateParts)) {
-    const textPart = candidateParts.find((part: any) => part.text)?.text;
-    if (typeof textPart === "string") return textPart;
-  }
+  throw new Error(formatValidationErrors(repaired.errors));
+};
 
-  throw new Error(`${providerName} returned unsupported content format`);
+// Second pass: rewrite the whole essay at the student's level, keeping their ideas and structure
+const buildRevisionBundle = (text: string, config: AgentConfig): PromptBundle => {
+  const preset = getExamPreset(config.examPresetId);
+  const levelGuidance = preset?.levelGuidance || LEVEL_GUIDANCE[config.level] || LEVEL_GUIDANCE[StudentLevel.MIDDLE];
+  return {
+    systemPrompt: `
+You are an expert English teacher writing a model revision of a student's essay.
+Target level: ${levelGuidance}
+Fix grammar, spelling, punctuation and word choice, and smooth transitions, but keep the student's ideas, paragraph order and overall length. Do not add new arguments or vocabulary far above the target level. Keep the original paragraph breaks.
+Return a single JSON object: {"revised_essay": string}. Do not include any text outside of the JSON.
+`.trim(),
+    userPrompt: `
+Student Level: ${config.level}${preset ? `\nExam: ${preset.name}` : ""}
+
+Student essay:
+"""
+${text}
+"""
+`.trim()
+  };
 };
 
-const routeModel = async (bundle: PromptBundle, config: AgentConfig, signal?: AbortSignal) => {
-  const { provider, model } = config.model;
-  if (signal?.aborted) throw new Error("Processing cancelled");
-  switch (provider) {
-    case "openai":
-      return runOpenAIStyleModel({
-        bundle,
-        modelId: model,
-        apiKey: OPENAI_API_KEY,
-        baseUrl: OPENAI_BASE_URL,
-        providerName: "OpenAI",
-        signal
-      });
-    case "gemini":
-      return runGeminiModel({
-        bundle,
-        modelId: model || "gemini-1.5-flash",
-        apiKey: GEMINI_API_KEY,
-        baseUrl: GEMINI_BASE_URL,
-        providerName: "Gemini",
-        signal
-      });
-    case "deepseek":
-      return runOpenAIStyleModel({
-        bundle,
-        modelId: model || "deepseek-chat",
-        apiKey: DEEPSEEK_API_KEY,
-        baseUrl: DEEPSEEK_BASE_URL,
-        providerName: "DeepSeek",
-        signal
-      });
-    case "openrouter":
-      return runOpenAIStyleModel({
-        bundle,
-        modelId: model,
-        apiKey: OPENROUTER_API_KEY,
-        baseUrl: OPENROUTER_BASE_URL,
-        providerName: "OpenRouter",
-        extraHeaders: {
-          "HTTP-Referer": APP_URL,
-          "X-Title": APP_NAME
-        },
-        signal
-      });
-    default:
-      return runOpenAIStyleModel({
-        bundle,
-        modelId: model,
-        apiKey: OPENAI_API_KEY,
-        baseUrl: OPENAI_BASE_URL,
-        providerName: "OpenAI",
-        signal
-      });
-  }
+const requestRevision = async (text: string, config: AgentConfig, signal?: AbortSignal): Promise<string | undefined> => {
+  const raw = await routeModel(buildRevisionBundle(text, config), config, signal);
+  const payload = extractJsonPayload(raw);
+  if (!payload) return undefined;
+  const parsed = JSON.parse(payload);
+  const revised = typeof parsed?.revised_essay === "string" ? parsed.revised_essay.trim() : "";
+  return revised || undefined;
+};
+
+// Transcription only, through the selected provider's vision model (vision-LLM OCR engine)
+export const transcribeWithModel = async (
+  file: File,
+  config: AgentConfig,
+  signal?: AbortSignal
+): Promise<{ text: string; words: OcrWord[] }> => {
+  const bundle: PromptBundle = {
+    systemPrompt: `
+You are an OCR engine for handwritten student essays. Transcribe the text in the image exactly as written, including the student's spelling and grammar mistakes; never correct anything. Preserve line and paragraph breaks. Include header lines such as the name and date. Write [?] for a word you cannot read, and wrap a word you can only partly make out in double brackets, e.g. [[recieve]].
+Return a single JSON object: {"text": string}. Do not include any text outside of the JSON.
+`.trim(),
+    userPrompt: "Transcribe the attached essay image.",
+    image: await fileToBase64(file)
+  };
+  const raw = await routeModel(bundle, config, signal);
+  const payload = extractJsonPayload(raw);
+  const parsed = payload ? JSON.parse(payload) : undefined;
+  const transcript = parseMarkedTranscript(typeof parsed?.text === "string" ? parsed.text : "");
+  if (!transcript.text) throw new Error(`${getProviderAdapter(config.model.provider).label} returned an empty transcript`);
+  return transcript;
 };
 
 export const processEssayAgent = async (
   essay: EssayData,
   config: AgentConfig,
   onProgress?: (update: Partial<EssayData>) => void,
-  options: { skipOcr?: boolean; signal?: AbortSignal } = {}
+  options: { signal?: AbortSignal; roster?: Student[] } = {}
 ): Promise<EssayData> => {
-  let textForModel = essay.rawText || essay.ocrText || "";
+  // OCR is a separate step (runOcr with the configured engine); without a transcript a vision model grades the image
+  const textForModel = essay.rawText || essay.ocrText || "";
   try {
-    const { skipOcr, signal } = options;
+    const { signal } = options;
 
     const setProgress = (update: Partial<EssayData>) => {
       onProgress?.(update);
     };
 
+    setProgress({ progressStep: "grading", progressMessage: "AI批改中..." });
     if (signal?.aborted) throw new Error("Processing cancelled");
 
-    if (essay.submissionType === "image" && essay.file && !skipOcr) {
-      setProgress({ progressStep: "ocr", progressMessage: "正在执行手写OCR..." });
+    const promptBundle = await buildPromptBundle(essay, config, textForModel);
+    const result = await requestValidatedOutput(
+      promptBundle,
+      config,
+      () => setProgress({ progressStep: "grading", progressMessage: "AI返回格式异常，正在自动修复..." }),
+      signal
+    );
+
+    // Exam presets grade by band; label the result with the band unless the model set a grade
+    const preset = getExamPreset(config.examPresetId);
+    const band = preset ? findScoreBand(preset, result.gradingResult.score) : undefined;
+    if (band && !result.gradingResult.grade) result.gradingResult.grade = band.label;
+    // Kept on the result so a teacher's score edit is rounded and labelled the same way
+    if (preset) result.gradingResult.examPresetId = preset.id;
+
+    const finalText = result.ocrText || textForModel || essay.rawText || "";
+    result.gradingResult.grammar_issues = anchorIssues(finalText, result.gradingResult.grammar_issues);
+
+    // The revision is an extra; a failure here keeps the grading result
+    if (config.generateRevision && finalText.trim()) {
+      setProgress({ progressStep: "grading", progressMessage: "正在生成修改范文..." });
       try {
-        textForModel = await transcribeHandwriting(essay.file, { signal });
-        setProgress({
-          ocrText: textForModel,
-          progressStep: "ocr_complete",
-          progressMessage: "OCR完成，准备批改"
-        });
-      } catch (ocrError) {
-        console.error("Handwriting OCR error:", ocrError);
-        setProgress({ progressStep: "ocr", progressMessage: "OCR失败，继续尝试直接批改" });
-        textForModel = textForModel || "";
+        result.gradingResult.revised_essay = await requestRevision(finalText, config, signal);
+      } catch (revisionError: any) {
+        if (signal?.aborted) throw revisionError;
+        console.warn("Model revision failed:", revisionError);
       }
     }
 
-    if (skipOcr) {
-      setProgress({ progressStep: "grading", progressMessage: "AI批改重试中..." });
-    } else {
-      setProgress({ progressStep: "grading", progressMessage: "AI批改中..." });
-    }
-    if (signal?.aborted) throw new Error("Processing cancelled");
-
-    const promptBundle = await buildPromptBundle(essay, config, textForModel);
-    const jsonText = await routeModel(promptBundle, config, signal);
-    const result = JSON.parse(jsonText);
-
     setProgress({ progressStep: "done", progressMessage: "批改完成" });
-    return {
+    const graded: EssayData = {
       ...essay,
       status: ProcessingStatus.COMPLETED,
       studentName: result.studentName || essay.studentName || "Unknown Student",
       date: result.date || essay.date || new Date().toLocaleDateString(),
-      ocrText: result.ocrText || textForModel || essay.rawText || "",
+      ocrText: finalText,
       gradingResult: result.gradingResult,
       progressStep: "done",
       progressMessage: "批改完成"
     };
+    return applyRosterMatch(graded, options.roster || [], result.studentName);
   } catch (error: any) {
+    // Let the processing queue back off and retry instead of marking the essay as failed
+    if (isRateLimitError(error) && !options.signal?.aborted) throw error;
     console.error("Agent Error:", error);
     const cancelled = error?.message?.toLowerCase().includes("cancelled") || error?.name === "AbortError";
 
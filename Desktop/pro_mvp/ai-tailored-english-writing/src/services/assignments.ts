@@ -0,0 +1,91 @@
+/**
+ * 班级与作业
+ * 作业保存一份批改配置快照（等级、满分、关注点、评分维度、提示词、考试预设），
+ * 挂在作业下的作文按该配置批改；模型/服务商与修改范文开关仍取全局 AgentConfig
+ */
+
+import { AgentConfig, Assignment, EssayData, SchoolClass } from '../types';
+
+// Filter value for essays / assignments that are not attached to anything
+export const UNASSIGNED = 'none';
+
+export interface AssignmentScope {
+  classId: string; // '' = all classes, UNASSIGNED = no class
+  assignmentId: string; // '' = all assignments, UNASSIGNED = no assignment
+}
+
+export const EMPTY_SCOPE: AssignmentScope = { classId: '', assignmentId: '' };
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createClass = (name: string): SchoolClass => ({
+  id: newId('cls'),
+  name: name.trim(),
+  createdAt: new Date().toISOString()
+});
+
+/**
+ * New assignment seeded from the current sidebar settings
+ */
+export const createAssignment = (title: string, config: AgentConfig, extra: Partial<Assignment> = {}): Assignment => ({
+  id: newId('asg'),
+  title: title.trim(),
+  prompt: '',
+  level: config.level,
+  criteria: { ...config.criteria, focusAreas: [...config.criteria.focusAreas] },
+  rubric: config.rubric?.map((dim) => ({ ...dim })),
+  prompts: config.prompts ? { ...config.prompts } : undefined,
+  examPresetId: config.examPresetId,
+  createdAt: new Date().toISOString(),
+  ...extra
+});
+
+/**
+ * The assignment's grading settings as an AgentConfig, so the sidebar editors and
+ * applyExamPreset can be reused on it
+ */
+export const assignmentToConfig = (assignment: Assignment, base: AgentConfig): AgentConfig => ({
+  ...base,
+  level: assignment.level,
+  criteria: assignment.criteria,
+  rubric: assignment.rubric,
+  prompts: assignment.prompts,
+  examPresetId: assignment.examPresetId
+});
+
+export const withGradingConfig = (assignment: Assignment, config: AgentConfig): Assignment => ({
+  ...assignment,
+  level: config.level,
+  criteria: config.criteria,
+  rubric: config.rubric,
+  prompts: config.prompts,
+  examPresetId: config.examPresetId
+});
+
+export const findAssignment = (assignments: Assignment[], id?: string) =>
+  id ? assignments.find((assignment) => assignment.id === id) : undefined;
+
+/**
+ * Config used to grade one essay: its assignment's settings over the global model settings
+ */
+export const resolveGradingConfig = (config: AgentConfig, assignment?: Assignment): AgentConfig =>
+  assignment ? assignmentToConfig(assignment, config) : config;
+
+// Essays without their own topic are graded against the assignment's task text
+export const resolveTopic = (essay: EssayData, assignment?: Assignment) =>
+  essay.topic || (assignment ? assignment.prompt || assignment.title : undefined);
+
+export const filterByScope = (essays: EssayData[], scope: AssignmentScope, assignments: Assignment[]) => {
+  if (!scope.classId && !scope.assignmentId) return essays;
+  return essays.filter((essay) => {
+    const assignment = findAssignment(assignments, essay.assignmentId);
+    if (scope.assignmentId === UNASSIGNED && assignment) return false;
+    if (scope.assignmentId && scope.assignmentId !== UNASSIGNED && essay.assignmentId !== scope.assignmentId) return false;
+    if (scope.classId === UNASSIGNED && assignment?.classId) return false;
+    if (scope.classId && scope.classId !== UNASSIGNED && assignment?.classId !== scope.classId) return false;
+    return true;
+  });
+};
+
+export const isOverdue = (assignment: Assignment, now = new Date()) =>
+  Boolean(assignment.dueDate) && assignment.dueDate < now.toISOString().slice(0, 10);
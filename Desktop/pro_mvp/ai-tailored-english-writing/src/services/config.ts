@@ -1,4 +1,4 @@
-// Centralized env access for service layer (OpenAI + OpenRouter only).
+// Centralized env access for service layer (AI providers, OCR, save server).
 export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 export const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
 export const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
@@ -8,6 +8,12 @@ export const GEMINI_BASE_URL =
   process.env.GEMINI_BASE_URL || "https://generativelanguage.googleapis.com/v1beta";
 export const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY;
 export const DEEPSEEK_BASE_URL = process.env.DEEPSEEK_BASE_URL || "https://api.deepseek.com/v1";
+export const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+export const ANTHROPIC_BASE_URL = process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com/v1";
+export const AZURE_OPENAI_API_KEY = process.env.AZURE_OPENAI_API_KEY;
+export const AZURE_OPENAI_BASE_URL = process.env.AZURE_OPENAI_BASE_URL || "";
+export const AZURE_OPENAI_API_VERSION = process.env.AZURE_OPENAI_API_VERSION || "2024-06-01";
+export const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1";
 export const HANDWRITING_OCR_API_KEY = process.env.HANDWRITING_OCR_API_KEY;
 export const HANDWRITING_OCR_BASE_URL =
   process.env.HANDWRITING_OCR_BASE_URL || "https://www.handwritingocr.com/api/v3";
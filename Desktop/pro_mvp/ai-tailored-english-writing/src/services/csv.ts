@@ -0,0 +1,16 @@
+/**
+ * CSV 导出
+ * 按 RFC 4180 转义，开头带 UTF-8 BOM，Excel 直接打开时中文不会乱码。
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+const escapeCell = (value: CsvCell) => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Spreadsheet apps run cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][]) => `\uFEFF${rows.map((row) => row.map(escapeCell).join(',')).join('\r\n')}\r\n`;
@@ -0,0 +1,400 @@
+/**
+ * Word 批改报告
+ * 手写 OOXML 并用 fflate 打包为 .docx，不依赖额外的库。
+ * 作文正文中的每条批改写成 Word 修订（删除原文 + 插入改正），并附一条批注说明原因，
+ * 老师可以在 Word 里逐条接受/拒绝；无法定位到原文的批改放在正文后的列表里。
+ * 内容开关与 PDF 相同（ExportOptions），被老师驳回的批注不导出。
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import { EssayData, ExportOptions, GrammarIssue } from '../types';
+import { resolveTopic } from './assignments';
+import { getEssayPages } from './essayPages';
+import { hasValidAnchor } from './issueAnchoring';
+import { buildReportZip, describeEssay, ReportContext } from './reportBundle';
+import { loadReportImage, ReportImage } from './reportImages';
+import { exportableIssues, exportableListItems } from './review';
+import { getGradeLetter, resolveMaxScore } from './rubric';
+import { diffWords } from './textDiff';
+
+const AUTHOR = 'EssayFlow AI';
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+// A4 with 1" margins, in twips; images are sized in EMU
+const PAGE = { width: 11906, height: 16838, margin: 1440 };
+const EMU_PER_TWIP = 635;
+const MAX_IMAGE_WIDTH = (PAGE.width - PAGE.margin * 2) * EMU_PER_TWIP;
+const MAX_IMAGE_HEIGHT = 8 * 914400;
+
+// Same palette as the PDF report
+const COLORS = {
+  muted: '64748B',
+  faint: '94A3B8',
+  error: 'F43F5E',
+  fix: '047857',
+  strength: '065F46',
+  improvement: '9F1239',
+  accent: '0369A1'
+};
+
+const LINE_BREAK = /\r\n|\r|\n/;
+
+interface RunStyle {
+  bold?: boolean;
+  strike?: boolean;
+  color?: string;
+  size?: number; // Points
+}
+
+// XML 1.0 does not allow most control characters, even escaped
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const runProps = (style: RunStyle = {}) => {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.strike ? '<w:strike/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${Math.round(style.size * 2)}"/><w:szCs w:val="${Math.round(style.size * 2)}"/>` : ''
+  ].join('');
+  return props ? `<w:rPr>${props}</w:rPr>` : '';
+};
+
+const run = (text: string, style?: RunStyle, tag: 't' | 'delText' = 't') =>
+  text ? `<w:r>${runProps(style)}<w:${tag} xml:space="preserve">${escapeXml(text.replace(/\t/g, '    '))}</w:${tag}></w:r>` : '';
+
+const paragraph = (runs: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+
+// One paragraph per line of the source text
+const textParagraphs = (text: string, style?: RunStyle, props = '') =>
+  text.split(LINE_BREAK).map((line) => paragraph(run(line, style), props)).join('');
+
+const createBuilder = (scale: number) => {
+  const body: string[] = [];
+  const comments: string[] = [];
+  const media: { name: string; image: ReportImage }[] = [];
+  const timestamp = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  let nextId = 1;
+  const size = (points: number) => points * scale;
+
+  const heading = (text: string) => body.push(paragraph(run(text), '<w:pStyle w:val="Heading2"/>'));
+
+  // A tracked change by the report's author
+  const tracked = (type: 'insert' | 'delete', text: string) =>
+    type === 'insert'
+      ? `<w:ins w:id="${nextId++}" w:author="${AUTHOR}" w:date="${timestamp}">${run(text)}</w:ins>`
+      : `<w:del w:id="${nextId++}" w:author="${AUTHOR}" w:date="${timestamp}">${run(text, undefined, 'delText')}</w:del>`;
+
+  // The deleted phrase and its correction, with the explanation as a comment spanning both
+  const revision = (original: string, issue: GrammarIssue) => {
+    const commentId = nextId++;
+    const tag = issue.type || 'Grammar';
+    comments.push(
+      `<w:comment w:id="${commentId}" w:author="${AUTHOR}" w:initials="AI" w:date="${timestamp}">` +
+        paragraph(run(`[${tag}] `, { bold: true }) + run(issue.explanation || `${issue.original} → ${issue.correction}`)) +
+        '</w:comment>'
+    );
+    const deletion = tracked('delete', original);
+    const insertion = issue.correction ? tracked('insert', issue.correction) : '';
+    return (
+      `<w:commentRangeStart w:id="${commentId}"/>${deletion}${insertion}<w:commentRangeEnd w:id="${commentId}"/>` +
+      `<w:r><w:rPr><w:rStyle w:val="CommentReference"/></w:rPr><w:commentReference w:id="${commentId}"/></w:r>`
+    );
+  };
+
+  const image = (image: ReportImage) => {
+    const id = nextId++;
+    const name = `image${media.length + 1}.${image.type === 'png' ? 'png' : 'jpeg'}`;
+    media.push({ name, image });
+    const fit = Math.min(1, MAX_IMAGE_WIDTH / (image.width * 9525), MAX_IMAGE_HEIGHT / (image.height * 9525));
+    const cx = Math.round(image.width * 9525 * fit);
+    const cy = Math.round(image.height * 9525 * fit);
+    return (
+      `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>` +
+      `<wp:docPr id="${id}" name="${name}"/>` +
+      '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">' +
+      '<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      '<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      `<pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="rIdMedia${media.length}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+      '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>'
+    );
+  };
+
+  return { body, comments, media, size, heading, tracked, revision, image };
+};
+
+type Builder = ReturnType<typeof createBuilder>;
+
+/**
+ * Issues that can be shown in place: a valid anchor on a single line, not overlapping an
+ * earlier one. The rest are listed after the essay.
+ */
+const placeIssues = (text: string, issues: GrammarIssue[]) => {
+  const inline: GrammarIssue[] = [];
+  const unplaced: GrammarIssue[] = [];
+  let lastEnd = 0;
+  [...issues]
+    .sort((a, b) => (hasValidAnchor(text, a) ? a.start! : Infinity) - (hasValidAnchor(text, b) ? b.start! : Infinity))
+    .forEach((issue) => {
+      const fits = hasValidAnchor(text, issue) && issue.start! >= lastEnd && !LINE_BREAK.test(text.slice(issue.start, issue.end));
+      if (!fits) {
+        unplaced.push(issue);
+        return;
+      }
+      inline.push(issue);
+      lastEnd = issue.end!;
+    });
+  return { inline, unplaced };
+};
+
+const renderEssayText = (builder: Builder, text: string, issues: GrammarIssue[]) => {
+  const lines: string[] = [''];
+  const pushText = (value: string) => {
+    value.split(LINE_BREAK).forEach((part, i) => {
+      if (i > 0) lines.push('');
+      lines[lines.length - 1] += run(part);
+    });
+  };
+  let cursor = 0;
+  issues.forEach((issue) => {
+    pushText(text.slice(cursor, issue.start));
+    lines[lines.length - 1] += builder.revision(text.slice(issue.start, issue.end), issue);
+    cursor = issue.end!;
+  });
+  pushText(text.slice(cursor));
+  lines.forEach((line) => builder.body.push(paragraph(line)));
+};
+
+/**
+ * The model revision as tracked changes against the student's text, so Word shows the same
+ * word diff as the card. Line breaks inside a deletion are not kept; new lines start paragraphs.
+ */
+const renderRevisionDiff = (builder: Builder, original: string, revised: string) => {
+  const lines: string[] = [''];
+  diffWords(original, revised).forEach((op) => {
+    if (op.type === 'delete') {
+      lines[lines.length - 1] += builder.tracked('delete', op.text.replace(/\s*(\r\n|\r|\n)\s*/g, ' '));
+      return;
+    }
+    op.text.split(LINE_BREAK).forEach((part, i) => {
+      if (i > 0) lines.push('');
+      if (part) lines[lines.length - 1] += op.type === 'insert' ? builder.tracked('insert', part) : run(part);
+    });
+  });
+  lines.forEach((line) => builder.body.push(paragraph(line)));
+};
+
+const renderTitle = (builder: Builder, essay: EssayData, name: string, meta: string, first: boolean) => {
+  builder.body.push(paragraph(run(name), `<w:pStyle w:val="Heading1"/>${first ? '' : '<w:pageBreakBefore/>'}`));
+  if (meta) builder.body.push(paragraph(run(meta, { color: COLORS.muted, size: builder.size(9) })));
+  const result = essay.gradingResult;
+  if (!result) return;
+  const maxScore = resolveMaxScore(result);
+  const grade = result.grade || getGradeLetter(result.score, maxScore);
+  const approval = essay.approvedAt ? `  ·  已审核 ${essay.approvedAt.slice(0, 10)}` : '';
+  builder.body.push(paragraph(run(`Score ${result.score} / ${maxScore}  ·  Grade ${grade}${approval}`, { bold: true, color: COLORS.accent, size: builder.size(13) })));
+};
+
+const renderImages = async (builder: Builder, essay: EssayData) => {
+  const pages = getEssayPages(essay);
+  if (essay.submissionType !== 'image' || pages.length === 0) return;
+  builder.heading('Source');
+  for (let i = 0; i < pages.length; i += 1) {
+    const caption = pages.length > 1 ? `p${i + 1}` : undefined;
+    try {
+      const image = await loadReportImage(pages[i]);
+      if (image) {
+        if (caption) builder.body.push(paragraph(run(caption, { color: COLORS.faint, size: builder.size(9) })));
+        builder.body.push(paragraph(builder.image(image), '<w:jc w:val="center"/>'));
+        continue;
+      }
+    } catch (err) {
+      console.warn('Could not embed page image in the Word report', err);
+    }
+    builder.body.push(paragraph(run(`${caption ? `${caption} ` : ''}（图片不可用）`, { color: COLORS.faint, size: builder.size(9) })));
+  }
+};
+
+const renderSummary = (builder: Builder, essay: EssayData) => {
+  const result = essay.gradingResult;
+  if (!result) return;
+  const rubric = result.rubric || [];
+  if (rubric.length > 0) {
+    builder.heading('Score Breakdown');
+    rubric.forEach((dim) => {
+      const score = result.dimension_scores?.[dim.id];
+      builder.body.push(paragraph(run(`${dim.name}:  ${score ?? '—'} / ${dim.maxPoints}`)));
+    });
+  }
+  if (result.summary_cn?.trim()) {
+    builder.heading("Teacher's Summary");
+    builder.body.push(textParagraphs(result.summary_cn));
+  }
+};
+
+const renderList = (builder: Builder, title: string, items: string[], color: string) => {
+  if (items.length === 0) return;
+  builder.heading(title);
+  items.forEach((item) => builder.body.push(paragraph(run(`•  ${item}`, { color }), '<w:ind w:left="240"/>')));
+};
+
+const renderCorrections = (builder: Builder, title: string, issues: GrammarIssue[], emptyText?: string) => {
+  if (issues.length === 0 && !emptyText) return;
+  builder.heading(title);
+  if (issues.length === 0) {
+    builder.body.push(paragraph(run(emptyText!, { color: COLORS.muted })));
+    return;
+  }
+  issues.forEach((issue) => {
+    const tag = (issue.type || 'Grammar').toUpperCase();
+    builder.body.push(paragraph(run(tag, { bold: true, color: COLORS.faint, size: builder.size(9) }), '<w:keepNext/>'));
+    builder.body.push(
+      paragraph(
+        run(issue.original, { strike: true, color: COLORS.error }) +
+          run('  →  ', { color: COLORS.faint }) +
+          run(issue.correction, { bold: true, color: COLORS.fix }),
+        issue.explanation ? '<w:keepNext/>' : ''
+      )
+    );
+    if (issue.explanation) builder.body.push(paragraph(run(issue.explanation, { color: COLORS.muted, size: builder.size(9) }), '<w:ind w:left="240"/>'));
+  });
+};
+
+const renderEssay = async (builder: Builder, essay: EssayData, options: ExportOptions, context: ReportContext, first: boolean) => {
+  const { studentName, assignment, className } = describeEssay(essay, context);
+  const topic = resolveTopic(essay, assignment);
+  renderTitle(builder, essay, studentName, [assignment?.title, className, essay.date, topic && topic !== assignment?.title ? topic : undefined].filter(Boolean).join('  ·  '), first);
+
+  if (options.includeImage) await renderImages(builder, essay);
+  const result = essay.gradingResult;
+  const issues = result ? exportableIssues(result) : [];
+  const essayText = essay.ocrText || essay.rawText || '';
+  let unplaced = issues;
+  if (options.includeOCR && essayText.trim()) {
+    builder.heading(essay.submissionType === 'text' ? 'Essay Content' : 'OCR Transcription');
+    const placed = options.includeCorrections ? placeIssues(essayText, issues) : { inline: [], unplaced: issues };
+    renderEssayText(builder, essayText, placed.inline);
+    unplaced = placed.unplaced;
+  }
+
+  if (!result) return;
+  if (options.includeSummary) renderSummary(builder, essay);
+  if (options.includeLists) {
+    renderList(builder, 'Strengths', exportableListItems(result, 'strengths'), COLORS.strength);
+    renderList(builder, 'Areas for Improvement', exportableListItems(result, 'improvements'), COLORS.improvement);
+  }
+  if (options.includeCorrections) {
+    // Corrections shown as revisions in the essay are not repeated
+    if (unplaced.length < issues.length) renderCorrections(builder, 'Other Corrections', unplaced);
+    else renderCorrections(builder, 'Detailed Corrections', issues, 'No corrections needed. Great job!');
+  }
+  if (options.includeRevision && result.revised_essay?.trim()) {
+    builder.heading('Model Revision');
+    if (essayText.trim()) renderRevisionDiff(builder, essayText, result.revised_essay);
+    else builder.body.push(textParagraphs(result.revised_essay));
+  }
+};
+
+const stylesXml = (scale: number) => {
+  const size = (points: number) => Math.round(points * scale * 2);
+  const style = (id: string, name: string, rPr: string, pPr = '') =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:styles xmlns:w="${NS_W}">` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft YaHei" w:cs="Calibri"/>' +
+    `<w:color w:val="334155"/><w:sz w:val="${size(10.5)}"/><w:szCs w:val="${size(10.5)}"/><w:lang w:val="en-US" w:eastAsia="zh-CN"/></w:rPr></w:rPrDefault>` +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>` +
+    style('Heading1', 'heading 1', `<w:b/><w:color w:val="1E293B"/><w:sz w:val="${size(18)}"/><w:szCs w:val="${size(18)}"/>`, '<w:spacing w:after="60"/><w:outlineLvl w:val="0"/>') +
+    style('Heading2', 'heading 2', `<w:b/><w:color w:val="1E293B"/><w:sz w:val="${size(13)}"/><w:szCs w:val="${size(13)}"/>`, '<w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/>') +
+    '<w:style w:type="character" w:styleId="CommentReference"><w:name w:val="annotation reference"/><w:rPr><w:sz w:val="16"/></w:rPr></w:style>' +
+    '</w:styles>'
+  );
+};
+
+const footerXml = () =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:ftr xmlns:w="${NS_W}">` +
+  `<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:fldSimple w:instr=" PAGE "><w:r><w:rPr><w:color w:val="${COLORS.faint}"/></w:rPr><w:t>1</w:t></w:r></w:fldSimple></w:p></w:ftr>`;
+
+const documentXml = (body: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+  `<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">` +
+  `<w:body>${body.join('')}` +
+  `<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>` +
+  `<w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>` +
+  '</w:body></w:document>';
+
+const relationships = (items: [string, string, string][]) =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  items.map(([id, type, target]) => `<Relationship Id="${id}" Type="${type}" Target="${target}"/>`).join('') +
+  '</Relationships>';
+
+const contentTypes = () =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Default Extension="png" ContentType="image/png"/><Default Extension="jpeg" ContentType="image/jpeg"/>' +
+  `<Override PartName="/word/document.xml" ContentType="${CONTENT_TYPE}.document.main+xml"/>` +
+  `<Override PartName="/word/styles.xml" ContentType="${CONTENT_TYPE}.styles+xml"/>` +
+  `<Override PartName="/word/comments.xml" ContentType="${CONTENT_TYPE}.comments+xml"/>` +
+  `<Override PartName="/word/footer1.xml" ContentType="${CONTENT_TYPE}.footer+xml"/>` +
+  '</Types>';
+
+/**
+ * Build the .docx for the given essays (in order), one essay per page.
+ */
+export const createDocxReport = async (essays: EssayData[], options: ExportOptions, context: ReportContext): Promise<Uint8Array> => {
+  const scale = Math.min(Math.max(options.fontScale || 100, 50), 200) / 100;
+  const builder = createBuilder(scale);
+  for (let i = 0; i < essays.length; i += 1) {
+    await renderEssay(builder, essays[i], options, context, i === 0);
+  }
+
+  const files: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {
+    '[Content_Types].xml': strToU8(contentTypes()),
+    '_rels/.rels': strToU8(relationships([['rId1', `${REL_TYPE}/officeDocument`, 'word/document.xml']])),
+    'word/document.xml': strToU8(documentXml(builder.body)),
+    'word/styles.xml': strToU8(stylesXml(scale)),
+    'word/comments.xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:comments xmlns:w="${NS_W}">${builder.comments.join('')}</w:comments>`),
+    'word/footer1.xml': strToU8(footerXml()),
+    'word/_rels/document.xml.rels': strToU8(
+      relationships([
+        ['rIdStyles', `${REL_TYPE}/styles`, 'styles.xml'],
+        ['rIdComments', `${REL_TYPE}/comments`, 'comments.xml'],
+        ['rIdFooter', `${REL_TYPE}/footer`, 'footer1.xml'],
+        ...builder.media.map(({ name }, i): [string, string, string] => [`rIdMedia${i + 1}`, `${REL_TYPE}/image`, `media/${name}`])
+      ])
+    )
+  };
+  // Images are already compressed
+  builder.media.forEach(({ name, image }) => {
+    files[`word/media/${name}`] = [image.bytes, { level: 0 }];
+  });
+  return zipSync(files);
+};
+
+export const generateDocxReport = async (essays: EssayData[], options: ExportOptions, context: ReportContext): Promise<Blob> => {
+  const bytes = await createDocxReport(essays, options, context);
+  return new Blob([bytes], { type: `${CONTENT_TYPE}.document` });
+};
+
+export const generateDocxZip = async (
+  essays: EssayData[],
+  options: ExportOptions,
+  context: ReportContext,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const bytes = await buildReportZip(essays, options, context, 'docx', (group) => createDocxReport(group, options, context), onProgress);
+  return new Blob([bytes], { type: 'application/zip' });
+};
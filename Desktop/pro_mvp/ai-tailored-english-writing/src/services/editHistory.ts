@@ -0,0 +1,209 @@
+/**
+ * 撤销 / 重做与回收站
+ * 老师对作文列表的修改（分数、评语、批改条目、删除、清空、合并/拆分页、关联学生、分配作业等）记录为命令：每条命令只保存受影响字段的前后值，
+ * 所以撤销不会覆盖之后AI批改写入的其他字段；若这些字段之后又被改过，整条命令不再撤销。
+ * 同时改动花名册、班级或作业列表的命令（删除学生/班级/作业、重新匹配）还保存这些列表的前后版本，撤销时一并恢复。
+ * 删除的作文进入回收站（带 deletedAt，与作文一起保存），保留期内可恢复。
+ */
+
+import { Assignment, EssayData, ProcessingStatus, SchoolClass, Student } from '../types';
+
+export const MAX_UNDO_STEPS = 100;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90];
+
+// Keystrokes in the same fields of one essay within this window are one undo step
+const COALESCE_MS = 1500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EssayChange =
+  | { kind: 'update'; id: string; before: Partial<EssayData>; after: Partial<EssayData> }
+  | { kind: 'insert'; essay: EssayData; index: number }
+  | { kind: 'remove'; essay: EssayData; index: number } // Gone without a trash copy, e.g. the source of a merge
+  | { kind: 'trash'; essay: EssayData; index: number; deletedAt: string }
+  | { kind: 'restore'; essay: EssayData; index: number; deletedAt: string }; // Out of the trash, the reverse of 'trash'
+
+// Workspace lists a command can replace along with the essays; absent keys are untouched
+export interface WorkspaceLists {
+  roster?: Student[];
+  classes?: SchoolClass[];
+  assignments?: Assignment[];
+}
+
+export interface EditCommand {
+  label: string;
+  at: number;
+  changes: EssayChange[];
+  lists?: { before: WorkspaceLists; after: WorkspaceLists };
+  coalesceKey?: string;
+}
+
+export type EditDirection = 'undo' | 'redo';
+
+const pick = (source: Partial<EssayData>, keys: string[]): Partial<EssayData> =>
+  Object.fromEntries(keys.map((key) => [key, source[key as keyof EssayData]]));
+
+/**
+ * The fields `next` changes on `essay`, or undefined when it changes nothing. Keys missing
+ * from a whole-essay `next` count as cleared.
+ */
+export const updateChange = (essay: EssayData, next: Partial<EssayData>, wholeEssay = false): EssayChange | undefined => {
+  const keys = wholeEssay ? Array.from(new Set([...Object.keys(essay), ...Object.keys(next)])) : Object.keys(next);
+  const changed = keys.filter((key) => key !== 'id' && essay[key as keyof EssayData] !== next[key as keyof EssayData]);
+  if (!changed.length) return undefined;
+  return { kind: 'update', id: essay.id, before: pick(essay, changed), after: pick(next, changed) };
+};
+
+// Label for an edit made through the card, by the fields it touches
+export const describeUpdate = (patch: Partial<EssayData>) => {
+  const keys = Object.keys(patch);
+  if (keys.includes('gradingRevisionId')) return '恢复历史批改';
+  if (keys.includes('gradingResult')) return '编辑批改';
+  if (keys.includes('approvedAt')) return patch.approvedAt ? '审核通过' : '撤回审核';
+  if (keys.includes('ocrText') || keys.includes('rawText')) return '编辑转写';
+  if (keys.includes('ocrVerifiedAt')) return '核对OCR';
+  return '编辑作文信息';
+};
+
+type UpdateChange = Extract<EssayChange, { kind: 'update' }>;
+
+// Both commands only update the same essays, in the same order
+const sameUpdates = (a: EditCommand, b: EditCommand) =>
+  a.changes.length === b.changes.length &&
+  a.changes.every((change, index) => {
+    const other = b.changes[index];
+    return change.kind === 'update' && other.kind === 'update' && change.id === other.id;
+  });
+
+/**
+ * Add a command to the undo stack, merging it into the previous one when both are quick
+ * successive edits of the same things (typing in a comment or a student's name)
+ */
+export const pushCommand = (stack: EditCommand[], command: EditCommand): EditCommand[] => {
+  const last = stack[stack.length - 1];
+  const mergeable =
+    last?.coalesceKey && last.coalesceKey === command.coalesceKey && command.at - last.at < COALESCE_MS &&
+    sameUpdates(last, command) && Boolean(last.lists) === Boolean(command.lists);
+  if (mergeable) {
+    // Values from before the first edit, after the latest one
+    const changes = (command.changes as UpdateChange[]).map((latest, index) => {
+      const first = last.changes[index] as UpdateChange;
+      return { ...latest, before: { ...latest.before, ...first.before }, after: { ...first.after, ...latest.after } };
+    });
+    const lists = command.lists && {
+      before: { ...command.lists.before, ...last.lists!.before },
+      after: { ...last.lists!.after, ...command.lists.after }
+    };
+    return [...stack.slice(0, -1), { ...command, changes, lists }];
+  }
+  return [...stack, command].slice(-MAX_UNDO_STEPS);
+};
+
+const orderFor = (command: EditCommand, direction: EditDirection) =>
+  direction === 'undo' ? [...command.changes].reverse() : command.changes;
+
+const fieldsMatch = (essay: EssayData | undefined, values: Partial<EssayData>) =>
+  Boolean(essay) && Object.keys(values).every((key) => essay![key as keyof EssayData] === values[key as keyof EssayData]);
+
+// The roster / class / assignment lists a command leaves behind in `direction`
+export const listsFor = (command: EditCommand, direction: EditDirection): WorkspaceLists =>
+  (direction === 'undo' ? command.lists?.before : command.lists?.after) || {};
+
+/**
+ * Whether the essays (and lists) still look the way the command left them (undo) or found them (redo).
+ * Anything changed since, such as a re-grade, a later delete or another roster edit, blocks the whole command.
+ */
+export const canApply = (
+  essays: EssayData[],
+  trash: EssayData[],
+  command: EditCommand,
+  direction: EditDirection,
+  lists: WorkspaceLists = {}
+) => {
+  const inList = (id: string) => essays.find((essay) => essay.id === id);
+  const inTrash = (id: string) => trash.some((essay) => essay.id === id);
+  const expected = listsFor(command, direction === 'undo' ? 'redo' : 'undo');
+  const listsMatch = (Object.keys(expected) as (keyof WorkspaceLists)[]).every((key) => lists[key] === expected[key]);
+  return listsMatch && command.changes.every((change) => {
+    const undo = direction === 'undo';
+    switch (change.kind) {
+      case 'update':
+        return fieldsMatch(inList(change.id), undo ? change.after : change.before);
+      case 'insert':
+        return undo ? Boolean(inList(change.essay.id)) : !inList(change.essay.id);
+      case 'remove':
+        return undo ? !inList(change.essay.id) : Boolean(inList(change.essay.id));
+      case 'trash':
+        // Deleted for good (or expired) since: its images are gone too
+        return undo ? !inList(change.essay.id) && inTrash(change.essay.id) : Boolean(inList(change.essay.id));
+      case 'restore':
+        return undo ? Boolean(inList(change.essay.id)) : !inList(change.essay.id) && inTrash(change.essay.id);
+    }
+  });
+};
+
+const insertAt = (essays: EssayData[], essay: EssayData, index: number) => {
+  const next = essays.filter((item) => item.id !== essay.id);
+  next.splice(Math.min(Math.max(index, 0), next.length), 0, essay);
+  return next;
+};
+
+// The essay list after undoing or redoing a command; call canApply first
+export const applyToEssays = (essays: EssayData[], command: EditCommand, direction: EditDirection): EssayData[] =>
+  orderFor(command, direction).reduce((list, change) => {
+    const undo = direction === 'undo';
+    if (change.kind === 'update') {
+      const values = undo ? change.before : change.after;
+      return list.map((essay) => (essay.id === change.id ? { ...essay, ...values } : essay));
+    }
+    const adds = change.kind === 'insert' || change.kind === 'restore' ? !undo : undo;
+    return adds ? insertAt(list, change.essay, change.index) : list.filter((essay) => essay.id !== change.essay.id);
+  }, essays);
+
+// The trash after undoing or redoing a command
+export const applyToTrash = (trash: EssayData[], command: EditCommand, direction: EditDirection): EssayData[] =>
+  command.changes.reduce((bin, change) => {
+    if (change.kind !== 'trash' && change.kind !== 'restore') return bin;
+    const rest = bin.filter((essay) => essay.id !== change.essay.id);
+    const binned = change.kind === 'trash' ? direction === 'redo' : direction === 'undo';
+    return binned ? [{ ...change.essay, deletedAt: change.deletedAt }, ...rest] : rest;
+  }, trash);
+
+/**
+ * The list copy of an essay being deleted. Work still running on it is cancelled by the caller,
+ * so a restored essay starts again from where it was.
+ */
+export const prepareForTrash = (essay: EssayData): EssayData =>
+  essay.status === ProcessingStatus.PROCESSING
+    ? {
+      ...essay,
+      status: ProcessingStatus.CANCELLED,
+      ocrStatus: essay.ocrStatus === 'processing' ? 'idle' : essay.ocrStatus,
+      gradingStatus: essay.gradingStatus === 'processing' ? 'idle' : essay.gradingStatus,
+      progressStep: 'cancelled',
+      progressMessage: '删除时已取消处理'
+    }
+    : essay;
+
+export const trashChanges = (essays: EssayData[], ids: string[], deletedAt = new Date().toISOString()): EssayChange[] =>
+  essays
+    .map((essay, index) => ({ essay, index }))
+    .filter(({ essay }) => ids.includes(essay.id))
+    .map(({ essay, index }) => ({ kind: 'trash', essay: prepareForTrash(essay), index, deletedAt }));
+
+// Back at the end of the list, without its trash marker
+export const restoreChange = ({ deletedAt, ...essay }: EssayData, index: number): EssayChange => ({
+  kind: 'restore',
+  essay,
+  index,
+  deletedAt: deletedAt || new Date().toISOString()
+});
+
+export const trashExpiresAt = (essay: EssayData, retentionDays: number) =>
+  new Date(new Date(essay.deletedAt || 0).getTime() + retentionDays * DAY_MS);
+
+// Trash without the expired essays; the same array when nothing expired
+export const purgeExpiredTrash = (trash: EssayData[], retentionDays: number, now = new Date()) => {
+  const kept = trash.filter((essay) => trashExpiresAt(essay, retentionDays) > now);
+  return kept.length === trash.length ? trash : kept;
+};
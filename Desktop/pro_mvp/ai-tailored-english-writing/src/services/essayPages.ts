@@ -0,0 +1,207 @@
+/**
+ * 多页作文
+ * 一篇作文可由多张图片组成：上传时按文件名（name_p1.jpg、name-page2.png）自动分组，
+ * 或在列表中把一张卡片拖到另一张上合并。页序保存在 EssayData.pages，
+ * 第一页同时映射到 file / imagePreview，单页作文不带 pages。
+ */
+
+import { EssayData, EssayPage, OcrWord, ProcessingStatus } from '../types';
+import { detachGrading } from './gradingHistory';
+
+// "alice_p1.jpg", "alice-p2.png", "alice page 3.jpeg" → base "alice", page 1/2/3
+const PAGE_PATTERN = /^(.+?)[\s_-]+p(?:age)?\s*(\d+)$/i;
+
+const PAGE_SEPARATOR = '\n\n';
+
+const newPageEssayId = () => Math.random().toString(36).slice(2, 11);
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+export const parsePageFileName = (fileName: string): { base: string; page: number } | undefined => {
+  const match = stripExtension(fileName).match(PAGE_PATTERN);
+  if (!match) return undefined;
+  return { base: match[1].trim(), page: Number.parseInt(match[2], 10) };
+};
+
+/**
+ * Split an upload into per-essay file groups. Files sharing a page-pattern base name
+ * become one group sorted by page number; everything else stays on its own.
+ */
+export const groupFilesByPage = (files: File[]): File[][] => {
+  // One slot per essay, in the order its first file appears in the upload
+  const slots: { page: number; file: File }[][] = [];
+  const byBase = new Map<string, { page: number; file: File }[]>();
+  files.forEach((file) => {
+    const parsed = parsePageFileName(file.name);
+    if (!parsed) {
+      slots.push([{ page: 0, file }]);
+      return;
+    }
+    const key = parsed.base.toLowerCase();
+    let slot = byBase.get(key);
+    if (!slot) {
+      slot = [];
+      byBase.set(key, slot);
+      slots.push(slot);
+    }
+    slot.push({ page: parsed.page, file });
+  });
+  return slots.map((slot) => slot.sort((a, b) => a.page - b.page).map((entry) => entry.file));
+};
+
+/**
+ * Pages of any image essay; single-image essays get one page built from the essay
+ * itself, keyed by the essay id like its stored image
+ */
+export const getEssayPages = (essay: EssayData): EssayPage[] => {
+  if (essay.pages?.length) return essay.pages;
+  if (essay.submissionType !== 'image') return [];
+  return [{
+    id: essay.id,
+    file: essay.file,
+    imagePreview: essay.imagePreview,
+    fileName: essay.sourceFileName,
+    originalFile: essay.originalFile,
+    preprocessSummary: essay.preprocessSummary,
+    imageEdit: essay.imageEdit,
+    ocrText: essay.ocrStatus === 'done' && essay.ocrText ? essay.ocrText : undefined,
+    ocrWords: essay.ocrStatus === 'done' ? essay.ocrWords : undefined,
+    ocrDocumentId: essay.ocrDocumentId,
+    ocrUploadedAt: essay.ocrUploadedAt
+  }];
+};
+
+export const isMultiPage = (essay: EssayData) => (essay.pages?.length || 0) > 1;
+
+export const joinPageTexts = (texts: (string | undefined)[]) =>
+  texts.map((text) => (text || '').trim()).filter(Boolean).join(PAGE_SEPARATOR);
+
+// Words stay in reading order across pages; undefined when no page has any
+export const joinPageWords = (pages: EssayPage[]): OcrWord[] | undefined => {
+  const words = pages.flatMap((page) => page.ocrWords || []);
+  return words.length ? words : undefined;
+};
+
+/**
+ * Apply a per-page OCR update. Single-image essays keep these fields on the essay itself.
+ */
+export const updatePage = (essay: EssayData, pageId: string, patch: Partial<EssayPage>): EssayData => {
+  if (!essay.pages?.length) {
+    const { ocrDocumentId, ocrUploadedAt } = patch;
+    return {
+      ...essay,
+      ...('ocrDocumentId' in patch ? { ocrDocumentId } : {}),
+      ...('ocrUploadedAt' in patch ? { ocrUploadedAt } : {})
+    };
+  }
+  return { ...essay, pages: essay.pages.map((page) => (page.id === pageId ? { ...page, ...patch } : page)) };
+};
+
+/**
+ * Rebuild the essay around a new page list; grading no longer matches the text, so it is reset (and kept in the history).
+ * A single remaining page goes back onto the essay itself, where single-image OCR reads and writes it.
+ */
+const withPages = (essay: EssayData, pages: EssayPage[]): EssayData => {
+  const transcribed = pages.every((page) => page.ocrText);
+  const first = pages[0];
+  const single = pages.length === 1;
+  return {
+    ...essay,
+    pages: single ? undefined : pages,
+    file: first?.file,
+    imagePreview: first?.imagePreview,
+    ...(single
+      ? {
+        sourceFileName: first.fileName ?? essay.sourceFileName,
+        originalFile: first.originalFile,
+        preprocessSummary: first.preprocessSummary,
+        imageEdit: first.imageEdit,
+        ocrDocumentId: first.ocrDocumentId,
+        ocrUploadedAt: first.ocrUploadedAt
+      }
+      : {
+        // Page-level from now on
+        originalFile: undefined,
+        preprocessSummary: undefined,
+        imageEdit: undefined,
+        ocrDocumentId: undefined,
+        ocrUploadedAt: undefined
+      }),
+    ocrText: transcribed ? joinPageTexts(pages.map((page) => page.ocrText)) : '',
+    ocrWords: transcribed ? joinPageWords(pages) : undefined,
+    ocrVerifiedAt: undefined,
+    ocrStatus: transcribed ? 'done' : 'idle',
+    gradingResult: undefined,
+    ...detachGrading(essay),
+    gradingStatus: 'idle',
+    approvedAt: undefined,
+    status: ProcessingStatus.PENDING,
+    errorMessage: undefined,
+    progressStep: transcribed ? 'ocr_complete' : 'queued',
+    progressMessage: `共 ${pages.length} 页，${transcribed ? '等待AI批改' : '等待OCR'}`
+  };
+};
+
+export const createPagedEssayFields = (pages: EssayPage[]): Pick<EssayData, 'pages' | 'file' | 'imagePreview' | 'sourceFileName'> => ({
+  pages,
+  file: pages[0]?.file,
+  imagePreview: pages[0]?.imagePreview,
+  sourceFileName: pages[0]?.fileName
+});
+
+/**
+ * Append the source essay's pages after the target's. Pages keep their transcripts,
+ * so merging two OCR'd halves does not need another OCR run.
+ */
+export const mergeEssays = (target: EssayData, source: EssayData): EssayData =>
+  withPages(target, [...getEssayPages(target), ...getEssayPages(source)]);
+
+/**
+ * Swap in a re-processed image for one page; its transcript no longer applies
+ */
+export const replacePageImage = (
+  essay: EssayData,
+  pageId: string,
+  image: Pick<EssayPage, 'file' | 'imagePreview' | 'originalFile' | 'preprocessSummary' | 'imageEdit'>
+): EssayData =>
+  withPages(
+    essay,
+    getEssayPages(essay).map((page) =>
+      page.id === pageId
+        ? { ...page, ...image, ocrText: undefined, ocrWords: undefined, ocrDocumentId: undefined, ocrUploadedAt: undefined }
+        : page
+    )
+  );
+
+export const movePage = (essay: EssayData, pageId: string, delta: number): EssayData => {
+  const pages = [...getEssayPages(essay)];
+  const from = pages.findIndex((page) => page.id === pageId);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= pages.length) return essay;
+  [pages[from], pages[to]] = [pages[to], pages[from]];
+  return withPages(essay, pages);
+};
+
+/**
+ * Take one page out into a new essay of its own. Returns the shortened essay and the new one.
+ */
+export const splitPage = (essay: EssayData, pageId: string): [EssayData, EssayData] | undefined => {
+  const pages = getEssayPages(essay);
+  const page = pages.find((item) => item.id === pageId);
+  if (!page || pages.length < 2) return undefined;
+  const rest = withPages(essay, pages.filter((item) => item.id !== pageId));
+  const split = withPages(
+    {
+      ...essay,
+      id: newPageEssayId(),
+      addedAt: new Date().toISOString(),
+      sourceFileName: page.fileName,
+      gradingHistory: undefined, // A new essay; the history stays with the original
+      studentId: undefined,
+      studentName: undefined,
+      extractedName: undefined
+    },
+    [page]
+  );
+  return [rest, split];
+};
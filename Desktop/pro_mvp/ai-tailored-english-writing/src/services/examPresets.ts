@@ -0,0 +1,60 @@
+/**
+ * 考试评分预设
+ * 每个 src/presets/*.json 文件即一个预设，新增考试只需添加数据文件
+ */
+
+import { AgentConfig, ExamPreset, ScoreBand, StudentLevel } from '../types';
+
+// In the JSON files `level` is the StudentLevel key (e.g. "HIGH") rather than the display value
+type RawExamPreset = Omit<ExamPreset, 'level'> & { level: keyof typeof StudentLevel };
+
+const presetModules = import.meta.glob<RawExamPreset>('../presets/*.json', { eager: true, import: 'default' });
+
+const toPreset = (path: string, raw: RawExamPreset): ExamPreset | null => {
+  const level = StudentLevel[raw?.level];
+  if (!raw?.id || !raw.name || !level || !Array.isArray(raw.rubric) || raw.rubric.length === 0 || !(raw.maxScore > 0)) {
+    console.warn(`Skipping invalid exam preset ${path}`);
+    return null;
+  }
+  return {
+    ...raw,
+    level,
+    focusAreas: raw.focusAreas || [],
+    // Highest band first so lookups can take the first match
+    bands: [...(raw.bands || [])].sort((a, b) => b.minScore - a.minScore)
+  };
+};
+
+export const EXAM_PRESETS: ExamPreset[] = Object.entries(presetModules)
+  .map(([path, raw]) => toPreset(path, raw))
+  .filter((preset): preset is ExamPreset => Boolean(preset))
+  .sort((a, b) => (a.order ?? 100) - (b.order ?? 100) || a.name.localeCompare(b.name));
+
+export const getExamPreset = (id?: string): ExamPreset | undefined =>
+  id ? EXAM_PRESETS.find((preset) => preset.id === id) : undefined;
+
+export const findScoreBand = (preset: ExamPreset, score: number): ScoreBand | undefined =>
+  preset.bands.find((band) => score >= band.minScore);
+
+/**
+ * 应用预设：覆盖等级、满分、关注点与评分维度，保留模型与提示词设置
+ */
+export const applyExamPreset = (config: AgentConfig, preset: ExamPreset): AgentConfig => ({
+  ...config,
+  examPresetId: preset.id,
+  level: preset.level,
+  criteria: {
+    ...config.criteria,
+    maxScore: preset.maxScore,
+    scoreStep: preset.scoreStep,
+    focusAreas: [...preset.focusAreas]
+  },
+  rubric: preset.rubric.map((dim) => ({ ...dim }))
+});
+
+export const describeWordCount = (wordCount?: ExamPreset['wordCount']) => {
+  if (!wordCount?.min && !wordCount?.max) return undefined;
+  if (wordCount.min && wordCount.max) return `${wordCount.min}-${wordCount.max} 词`;
+  if (wordCount.min) return `不少于 ${wordCount.min} 词`;
+  return `不超过 ${wordCount.max} 词`;
+};
@@ -0,0 +1,109 @@
+/**
+ * 成绩表导出
+ * 明细：每篇已批改作文一行（学生、班级、作业、日期、得分、等级、各类问题数、词数、是否已审核）；
+ * 汇总：学生 × 作业的得分透视表，可直接导入学校的成绩系统或表格。
+ * 被老师驳回的批改不计入问题数，与分析页一致。
+ */
+
+import { EssayData, GradebookFormat } from '../types';
+import { CsvCell, toCsv } from './csv';
+import { describeEssay, ReportContext } from './reportBundle';
+import { exportableIssues } from './review';
+import { normalizeName } from './roster';
+import { getGradeLetter, resolveMaxScore } from './rubric';
+import { createXlsx, XLSX_MIME_TYPE } from './xlsx';
+
+const UNASSIGNED_COLUMN = '未分配作业';
+
+// English words; digits and Chinese characters are not counted
+export const countWords = (text?: string) => (text?.match(/[A-Za-z]+(?:['’-][A-Za-z]+)*/g) || []).length;
+
+// The roster name when the essay is matched, so a student's rows agree with the grade system
+const studentName = (essay: EssayData, context: ReportContext) =>
+  (essay.studentId && context.roster?.find((student) => student.id === essay.studentId)?.name) || describeEssay(essay, context).studentName;
+
+const issueType = (type?: string) => type || 'Grammar';
+
+// Every issue type that occurs, most frequent first, so the columns are the same for all rows
+const collectIssueTypes = (essays: EssayData[]) => {
+  const counts = new Map<string, number>();
+  essays.forEach((essay) =>
+    exportableIssues(essay.gradingResult!).forEach((issue) => counts.set(issueType(issue.type), (counts.get(issueType(issue.type)) || 0) + 1))
+  );
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([type]) => type);
+};
+
+export const gradebookRows = (essays: EssayData[], context: ReportContext): CsvCell[][] => {
+  const graded = essays.filter((essay) => essay.gradingResult);
+  const types = collectIssueTypes(graded);
+  const header = ['学生', '班级', '作业', '日期', '得分', '满分', '等级', ...types, '问题总数', '词数', '已审核'];
+  const rows = graded.map((essay): CsvCell[] => {
+    const info = describeEssay(essay, context);
+    const result = essay.gradingResult!;
+    const maxScore = resolveMaxScore(result);
+    const issues = exportableIssues(result);
+    return [
+      studentName(essay, context),
+      info.className,
+      info.assignment?.title,
+      info.date,
+      result.score,
+      maxScore,
+      result.grade || getGradeLetter(result.score, maxScore),
+      ...types.map((type) => issues.filter((issue) => issueType(issue.type) === type).length),
+      issues.length,
+      countWords(essay.ocrText || essay.rawText),
+      essay.approvedAt ? '是' : '否'
+    ];
+  });
+  return [header, ...rows];
+};
+
+const essayTime = (essay: EssayData) => essay.addedAt || essay.date || '';
+
+/**
+ * Students as rows, assignments as columns (in the assignment list's order), each cell the
+ * score of the student's latest essay for that assignment. Students are matched by roster id,
+ * otherwise by normalised name, as in the per-student reports.
+ */
+export const gradebookPivot = (essays: EssayData[], context: ReportContext): CsvCell[][] => {
+  const graded = essays.filter((essay) => essay.gradingResult);
+  const columns = context.assignments.filter((assignment) => graded.some((essay) => essay.assignmentId === assignment.id));
+  const hasUnassigned = graded.some((essay) => !columns.some((assignment) => assignment.id === essay.assignmentId));
+  const columnKeys = [...columns.map((assignment) => assignment.id), ...(hasUnassigned ? [''] : [])];
+
+  const students = new Map<string, { name: string; className?: string; latest: Map<string, EssayData> }>();
+  graded.forEach((essay) => {
+    const info = describeEssay(essay, context);
+    const key = essay.studentId || normalizeName(essay.studentName) || essay.id;
+    const student = students.get(key) || { name: studentName(essay, context), className: info.className, latest: new Map() };
+    const column = columns.some((assignment) => assignment.id === essay.assignmentId) ? essay.assignmentId! : '';
+    const previous = student.latest.get(column);
+    if (!previous || essayTime(essay) >= essayTime(previous)) student.latest.set(column, essay);
+    student.className = student.className || info.className;
+    students.set(key, student);
+  });
+
+  const header = ['学生', '班级', ...columns.map((assignment) => assignment.title), ...(hasUnassigned ? [UNASSIGNED_COLUMN] : []), '平均分', '已交作业数'];
+  const rows = Array.from(students.values())
+    .sort((a, b) => (a.className || '').localeCompare(b.className || '', 'zh-CN') || a.name.localeCompare(b.name, 'zh-CN'))
+    .map((student): CsvCell[] => {
+      const scores = columnKeys.map((key) => student.latest.get(key)?.gradingResult?.score);
+      const present = scores.filter((score): score is number => typeof score === 'number');
+      const average = present.length ? Math.round((present.reduce((sum, score) => sum + score, 0) / present.length) * 10) / 10 : undefined;
+      return [student.name, student.className, ...scores, average, present.length];
+    });
+  return [header, ...rows];
+};
+
+export const createGradebook = (essays: EssayData[], context: ReportContext, format: GradebookFormat) => {
+  if (format === 'xlsx') {
+    const bytes = createXlsx([
+      { name: '成绩明细', rows: gradebookRows(essays, context) },
+      { name: '学生×作业', rows: gradebookPivot(essays, context) }
+    ]);
+    return { blob: new Blob([bytes], { type: XLSX_MIME_TYPE }), extension: 'xlsx' };
+  }
+  const rows = format === 'csv-pivot' ? gradebookPivot(essays, context) : gradebookRows(essays, context);
+  return { blob: new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), extension: 'csv' };
+};
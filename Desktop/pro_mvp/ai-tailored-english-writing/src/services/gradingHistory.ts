@@ -0,0 +1,166 @@
+/**
+ * 批改历史
+ * 每次AI批改保存为一个版本（时间、服务商/模型、批改配置快照、模型结果）；被重改或恢复替换前，
+ * 老师对当前版本的修改一并存入该版本，所以任何一次结果都可以查看、恢复，或与另一次逐项对比。
+ */
+
+import { AgentConfig, Assignment, EssayData, GradingConfigSnapshot, GradingRevision, GradingSchema, GrammarIssue, ProcessingStatus } from '../types';
+import { anchorIssues } from './issueAnchoring';
+import { exportableIssues, exportableListItems } from './review';
+import { resolveMaxScore } from './rubric';
+
+// Oldest runs are dropped beyond this; results are small, but every one is kept in storage
+export const MAX_GRADING_REVISIONS = 20;
+
+const createRevisionId = () => `rev-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const snapshotConfig = ({ level, criteria, rubric, prompts, examPresetId, generateRevision }: AgentConfig): GradingConfigSnapshot => ({
+  level,
+  criteria,
+  rubric,
+  prompts,
+  examPresetId,
+  generateRevision
+});
+
+// Offsets follow the transcript, so re-anchoring alone is not an edit
+const withoutAnchors = (result: GradingSchema) => ({
+  ...result,
+  grammar_issues: (result.grammar_issues || []).map(({ start, end, unlocated, ...issue }) => issue)
+});
+
+const sameResult = (a: GradingSchema, b: GradingSchema) => JSON.stringify(withoutAnchors(a)) === JSON.stringify(withoutAnchors(b));
+
+// The result a revision stands for: the teacher's version if there is one
+export const revisionResult = (revision: GradingRevision) => revision.editedResult || revision.result;
+
+/**
+ * The history with the teacher's current edits stored on the revision being shown, so they
+ * survive a re-grade or restore
+ */
+const settleHistory = (essay: EssayData): GradingRevision[] =>
+  (essay.gradingHistory || []).map((revision) => {
+    if (revision.id !== essay.gradingRevisionId || !essay.gradingResult) return revision;
+    const { editedResult, ...rest } = revision;
+    return sameResult(essay.gradingResult, revision.result) ? rest : { ...rest, editedResult: essay.gradingResult };
+  });
+
+/**
+ * History fields after a finished grading run: `config` is the resolved grading config
+ * (global or the assignment's) the run used.
+ */
+export const recordGradingRun = (
+  essay: EssayData,
+  result: GradingSchema,
+  config: AgentConfig,
+  assignment?: Assignment
+): Pick<EssayData, 'gradingHistory' | 'gradingRevisionId'> => {
+  const revision: GradingRevision = {
+    id: createRevisionId(),
+    gradedAt: new Date().toISOString(),
+    provider: config.model.provider,
+    model: config.model.model,
+    assignmentId: assignment?.id,
+    assignmentTitle: assignment?.title,
+    config: snapshotConfig(config),
+    result
+  };
+  return { gradingHistory: [...settleHistory(essay), revision].slice(-MAX_GRADING_REVISIONS), gradingRevisionId: revision.id };
+};
+
+/**
+ * For edits that make the shown result obsolete (page changes): keep its edits in the history
+ * and detach it, so it can still be restored later
+ */
+export const detachGrading = (essay: EssayData): Pick<EssayData, 'gradingHistory' | 'gradingRevisionId'> => ({
+  gradingHistory: essay.gradingHistory && settleHistory(essay),
+  gradingRevisionId: undefined
+});
+
+/**
+ * Show an earlier revision again, also after a failed re-grade. Corrections are re-anchored,
+ * since the transcript may have changed since that run; the sign-off does not carry over.
+ */
+export const restoreRevision = (essay: EssayData, revisionId: string): Partial<EssayData> | undefined => {
+  const history = settleHistory(essay);
+  const revision = history.find((item) => item.id === revisionId);
+  if (!revision) return undefined;
+  const result = revisionResult(revision);
+  return {
+    gradingHistory: history,
+    gradingRevisionId: revision.id,
+    gradingResult: { ...result, grammar_issues: anchorIssues(essay.ocrText || essay.rawText || '', result.grammar_issues) },
+    approvedAt: undefined,
+    status: ProcessingStatus.COMPLETED,
+    gradingStatus: 'done',
+    progressStep: 'done',
+    progressMessage: `已恢复第 ${history.indexOf(revision) + 1} 次批改`,
+    errorMessage: undefined
+  };
+};
+
+// What the essay shows for a revision: the live result (with unsaved edits) for the current one
+export const displayedResult = (essay: EssayData, revision: GradingRevision) =>
+  revision.id === essay.gradingRevisionId && essay.gradingResult ? essay.gradingResult : revisionResult(revision);
+
+export const isRevisionEdited = (essay: EssayData, revision: GradingRevision) =>
+  !sameResult(displayedResult(essay, revision), revision.result);
+
+export interface ChangedIssue {
+  before: GrammarIssue;
+  after: GrammarIssue;
+}
+
+export interface GradingComparison {
+  score: { before: number; after: number; maxBefore: number; maxAfter: number };
+  dimensions: { id: string; name: string; before?: number; after?: number }[];
+  issues: { added: GrammarIssue[]; removed: GrammarIssue[]; changed: ChangedIssue[]; unchanged: number };
+  strengths: { added: string[]; removed: string[] };
+  improvements: { added: string[]; removed: string[] };
+}
+
+const issueKey = (issue: GrammarIssue) => issue.original.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sameCorrection = (a: GrammarIssue, b: GrammarIssue) =>
+  a.correction.trim() === b.correction.trim() && (a.type || 'Grammar') === (b.type || 'Grammar');
+
+const diffLists = (before: string[], after: string[]) => {
+  const normalize = (item: string) => item.trim().toLowerCase();
+  const beforeSet = new Set(before.map(normalize));
+  const afterSet = new Set(after.map(normalize));
+  return {
+    added: after.filter((item) => !beforeSet.has(normalize(item))),
+    removed: before.filter((item) => !afterSet.has(normalize(item)))
+  };
+};
+
+/**
+ * Differences from `before` to `after`. Corrections are paired by the phrase they mark
+ * (repeated phrases in order); rejected corrections and comments are left out, as in reports.
+ */
+export const compareResults = (before: GradingSchema, after: GradingSchema): GradingComparison => {
+  const unmatched = new Map<string, GrammarIssue[]>();
+  exportableIssues(before).forEach((issue) => unmatched.set(issueKey(issue), [...(unmatched.get(issueKey(issue)) || []), issue]));
+  const added: GrammarIssue[] = [];
+  const changed: ChangedIssue[] = [];
+  let unchanged = 0;
+  exportableIssues(after).forEach((issue) => {
+    const candidates = unmatched.get(issueKey(issue));
+    const previous = candidates?.shift();
+    if (!previous) added.push(issue);
+    else if (sameCorrection(previous, issue)) unchanged += 1;
+    else changed.push({ before: previous, after: issue });
+  });
+
+  const dimensions = [...(after.rubric || []), ...(before.rubric || [])]
+    .filter((dimension, index, all) => all.findIndex((item) => item.id === dimension.id) === index)
+    .map(({ id, name }) => ({ id, name, before: before.dimension_scores?.[id], after: after.dimension_scores?.[id] }));
+
+  return {
+    score: { before: before.score, after: after.score, maxBefore: resolveMaxScore(before), maxAfter: resolveMaxScore(after) },
+    dimensions,
+    issues: { added, removed: Array.from(unmatched.values()).flat(), changed, unchanged },
+    strengths: diffLists(exportableListItems(before, 'strengths'), exportableListItems(after, 'strengths')),
+    improvements: diffLists(exportableListItems(before, 'improvements'), exportableListItems(after, 'improvements'))
+  };
+};
@@ -0,0 +1,242 @@
+import { GradingCriteria, GradingSchema, GrammarIssue, RubricDimension } from "../types";
+import { computeWeightedTotal } from "./rubric";
+
+// Shape of the JSON object the grading prompt asks the model to return.
+export interface AgentOutput {
+  studentName?: string;
+  date?: string;
+  ocrText?: string;
+  gradingResult: GradingSchema;
+}
+
+export interface ValidationOutcome {
+  value?: AgentOutput; // Only set when there are no errors
+  errors: string[];
+  warnings: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toOptionalString = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string") {
+    // Accept "15", "15.5分", "15/20" – the first number wins
+    const match = value.match(/-?\d+(?:\.\d+)?/);
+    return match ? Number.parseFloat(match[0]) : undefined;
+  }
+  return undefined;
+};
+
+const toStringList = (value: unknown, path: string, warnings: string[]): string[] | undefined => {
+  if (value === null || value === undefined) {
+    warnings.push(`${path} 缺失，已按空列表处理`);
+    return [];
+  }
+  if (typeof value === "string") {
+    warnings.push(`${path} 不是数组，已转换为单项列表`);
+    return value.trim() ? [value.trim()] : [];
+  }
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .map((item) => (isPlainObject(item) ? toOptionalString(item.text ?? item.content) : toOptionalString(item)))
+    .filter((item): item is string => Boolean(item));
+};
+
+const toIssueList = (value: unknown, warnings: string[], errors: string[]): GrammarIssue[] => {
+  if (value === null || value === undefined) {
+    warnings.push("gradingResult.grammar_issues 缺失，已按空列表处理");
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push("gradingResult.grammar_issues 必须是数组");
+    return [];
+  }
+
+  const issues: GrammarIssue[] = [];
+  value.forEach((item, index) => {
+    if (!isPlainObject(item)) {
+      warnings.push(`gradingResult.grammar_issues[${index}] 不是对象，已忽略`);
+      return;
+    }
+    const original = toOptionalString(item.original) || "";
+    const correction = toOptionalString(item.correction) || "";
+    if (!original && !correction) {
+      warnings.push(`gradingResult.grammar_issues[${index}] 缺少 original/correction，已忽略`);
+      return;
+    }
+    issues.push({
+      type: toOptionalString(item.type) || "Grammar",
+      original,
+      correction,
+      explanation: toOptionalString(item.explanation) || ""
+    });
+  });
+  return issues;
+};
+
+const toDimensionScores = (
+  value: unknown,
+  rubric: RubricDimension[],
+  warnings: string[]
+): Record<string, number> | undefined => {
+  if (rubric.length === 0) return undefined;
+  if (!isPlainObject(value)) {
+    warnings.push("gradingResult.dimension_scores 缺失，总分保留模型给出的 score");
+    return undefined;
+  }
+
+  const scores: Record<string, number> = {};
+  rubric.forEach((dim) => {
+    // Accept the dimension id or its display name as key
+    const rawScore = value[dim.id] ?? value[dim.name];
+    const score = toNumber(rawScore);
+    if (score === undefined) {
+      warnings.push(`gradingResult.dimension_scores.${dim.id} 缺失或不是数字`);
+      return;
+    }
+    const clamped = Math.min(Math.max(score, 0), dim.maxPoints);
+    if (clamped !== score) {
+      warnings.push(`gradingResult.dimension_scores.${dim.id} ${score} 超出 0-${dim.maxPoints}，已截断为 ${clamped}`);
+    }
+    scores[dim.id] = clamped;
+  });
+  return Object.keys(scores).length ? scores : undefined;
+};
+
+/**
+ * Pull the JSON object out of a model reply: strips ```json fences and any prose
+ * before/after the outermost braces. Returns null when no balanced object exists.
+ */
+export const extractJsonPayload = (raw: string): string | null => {
+  if (!raw) return null;
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = fenced ? fenced[1] : raw;
+  const start = text.indexOf("{");
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i += 1) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{") depth += 1;
+    else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+/**
+ * Validate the raw model reply against the GradingSchema contract.
+ * Recoverable problems (string numbers, null lists, out-of-range scores) are coerced
+ * and reported as warnings; anything else is returned as errors for a repair pass.
+ * When every rubric dimension is scored, the total is recomputed from the weights.
+ */
+export const validateAgentOutput = (
+  raw: string,
+  criteria: GradingCriteria,
+  rubric: RubricDimension[] = []
+): ValidationOutcome => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const payload = extractJsonPayload(raw);
+  if (!payload) {
+    return { errors: ["模型输出中未找到 JSON 对象"], warnings };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch (err: any) {
+    return { errors: [`JSON 解析失败：${err?.message || "invalid JSON"}`], warnings };
+  }
+
+  if (!isPlainObject(parsed)) {
+    return { errors: ["模型输出不是 JSON 对象"], warnings };
+  }
+
+  // Some models flatten the result and drop the gradingResult wrapper
+  let grading: unknown = parsed.gradingResult;
+  if (grading === undefined && ("score" in parsed || "summary_cn" in parsed)) {
+    warnings.push("缺少 gradingResult 包裹，已使用顶层字段");
+    grading = parsed;
+  }
+  if (!isPlainObject(grading)) {
+    return { errors: ["gradingResult 缺失或不是对象"], warnings };
+  }
+
+  let score = toNumber(grading.score);
+  if (score === undefined) {
+    errors.push("gradingResult.score 缺失或不是数字");
+  } else {
+    const maxScore = criteria.maxScore > 0 ? criteria.maxScore : score;
+    const clamped = Math.min(Math.max(score, 0), maxScore);
+    if (clamped !== score) {
+      warnings.push(`gradingResult.score ${score} 超出 0-${maxScore}，已截断为 ${clamped}`);
+      score = clamped;
+    }
+  }
+
+  const summary = toOptionalString(grading.summary_cn);
+  if (!summary) errors.push("gradingResult.summary_cn 缺失或为空");
+
+  const strengths = toStringList(grading.strengths, "gradingResult.strengths", warnings);
+  if (!strengths) errors.push("gradingResult.strengths 必须是字符串数组");
+  const improvements = toStringList(grading.improvements, "gradingResult.improvements", warnings);
+  if (!improvements) errors.push("gradingResult.improvements 必须是字符串数组");
+
+  const grammarIssues = toIssueList(grading.grammar_issues, warnings, errors);
+  const dimensionScores = toDimensionScores(grading.dimension_scores, rubric, warnings);
+
+  if (errors.length > 0) return { errors, warnings };
+
+  const weightedTotal = computeWeightedTotal(rubric, dimensionScores, criteria.maxScore, criteria.scoreStep);
+  if (weightedTotal !== undefined) score = weightedTotal;
+
+  const gradingResult: GradingSchema = {
+    score: score as number,
+    summary_cn: summary as string,
+    strengths: strengths as string[],
+    improvements: improvements as string[],
+    grammar_issues: grammarIssues,
+    maxScore: criteria.maxScore
+  };
+  if (criteria.scoreStep) gradingResult.scoreStep = criteria.scoreStep;
+  if (dimensionScores) {
+    gradingResult.dimension_scores = dimensionScores;
+    gradingResult.rubric = rubric;
+  }
+  const grade = toOptionalString(grading.grade);
+  if (grade) gradingResult.grade = grade;
+
+  return {
+    errors,
+    warnings,
+    value: {
+      studentName: toOptionalString(parsed.studentName),
+      date: toOptionalString(parsed.date),
+      ocrText: typeof parsed.ocrText === "string" ? parsed.ocrText : undefined,
+      gradingResult
+    }
+  };
+};
+
+export const formatValidationErrors = (errors: string[]) =>
+  `AI返回结果校验失败（已尝试自动修复）：\n${errors.map((reason) => `- ${reason}`).join("\n")}`;
@@ -1,4 +1,5 @@
 import { HANDWRITING_OCR_API_KEY, HANDWRITING_OCR_BASE_URL, OCR_SAVE_ENDPOINT } from "./config";
+import { createRateLimitError, parseRetryAfter } from "./processingQueue";
 
 const API_BASE = HANDWRITING_OCR_BASE_URL || "https://www.handwritingocr.com/api/v3";
 
@@ -61,9 +62,17 @@ const uploadDocument = async (file: File, signal?: AbortSignal): Promise<string>
     signal
   });
 
-  const data = await response.json();
+  let data: any = {};
+  try {
+    data = await response.json();
+  } catch (err) {
+    data = {};
+  }
   if (!response.ok) {
     const detail = data?.message || data?.errors?.[0];
+    if (response.status === 429) {
+      throw createRateLimitError(detail || "OCR upload rate limited", parseRetryAfter(response.headers?.get("retry-after")));
+    }
     throw new Error(detail || "OCR upload failed");
   }
 
@@ -95,11 +104,7 @@ const fetchDocumentStatus = async (id: string, signal?: AbortSignal): Promise<Do
     data = {};
   }
 
-  const retryAfterHeader = response.headers?.get("retry-after");
-  const retryAfterMs =
-    retryAfterHeader && !Number.isNaN(Number.parseFloat(retryAfterHeader))
-      ? Number.parseFloat(retryAfterHeader) * 1000
-      : undefined;
+  const retryAfterMs = parseRetryAfter(response.headers?.get("retry-after"));
 
   return {
     status: data?.status || (response.status === 202 ? "processing" : undefined),
@@ -266,9 +271,24 @@ const persistMarkdownRemote = async (
   }
 };
 
+// Documents are uploaded with delete_after=7 days; older ids are not worth polling
+export const OCR_DOCUMENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const canResumeDocument = (uploadedAt?: string, now = Date.now()) => {
+  const uploaded = uploadedAt ? Date.parse(uploadedAt) : Number.NaN;
+  return !Number.isNaN(uploaded) && now - uploaded < OCR_DOCUMENT_TTL_MS;
+};
+
 export const transcribeHandwriting = async (
   file: File,
-  options: { pollIntervalMs?: number; maxAttempts?: number; maxWaitMs?: number; signal?: AbortSignal } = {}
+  options: {
+    pollIntervalMs?: number;
+    maxAttempts?: number;
+    maxWaitMs?: number;
+    signal?: AbortSignal;
+    documentId?: string; // Resume polling an earlier upload instead of paying for a new one
+    onUploaded?: (documentId: string) => void;
+  } = {}
 ): Promise<string> => {
   const { signal } = options;
   const pollIntervalMs = options.pollIntervalMs ?? 2000;
@@ -278,7 +298,18 @@ export const transcribeHandwriting = async (
   const startedAt = Date.now();
 
   throwIfCancelled(signal);
-  const documentId = await uploadDocument(file, signal);
+  let documentId = options.documentId;
+  if (documentId) {
+    const existing = await fetchDocumentStatus(documentId, signal);
+    if (existing.httpStatus === 404 || existing.status === "failed") {
+      console.warn(`OCR document ${documentId} is gone (${existing.httpStatus}/${existing.status}); uploading again`);
+      documentId = undefined;
+    }
+  }
+  if (!documentId) {
+    documentId = await uploadDocument(file, signal);
+    options.onUploaded?.(documentId);
+  }
 
   let attempt = 0;
   let dynamicDelay = pollIntervalMs;
@@ -0,0 +1,530 @@
+/**
+ * 图片预处理（浏览器 canvas，不上传）
+ * 解码时按 EXIF 方向摆正 → 手动旋转/裁剪 → 纸张透视裁剪 → 纠偏 → 缩放 → 灰度与对比度 → JPEG
+ * 纸张与倾斜角的检测在缩小的分析图上完成，变换作用在输出分辨率上
+ */
+
+import { ImageEdit, ImagePreprocessSettings } from '../types';
+
+export const DEFAULT_PREPROCESS_SETTINGS: ImagePreprocessSettings = {
+  enabled: true,
+  autoCrop: true,
+  deskew: true,
+  grayscale: true,
+  contrast: 0.6,
+  maxDimension: 2000,
+  quality: 0.85
+};
+
+export interface PreprocessResult {
+  file: File;
+  width: number;
+  height: number;
+  steps: string[]; // What changed, for the card summary
+}
+
+type Point = { x: number; y: number };
+
+interface GrayImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Detection runs on a copy whose longest edge is this many pixels
+const ANALYSIS_SIZE = 600;
+const DESKEW_SIZE = 1000;
+const MAX_SKEW_DEGREES = 8;
+// Below this the rotation would only blur the text
+const MIN_SKEW_DEGREES = 0.3;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const context2d = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('浏览器不支持 canvas 图片处理');
+  return ctx;
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * EXIF orientation of a JPEG (1 = upright). Decoding already applies it; this only
+ * tells the summary whether the photo was turned.
+ */
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  try {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.getUint16(0) !== 0xffd8) return 1;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00) return 1;
+      // APP1 segment starting with "Exif"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i += 1) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+        }
+        return 1;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or non-standard metadata: treat as upright
+  }
+  return 1;
+};
+
+// Browsers apply EXIF orientation when decoding; drawing to canvas bakes it into the pixels
+const drawUpright = async (file: Blob): Promise<HTMLCanvasElement> => {
+  let source: CanvasImageSource;
+  let width: number;
+  let height: number;
+  let release = () => {};
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    source = bitmap;
+    width = bitmap.width;
+    height = bitmap.height;
+    release = () => bitmap.close();
+  } catch {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.src = url;
+    try {
+      await img.decode();
+    } catch {
+      URL.revokeObjectURL(url);
+      throw new Error('无法读取图片，文件可能已损坏或格式不受支持');
+    }
+    source = img;
+    width = img.naturalWidth;
+    height = img.naturalHeight;
+    release = () => URL.revokeObjectURL(url);
+  }
+  const canvas = createCanvas(width, height);
+  context2d(canvas).drawImage(source, 0, 0);
+  release();
+  return canvas;
+};
+
+const scaleCanvas = (canvas: HTMLCanvasElement, maxDimension: number) => {
+  const scale = maxDimension / Math.max(canvas.width, canvas.height);
+  if (!(scale < 1)) return canvas;
+  const scaled = createCanvas(canvas.width * scale, canvas.height * scale);
+  const ctx = context2d(scaled);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, scaled.width, scaled.height);
+  return scaled;
+};
+
+// Rotate clockwise, growing the canvas to fit and filling the corners with paper white
+const rotateCanvas = (canvas: HTMLCanvasElement, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const rotated = createCanvas(canvas.width * cos + canvas.height * sin, canvas.width * sin + canvas.height * cos);
+  const ctx = context2d(rotated);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, rotated.width, rotated.height);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate(radians);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return rotated;
+};
+
+const cropCanvas = (canvas: HTMLCanvasElement, crop: NonNullable<ImageEdit['crop']>) => {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const x = clamp(crop.x) * canvas.width;
+  const y = clamp(crop.y) * canvas.height;
+  const width = Math.max(1, Math.min(clamp(crop.width) * canvas.width, canvas.width - x));
+  const height = Math.max(1, Math.min(clamp(crop.height) * canvas.height, canvas.height - y));
+  const cropped = createCanvas(width, height);
+  context2d(cropped).drawImage(canvas, x, y, width, height, 0, 0, cropped.width, cropped.height);
+  return cropped;
+};
+
+const toGray = (canvas: HTMLCanvasElement, maxDimension: number): GrayImage & { scale: number } => {
+  const small = scaleCanvas(canvas, maxDimension);
+  const { data } = context2d(small).getImageData(0, 0, small.width, small.height);
+  const gray = new Uint8Array(small.width * small.height);
+  for (let i = 0, p = 0; i < gray.length; i += 1, p += 4) {
+    gray[i] = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000;
+  }
+  return { data: gray, width: small.width, height: small.height, scale: small.width / canvas.width };
+};
+
+const otsuThreshold = (gray: Uint8Array) => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach((value) => {
+    histogram[value] += 1;
+  });
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i += 1) sum += i * histogram[i];
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let i = 0; i < 256; i += 1) {
+    weightBackground += histogram[i];
+    if (!weightBackground) continue;
+    const weightForeground = total - weightBackground;
+    if (!weightForeground) break;
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = i;
+    }
+  }
+  return threshold;
+};
+
+const polygonArea = (points: Point[]) =>
+  Math.abs(points.reduce((acc, point, i) => {
+    const next = points[(i + 1) % points.length];
+    return acc + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+/**
+ * Corners (TL, TR, BR, BL) of the sheet of paper: the largest bright region, when it is
+ * clearly a quadrilateral smaller than the frame. Undefined when the photo is already
+ * just the page or no sheet stands out.
+ */
+const detectPaperQuad = ({ data, width, height }: GrayImage): Point[] | undefined => {
+  const threshold = otsuThreshold(data);
+  const labels = new Int32Array(width * height).fill(-1);
+  const stack = new Int32Array(width * height);
+  let bestLabel = -1;
+  let bestSize = 0;
+  let label = 0;
+
+  for (let start = 0; start < labels.length; start += 1) {
+    if (labels[start] !== -1 || data[start] <= threshold) continue;
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const index = stack[--top];
+      size += 1;
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width
+      ];
+      for (const next of neighbours) {
+        if (next < 0 || next >= labels.length || labels[next] !== -1 || data[next] <= threshold) continue;
+        labels[next] = label;
+        stack[top++] = next;
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+    label += 1;
+  }
+
+  const imageArea = width * height;
+  if (bestLabel < 0 || bestSize < imageArea * 0.15) return undefined;
+
+  // Extremes of x+y and x-y give the four corners of a roughly upright quadrilateral
+  let tl = { x: 0, y: 0 };
+  let tr = tl;
+  let br = tl;
+  let bl = tl;
+  let minSum = Infinity;
+  let maxSum = -Infinity;
+  let minDiff = Infinity;
+  let maxDiff = -Infinity;
+  for (let index = 0; index < labels.length; index += 1) {
+    if (labels[index] !== bestLabel) continue;
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x + y < minSum) { minSum = x + y; tl = { x, y }; }
+    if (x + y > maxSum) { maxSum = x + y; br = { x, y }; }
+    if (x - y > maxDiff) { maxDiff = x - y; tr = { x, y }; }
+    if (x - y < minDiff) { minDiff = x - y; bl = { x, y }; }
+  }
+
+  const quad = [tl, tr, br, bl];
+  const quadArea = polygonArea(quad);
+  if (quadArea > imageArea * 0.92 || quadArea < imageArea * 0.15) return undefined;
+  // Text and ruling are holes in the bright region, so it will not fill the whole quad
+  if (bestSize < quadArea * 0.55) return undefined;
+  return quad;
+};
+
+// Homography taking the unit rectangle (0,0)-(w,h) onto the quad (TL, TR, BR, BL)
+const solveHomography = (width: number, height: number, quad: Point[]) => {
+  const from = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const rows: number[][] = [];
+  from.forEach((src, i) => {
+    const dst = quad[i];
+    rows.push([src.x, src.y, 1, 0, 0, 0, -src.x * dst.x, -src.y * dst.x, dst.x]);
+    rows.push([0, 0, 0, src.x, src.y, 1, -src.x * dst.y, -src.y * dst.y, dst.y]);
+  });
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let col = 0; col < 8; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row += 1) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    const divisor = rows[col][col];
+    if (Math.abs(divisor) < 1e-12) return undefined;
+    for (let k = col; k < 9; k += 1) rows[col][k] /= divisor;
+    for (let row = 0; row < 8; row += 1) {
+      if (row === col) continue;
+      const factor = rows[row][col];
+      for (let k = col; k < 9; k += 1) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return [...rows.map((row) => row[8]), 1];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const warpPerspective = (canvas: HTMLCanvasElement, quad: Point[]) => {
+  const width = Math.round(Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2])));
+  const height = Math.round(Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2])));
+  const h = solveHomography(width, height, quad);
+  if (!h || width < 10 || height < 10) return undefined;
+
+  const source = context2d(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  const output = createCanvas(width, height);
+  const ctx = context2d(output);
+  const target = ctx.createImageData(output.width, output.height);
+  const src = source.data;
+  const dst = target.data;
+  const srcWidth = source.width;
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < output.height; y += 1) {
+    for (let x = 0; x < output.width; x += 1) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = Math.min(maxX, Math.max(0, (h[0] * x + h[1] * y + h[2]) / w));
+      const sy = Math.min(maxY, Math.max(0, (h[3] * x + h[4] * y + h[5]) / w));
+      // Bilinear sample
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const p00 = (y0 * srcWidth + x0) * 4;
+      const p10 = (y0 * srcWidth + x1) * 4;
+      const p01 = (y1 * srcWidth + x0) * 4;
+      const p11 = (y1 * srcWidth + x1) * 4;
+      const out = (y * output.width + x) * 4;
+      for (let c = 0; c < 3; c += 1) {
+        const top = src[p00 + c] + (src[p10 + c] - src[p00 + c]) * fx;
+        const bottom = src[p01 + c] + (src[p11 + c] - src[p01 + c]) * fx;
+        dst[out + c] = top + (bottom - top) * fy;
+      }
+      dst[out + 3] = 255;
+    }
+  }
+  ctx.putImageData(target, 0, 0);
+  return output;
+};
+
+/**
+ * Clockwise rotation (degrees) that makes the text lines horizontal: the angle whose
+ * horizontal projection of dark pixels is the most peaked
+ */
+const estimateSkew = ({ data, width, height }: GrayImage) => {
+  const threshold = otsuThreshold(data);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  // Ignore a small border where shadows and the paper edge live
+  const marginX = Math.round(width * 0.04);
+  const marginY = Math.round(height * 0.04);
+  const darkCount = data.reduce((count, value) => count + (value <= threshold ? 1 : 0), 0);
+  const step = Math.max(1, Math.floor(darkCount / 40000));
+  let seen = 0;
+  for (let y = marginY; y < height - marginY; y += 1) {
+    for (let x = marginX; x < width - marginX; x += 1) {
+      if (data[y * width + x] > threshold) continue;
+      seen += 1;
+      if (seen % step) continue;
+      xs.push(x - width / 2);
+      ys.push(y - height / 2);
+    }
+  }
+  if (xs.length < 200) return 0;
+
+  const bins = Math.ceil(Math.hypot(width, height)) + 2;
+  const offset = bins / 2;
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const histogram = new Float64Array(bins);
+    for (let i = 0; i < xs.length; i += 1) {
+      histogram[Math.round(xs[i] * sin + ys[i] * cos + offset)] += 1;
+    }
+    let total = 0;
+    for (let i = 0; i < bins; i += 1) total += histogram[i] * histogram[i];
+    return total;
+  };
+
+  const search = (from: number, to: number, stepDegrees: number, start: number) => {
+    let best = start;
+    let bestScore = score(start);
+    for (let angle = from; angle <= to + 1e-9; angle += stepDegrees) {
+      const value = score(angle);
+      if (value > bestScore) {
+        bestScore = value;
+        best = angle;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5, 0);
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1, coarse) * 10) / 10;
+};
+
+// Percentile-based levels stretch, blended with the original by `amount`
+const adjustTone = (canvas: HTMLCanvasElement, grayscale: boolean, amount: number) => {
+  const ctx = context2d(canvas);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const pixels = data.length / 4;
+  const histogram = new Array<number>(256).fill(0);
+  for (let p = 0; p < data.length; p += 4) {
+    histogram[Math.round((data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000)] += 1;
+  }
+  const percentile = (fraction: number) => {
+    let count = 0;
+    for (let i = 0; i < 256; i += 1) {
+      count += histogram[i];
+      if (count >= pixels * fraction) return i;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+  const range = Math.max(1, high - low);
+  const stretch = (value: number) => {
+    const stretched = Math.min(255, Math.max(0, ((value - low) * 255) / range));
+    return value + (stretched - value) * amount;
+  };
+  for (let p = 0; p < data.length; p += 4) {
+    if (grayscale) {
+      const value = stretch((data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000);
+      data[p] = value;
+      data[p + 1] = value;
+      data[p + 2] = value;
+    } else {
+      data[p] = stretch(data[p]);
+      data[p + 1] = stretch(data[p + 1]);
+      data[p + 2] = stretch(data[p + 2]);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const toJpegFile = (canvas: HTMLCanvasElement, name: string, quality: number) =>
+  new Promise<File>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('图片编码失败'));
+          return;
+        }
+        resolve(new File([blob], `${name.replace(/\.[^.]+$/, '') || 'page'}.jpg`, { type: 'image/jpeg' }));
+      },
+      'image/jpeg',
+      Math.min(1, Math.max(0.3, quality))
+    );
+  });
+
+/**
+ * Clean up a photo of an essay for OCR and storage. Manual edits (rotation, crop)
+ * are applied first; the automatic steps follow the settings.
+ */
+export const preprocessImage = async (
+  file: File,
+  settings: ImagePreprocessSettings = DEFAULT_PREPROCESS_SETTINGS,
+  edit?: ImageEdit
+): Promise<PreprocessResult> => {
+  const steps: string[] = [];
+  const [orientation, upright] = await Promise.all([readExifOrientation(file), drawUpright(file)]);
+  if (orientation > 1) steps.push('EXIF 方向已校正');
+
+  // Keep some headroom for the crop before the final resize
+  let canvas = scaleCanvas(upright, settings.maxDimension * 1.5);
+
+  const rotation = ((edit?.rotation || 0) % 360 + 360) % 360;
+  if (rotation) {
+    canvas = rotateCanvas(canvas, rotation);
+    steps.push(`旋转 ${Math.round(rotation * 10) / 10}°`);
+  }
+  if (edit?.crop) {
+    canvas = cropCanvas(canvas, edit.crop);
+    steps.push('手动裁剪');
+  }
+
+  if (settings.autoCrop && !edit?.crop) {
+    const gray = toGray(canvas, ANALYSIS_SIZE);
+    const quad = detectPaperQuad(gray);
+    const warped = quad && warpPerspective(canvas, quad.map((point) => ({ x: point.x / gray.scale, y: point.y / gray.scale })));
+    if (warped) {
+      canvas = warped;
+      steps.push('透视裁剪纸张');
+    }
+  }
+
+  if (settings.deskew) {
+    const skew = estimateSkew(toGray(canvas, DESKEW_SIZE));
+    if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+      canvas = rotateCanvas(canvas, skew);
+      steps.push(`纠偏 ${skew > 0 ? '+' : ''}${skew}°`);
+    }
+  }
+
+  const longest = Math.max(canvas.width, canvas.height);
+  if (longest > settings.maxDimension) {
+    canvas = scaleCanvas(canvas, settings.maxDimension);
+    steps.push(`缩放至 ${settings.maxDimension}px`);
+  }
+
+  if (settings.grayscale || settings.contrast > 0) {
+    adjustTone(canvas, settings.grayscale, Math.min(1, Math.max(0, settings.contrast)));
+    if (settings.grayscale) steps.push('灰度');
+    if (settings.contrast > 0) steps.push('增强对比度');
+  }
+
+  const processed = await toJpegFile(canvas, file.name, settings.quality);
+  steps.push(`${formatSize(file.size)} → ${formatSize(processed.size)}`);
+  return { file: processed, width: canvas.width, height: canvas.height, steps };
+};
+
+// Manual rotation only, as the base the crop editor draws on
+export const renderRotated = (file: File, rotation: number, maxDimension = 1200) =>
+  preprocessImage(
+    file,
+    { enabled: true, autoCrop: false, deskew: false, grayscale: false, contrast: 0, maxDimension, quality: 0.9 },
+    { rotation }
+  );
@@ -0,0 +1,135 @@
+/**
+ * Minimal promise wrapper around the browser IndexedDB API.
+ * Essays, image blobs and app config live in separate object stores so an edit to one
+ * essay only rewrites that essay's record.
+ */
+
+const DB_NAME = 'essayflow_ai';
+const DB_VERSION = 1;
+
+export const ESSAY_STORE = 'essays';
+export const IMAGE_STORE = 'images';
+export const CONFIG_STORE = 'config';
+
+export type StoreName = typeof ESSAY_STORE | typeof IMAGE_STORE | typeof CONFIG_STORE;
+
+export interface StoredImage {
+  id: string; // Image key; equals the essay id for single-image submissions
+  essayId: string;
+  blob: Blob;
+  name?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isIndexedDbAvailable()) return Promise.reject(new Error('IndexedDB is not available'));
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ESSAY_STORE)) {
+        db.createObjectStore(ESSAY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+        const images = db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        images.createIndex('essayId', 'essayId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(CONFIG_STORE)) {
+        db.createObjectStore(CONFIG_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  }).catch((err) => {
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+};
+
+/**
+ * Run `work` inside one transaction and resolve once it has committed. If `work` throws, the
+ * transaction is aborted so none of its writes are kept, and the error is rethrown.
+ */
+export const runTransaction = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+  // Awaited below unless `work` fails first; the abort that follows is not a second error
+  done.catch(() => undefined);
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (err) {
+    try {
+      tx.abort();
+    } catch {
+      // Already committed or aborted
+    }
+    throw err;
+  }
+};
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> =>
+  runTransaction([store], 'readonly', (tx) => requestToPromise(tx.objectStore(store).getAll() as IDBRequest<T[]>));
+
+export const getRecord = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  runTransaction([store], 'readonly', (tx) => requestToPromise(tx.objectStore(store).get(key) as IDBRequest<T | undefined>));
+
+export const putRecord = (store: StoreName, value: unknown, key?: IDBValidKey) =>
+  runTransaction([store], 'readwrite', (tx) => {
+    tx.objectStore(store).put(value, key);
+  });
+
+export const clearStores = (stores: StoreName[]) =>
+  runTransaction(stores, 'readwrite', (tx) => {
+    stores.forEach((store) => tx.objectStore(store).clear());
+  });
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const estimateStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (err) {
+    console.warn('Could not estimate storage usage', err);
+    return null;
+  }
+};
+
+// Ask the browser not to evict our data under storage pressure (best effort)
+export const requestPersistentStorage = async () => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  try {
+    if (await navigator.storage.persisted?.()) return true;
+    return await navigator.storage.persist();
+  } catch (err) {
+    return false;
+  }
+};
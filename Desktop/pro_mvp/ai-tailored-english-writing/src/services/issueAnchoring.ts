@@ -0,0 +1,139 @@
+import { GrammarIssue } from "../types";
+
+type Range = { start: number; end: number };
+
+// Below this similarity a fuzzy window is not considered the same phrase
+const FUZZY_THRESHOLD = 0.75;
+
+const normalizeChar = (char: string) => {
+  if (char === "‘" || char === "’") return "'";
+  if (char === "“" || char === "”") return '"';
+  return char.toLowerCase();
+};
+
+/**
+ * Lower-case, unify quotes and collapse whitespace runs, keeping a map from each
+ * normalized character back to its offset in the source text.
+ */
+const normalizeWithMap = (text: string) => {
+  let value = "";
+  const map: number[] = [];
+  let lastWasSpace = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      if (!lastWasSpace && value.length > 0) {
+        value += " ";
+        map.push(i);
+      }
+      lastWasSpace = true;
+      continue;
+    }
+    lastWasSpace = false;
+    value += normalizeChar(char);
+    map.push(i);
+  }
+  return { value: value.trimEnd(), map };
+};
+
+const normalizePhrase = (value: string) =>
+  normalizeWithMap(value)
+    .value.replace(/^[\s.,!?;:"'()]+|[\s.,!?;:"'()]+$/g, "")
+    .trim();
+
+const overlaps = (range: Range, taken: Range[]) =>
+  taken.some((other) => range.start < other.end && other.start < range.end);
+
+const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}'_-]/u.test(char);
+
+// A phrase edge that is part of a word must not continue into a neighbouring letter ("go" in "ago")
+const atWordBoundary = (value: string, index: number, phrase: string) =>
+  (!isWordChar(phrase[0]) || !isWordChar(value[index - 1])) &&
+  (!isWordChar(phrase[phrase.length - 1]) || !isWordChar(value[index + phrase.length]));
+
+const findExact = (text: string, phrase: string, taken: Range[]): Range | undefined => {
+  const { value, map } = normalizeWithMap(text);
+  let index = value.indexOf(phrase);
+  while (index >= 0) {
+    const range = { start: map[index], end: map[index + phrase.length - 1] + 1 };
+    if (atWordBoundary(value, index, phrase) && !overlaps(range, taken)) return range;
+    index = value.indexOf(phrase, index + 1);
+  }
+  return undefined;
+};
+
+const findFuzzy = (text: string, phrase: string, taken: Range[]): Range | undefined => {
+  const tokens = Array.from(text.matchAll(/\S+/g)).map((match) => ({
+    start: match.index as number,
+    end: (match.index as number) + match[0].length
+  }));
+  const phraseTokens = phrase.split(" ").length;
+  let best: { range: Range; score: number } | undefined;
+
+  for (let size = Math.max(1, phraseTokens - 1); size <= phraseTokens + 1; size += 1) {
+    for (let i = 0; i + size <= tokens.length; i += 1) {
+      const range = { start: tokens[i].start, end: tokens[i + size - 1].end };
+      const candidate = normalizePhrase(text.slice(range.start, range.end));
+      if (!candidate) continue;
+      const score = 1 - levenshtein(candidate, phrase) / Math.max(candidate.length, phrase.length);
+      if (score >= FUZZY_THRESHOLD && (!best || score > best.score) && !overlaps(range, taken)) {
+        // Trim punctuation the window picked up around the phrase
+        const raw = text.slice(range.start, range.end);
+        const lead = raw.length - raw.replace(/^[.,!?;:"'()]+/, "").length;
+        const trail = raw.length - raw.replace(/[.,!?;:"'()]+$/, "").length;
+        best = { range: { start: range.start + lead, end: range.end - trail }, score };
+      }
+    }
+  }
+  return best?.range;
+};
+
+/**
+ * Locate one `original` phrase in the text: exact (case/whitespace-insensitive) whole-word match
+ * first, then a word-window fuzzy match. Ranges already claimed by other issues are skipped so
+ * repeated phrases map to successive occurrences.
+ */
+export const locatePhrase = (text: string, original: string, taken: Range[] = []): Range | undefined => {
+  const phrase = normalizePhrase(original || "");
+  if (!text || !phrase) return undefined;
+  return findExact(text, phrase, taken) || (phrase.length >= 3 ? findFuzzy(text, phrase, taken) : undefined);
+};
+
+/**
+ * Recompute start/end offsets for every issue against `text`. Offsets returned by the
+ * model are never trusted; issues that cannot be found are flagged `unlocated`.
+ */
+export const anchorIssues = (text: string, issues: GrammarIssue[] = []): GrammarIssue[] => {
+  const taken: Range[] = [];
+  return issues.map((issue) => {
+    const { start, end, unlocated, ...rest } = issue;
+    const range = locatePhrase(text, issue.original, taken);
+    if (!range) return { ...rest, unlocated: true };
+    taken.push(range);
+    return { ...rest, start: range.start, end: range.end };
+  });
+};
+
+// Stored offsets are only usable while the text they point into is unchanged.
+export const hasValidAnchor = (text: string, issue: GrammarIssue) =>
+  typeof issue.start === "number" &&
+  typeof issue.end === "number" &&
+  issue.start >= 0 &&
+  issue.end > issue.start &&
+  issue.end <= text.length;
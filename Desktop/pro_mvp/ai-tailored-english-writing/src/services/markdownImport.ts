@@ -1,4 +1,5 @@
-import { EssayData, ProcessingStatus } from '../types';
+import { EssayData, ProcessingStatus, Student } from '../types';
+import { applyRosterMatch } from './roster';
 
 interface MarkdownMeta {
   studentName?: string;
@@ -74,7 +75,10 @@ const buildEssayFromFile = async (file: File): Promise<EssayData> => {
   };
 };
 
-export const parseMarkdownFiles = async (files: File[]): Promise<{ essays: EssayData[]; errors: string[] }> => {
+export const parseMarkdownFiles = async (
+  files: File[],
+  roster: Student[] = []
+): Promise<{ essays: EssayData[]; errors: string[] }> => {
   const errors: string[] = [];
   const essays: EssayData[] = [];
 
@@ -85,7 +89,7 @@ export const parseMarkdownFiles = async (files: File[]): Promise<{ essays: Essay
         errors.push(`${file.name}: 文件内容为空`);
         continue;
       }
-      essays.push(essay);
+      essays.push(applyRosterMatch(essay, roster));
     } catch (err: any) {
       errors.push(`${file.name}: ${err?.message || '解析失败'}`);
     }
@@ -1,43 +1,27 @@
-import { ModelSettings } from "../types";
+import { AIProvider, ModelSettings } from "../types";
+import { getProviderAdapter, listProviderAdapters } from "./providerAdapters";
 
 export interface ModelOption extends ModelSettings {
   label: string;
   hint?: string;
 }
 
-export const MODEL_OPTIONS: ModelOption[] = [
-  {
-    provider: "openai",
-    model: "gpt-4o-mini",
-    label: "OpenAI GPT-4o-mini"
-  },
-  {
-    provider: "gemini",
-    model: "gemini-2.5-flash",
-    label: "Gemini 2.5 Flash"
-  },
-  {
-    provider: "deepseek",
-    model: "deepseek-chat",
-    label: "DeepSeek Chat"
-  },
-  {
-    provider: "openrouter",
-    model: "openai/gpt-4o-mini",
-    label: "OpenRouter openai/gpt-4o-mini"
-  }
-];
+// One preset per registered provider adapter, in registration order.
+export const getModelOptions = (): ModelOption[] =>
+  listProviderAdapters().map((adapter) => ({
+    provider: adapter.id,
+    model: adapter.defaultModel,
+    label: adapter.defaultModel ? `${adapter.label} ${adapter.defaultModel}` : adapter.label,
+    hint: adapter.hint
+  }));
 
-export const DEFAULT_MODEL: ModelSettings = MODEL_OPTIONS[0];
-
-export const providerLabels: Record<ModelSettings["provider"], string> = {
-  openai: "OpenAI",
-  gemini: "Gemini",
-  deepseek: "DeepSeek",
-  openrouter: "OpenRouter"
+export const DEFAULT_MODEL: ModelSettings = {
+  provider: "openai",
+  model: getProviderAdapter("openai").defaultModel
 };
 
-export const getDefaultModelForProvider = (provider: ModelSettings["provider"]): string => {
-  const preset = MODEL_OPTIONS.find((opt) => opt.provider === provider);
-  return preset ? preset.model : MODEL_OPTIONS[0].model;
+export const getProviderLabel = (provider: AIProvider): string => getProviderAdapter(provider).label;
+
+export const getDefaultModelForProvider = (provider: AIProvider): string => {
+  return getProviderAdapter(provider).defaultModel;
 };
@@ -0,0 +1,98 @@
+/**
+ * OCR 置信度
+ * 引擎返回的逐词置信度（OcrWord，按阅读顺序）在显示和批改时重新定位到 ocrText，
+ * 老师改过的文字找不到对应词时直接跳过，因此不需要维护偏移量。
+ */
+
+import { EssayData, OcrWord } from "../types";
+
+export const DEFAULT_LOW_CONFIDENCE = 0.6;
+
+// Vision models only say "unsure" or "unreadable", not a number
+const MARKED_UNCERTAIN_CONFIDENCE = 0.3;
+const UNREADABLE_TOKEN = "[?]";
+const UNCERTAIN_MARK = /\[\[([^\]]*)\]\]/g;
+
+export interface OcrSpan {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+}
+
+const isBoundary = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+// Whole whitespace-delimited token only, so "the" is never found inside "there"
+const findToken = (text: string, token: string, from: number) => {
+  let index = text.indexOf(token, from);
+  while (index >= 0) {
+    if (isBoundary(text[index - 1]) && isBoundary(text[index + token.length])) return index;
+    index = text.indexOf(token, index + 1);
+  }
+  return -1;
+};
+
+/**
+ * Place each OCR word in the text, searching forward from the previous match.
+ * Words that no longer appear (e.g. corrected by the teacher) are skipped.
+ */
+export const locateOcrWords = (text: string, words: OcrWord[] = []): OcrSpan[] => {
+  const spans: OcrSpan[] = [];
+  let cursor = 0;
+  for (const word of words) {
+    const token = word.text.trim();
+    if (!token) continue;
+    const start = findToken(text, token, cursor);
+    if (start < 0) continue;
+    const end = start + token.length;
+    spans.push({ start, end, text: token, confidence: word.confidence });
+    cursor = end;
+  }
+  return spans;
+};
+
+export const resolveLowConfidenceThreshold = (threshold?: number) =>
+  typeof threshold === "number" && threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_LOW_CONFIDENCE;
+
+export const findUncertainSpans = (text: string, words?: OcrWord[], threshold?: number): OcrSpan[] => {
+  if (!text || !words?.length) return [];
+  const limit = resolveLowConfidenceThreshold(threshold);
+  return locateOcrWords(text, words).filter((span) => span.confidence < limit);
+};
+
+/**
+ * Distinct uncertain tokens still present in the text that will be graded
+ */
+export const listUncertainWords = (essay: Pick<EssayData, "ocrWords">, text: string, threshold?: number): string[] =>
+  Array.from(new Set(findUncertainSpans(text, essay.ocrWords, threshold).map((span) => span.text)));
+
+/**
+ * Vision transcripts wrap words the model is unsure of in [[ ]]; strip the marks
+ * and turn them into low-confidence words. "[?]" (unreadable) counts as zero.
+ */
+export const parseMarkedTranscript = (marked: string): { text: string; words: OcrWord[] } => {
+  const uncertain: { start: number; end: number }[] = [];
+  let text = "";
+  let last = 0;
+  for (const match of marked.matchAll(UNCERTAIN_MARK)) {
+    const index = match.index as number;
+    text += marked.slice(last, index);
+    uncertain.push({ start: text.length, end: text.length + match[1].length });
+    text += match[1];
+    last = index + match[0].length;
+  }
+  text += marked.slice(last);
+  // Offsets must refer to the returned (trimmed) text
+  const lead = text.length - text.trimStart().length;
+  text = text.trim();
+
+  const words: OcrWord[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    const start = match.index as number;
+    const end = start + match[0].length;
+    const isMarked = uncertain.some((range) => range.start - lead < end && range.end - lead > start);
+    const confidence = match[0].includes(UNREADABLE_TOKEN) ? 0 : isMarked ? MARKED_UNCERTAIN_CONFIDENCE : 1;
+    words.push({ text: match[0], confidence });
+  }
+  return { text, words };
+};
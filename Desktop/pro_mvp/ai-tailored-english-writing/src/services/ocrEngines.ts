@@ -0,0 +1,161 @@
+import { AgentConfig, OcrEngineId, OcrWord } from "../types";
+import { transcribeWithModel } from "./aiAgent";
+import { HANDWRITING_OCR_API_KEY } from "./config";
+import { transcribeHandwriting } from "./handwritingOcr";
+import { OCR_PROVIDER } from "./processingQueue";
+import { getProviderAdapter } from "./providerAdapters";
+import tesseractWorkerUrl from "tesseract.js/dist/worker.min.js?url";
+import tesseractCoreUrl from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+
+// "remote": upload then poll a hosted service; "sync": one request or local computation
+export type OcrEngineMode = "remote" | "sync";
+
+export interface OcrRunOptions {
+  config: AgentConfig;
+  engine?: OcrEngineId; // Overrides config.ocr.engine, e.g. to resume a remote document
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+  // Remote engines only: resume this document, and report new uploads so they can be resumed later
+  documentId?: string;
+  onDocumentCreated?: (documentId: string) => void;
+}
+
+export interface OcrResult {
+  text: string;
+  words?: OcrWord[]; // Word-level confidence, in reading order, when the engine reports it
+}
+
+export interface OcrEngine {
+  id: OcrEngineId;
+  label: string;
+  hint?: string;
+  mode: OcrEngineMode;
+  offline: boolean; // Runs without any network access once loaded
+  // Key the processing queue rate-limits this engine's requests under
+  queueProvider: (config: AgentConfig) => string;
+  // Reason the engine cannot run with this config, or undefined when ready
+  unavailableReason: (config: AgentConfig) => string | undefined;
+  transcribe: (file: File, options: OcrRunOptions) => Promise<OcrResult>;
+}
+
+const cancelledError = () => new Error("Processing cancelled");
+
+const handwritingOcrEngine: OcrEngine = {
+  id: "handwritingocr",
+  label: "HandwritingOCR.com",
+  hint: "手写识别效果最好；需要在环境变量中设置 HANDWRITING_OCR_API_KEY，上传后轮询结果。",
+  mode: "remote",
+  offline: false,
+  queueProvider: () => OCR_PROVIDER,
+  unavailableReason: () => (HANDWRITING_OCR_API_KEY ? undefined : "未设置 HANDWRITING_OCR_API_KEY"),
+  // The transcribe action returns plain text per page, without word confidence
+  transcribe: async (file, { signal, documentId, onDocumentCreated }) => ({
+    text: await transcribeHandwriting(file, { signal, documentId, onUploaded: onDocumentCreated })
+  })
+};
+
+const visionLlmEngine: OcrEngine = {
+  id: "vision-llm",
+  label: "视觉大模型转写",
+  hint: "使用当前选择的服务商与模型识别图片（需支持图片输入），只转写不批改。",
+  mode: "sync",
+  offline: false,
+  queueProvider: (config) => config.model.provider,
+  unavailableReason: (config) => {
+    const adapter = getProviderAdapter(config.model.provider);
+    return adapter.capabilities.vision ? undefined : `${adapter.label} 不支持图片输入`;
+  },
+  transcribe: (file, { config, signal }) => transcribeWithModel(file, config, signal)
+};
+
+// --- Tesseract (local, offline) ---
+// Worker and WASM core are bundled by Vite; language data is served from public/tessdata
+// (run `npm run fetch:tessdata` once) so recognition needs no network.
+const TESSDATA_PATH = `${import.meta.env.BASE_URL}tessdata`;
+
+type TesseractWorker = import("tesseract.js").Worker;
+const tesseractWorkers = new Map<string, Promise<TesseractWorker>>();
+// The worker's logger is fixed at creation; progress goes to whichever essay is being recognized
+const tesseractProgress = new Map<string, (message: string) => void>();
+
+const getTesseractWorker = (lang: string) => {
+  let worker = tesseractWorkers.get(lang);
+  if (!worker) {
+    worker = import("tesseract.js").then(({ createWorker }) =>
+      createWorker(lang, undefined, {
+        workerPath: tesseractWorkerUrl,
+        corePath: tesseractCoreUrl,
+        langPath: TESSDATA_PATH,
+        gzip: true,
+        logger: (m: { status: string; progress: number }) => {
+          const report = tesseractProgress.get(lang);
+          if (m.status === "recognizing text") report?.(`本地OCR识别中 ${Math.round(m.progress * 100)}%`);
+          else report?.(`本地OCR：${m.status}`);
+        }
+      })
+    );
+    // A failed load (e.g. missing language data) should not stick
+    worker.catch(() => tesseractWorkers.delete(lang));
+    tesseractWorkers.set(lang, worker);
+  }
+  return worker;
+};
+
+const tesseractEngine: OcrEngine = {
+  id: "tesseract",
+  label: "Tesseract（本地离线）",
+  hint: "浏览器内运行，不上传图片；适合印刷体或工整手写。首次使用需运行 npm run fetch:tessdata 下载语言包。",
+  mode: "sync",
+  offline: true,
+  queueProvider: () => "tesseract",
+  unavailableReason: () => undefined,
+  transcribe: async (file, { config, signal, onProgress }) => {
+    if (signal?.aborted) throw cancelledError();
+    const lang = config.ocr?.tesseractLang?.trim() || "eng";
+    if (onProgress) tesseractProgress.set(lang, onProgress);
+    const worker = await getTesseractWorker(lang);
+    if (signal?.aborted) throw cancelledError();
+
+    // A running recognition cannot be interrupted without killing other essays' jobs on the
+    // shared worker, so a cancelled essay just stops waiting and the result is discarded
+    const aborted = new Promise<never>((_, reject) => {
+      signal?.addEventListener("abort", () => reject(cancelledError()), { once: true });
+    });
+    // Blocks carry the per-word confidence (0-100)
+    const { data } = await Promise.race([worker.recognize(file, {}, { text: true, blocks: true }), aborted]);
+    const text = (data.text || "").trim();
+    if (!text) throw new Error("Tesseract 未识别到文字");
+    const words = (data.blocks || []).flatMap((block) =>
+      block.paragraphs.flatMap((paragraph) =>
+        paragraph.lines.flatMap((line) => line.words.map((word) => ({ text: word.text, confidence: word.confidence / 100 })))
+      )
+    );
+    return { text, words };
+  }
+};
+
+const registry = new Map<OcrEngineId, OcrEngine>();
+
+export const registerOcrEngine = (engine: OcrEngine) => {
+  registry.set(engine.id, engine);
+};
+
+export const listOcrEngines = (): OcrEngine[] => Array.from(registry.values());
+
+export const DEFAULT_OCR_ENGINE: OcrEngineId = "handwritingocr";
+
+export const getOcrEngine = (id?: OcrEngineId): OcrEngine =>
+  (id && registry.get(id)) || (registry.get(DEFAULT_OCR_ENGINE) as OcrEngine);
+
+/**
+ * Run the configured engine; an unavailable engine fails loudly instead of
+ * silently leaving the essay to vision grading
+ */
+export const runOcr = (file: File, options: OcrRunOptions): Promise<OcrResult> => {
+  const engine = getOcrEngine(options.engine || options.config.ocr?.engine);
+  const reason = engine.unavailableReason(options.config);
+  if (reason) return Promise.reject(new Error(`${engine.label} 不可用：${reason}`));
+  return engine.transcribe(file, options);
+};
+
+[handwritingOcrEngine, visionLlmEngine, tesseractEngine].forEach(registerOcrEngine);
@@ -0,0 +1,64 @@
+/**
+ * OCR 核对
+ * 老师对照原图确认转写文本后，作文带上 ocrVerifiedAt；重新OCR或调整页面会清除该标记。
+ * “仅AI批改”可设置为只批改已核对的图片作文。
+ */
+
+import { EssayData } from '../types';
+import { anchorIssues } from './issueAnchoring';
+
+export const isOcrVerified = (essay: EssayData) => Boolean(essay.ocrVerifiedAt);
+
+// Typed or imported text has nothing to verify against
+export const needsOcrVerification = (essay: EssayData) =>
+  essay.submissionType === 'image' && essay.ocrStatus === 'done' && Boolean(essay.ocrText?.trim()) && !isOcrVerified(essay);
+
+export const passesVerificationGate = (essay: EssayData, verifiedOnly?: boolean) =>
+  !verifiedOnly || essay.submissionType !== 'image' || isOcrVerified(essay);
+
+/**
+ * Save a checked transcript. Corrections already made are re-anchored to the new text,
+ * and an edit withdraws the teacher's earlier sign-off like any other change to the grading.
+ */
+export const applyVerifiedTranscript = (essay: EssayData, text: string, verified: boolean): EssayData => {
+  const changed = text !== essay.ocrText;
+  const grading = changed && essay.gradingResult
+    ? {
+      gradingResult: { ...essay.gradingResult, grammar_issues: anchorIssues(text, essay.gradingResult.grammar_issues) },
+      approvedAt: undefined
+    }
+    : {};
+  return {
+    ...essay,
+    ...grading,
+    ocrText: text,
+    ocrVerifiedAt: verified ? essay.ocrVerifiedAt || new Date().toISOString() : undefined
+  };
+};
+
+/**
+ * Where a transcript line sits on the source images: page index, vertical position within
+ * that page (0-1) and the height of one line as a fraction of the page. Multi-page essays are
+ * split by each page's own transcript length, then scaled to the current (possibly edited) text.
+ */
+export const locateTranscriptLine = (text: string, pageTexts: (string | undefined)[], line: number) => {
+  const totalLines = Math.max(1, text.split('\n').length);
+  const pageCount = Math.max(1, pageTexts.length);
+  // Pages are joined with a blank line between them
+  const counts = pageCount > 1
+    ? pageTexts.map((pageText, i) => Math.max(1, (pageText || '').trim().split('\n').length) + (i < pageCount - 1 ? 1 : 0))
+    : [totalLines];
+  const expected = counts.reduce((sum, count) => sum + count, 0);
+  const scale = totalLines / expected;
+  let start = 0;
+  for (let page = 0; page < counts.length; page += 1) {
+    const span = counts[page] * scale;
+    if (line < start + span || page === counts.length - 1) {
+      const lineSpan = 1 / Math.max(1, span);
+      const fraction = Math.min(1, Math.max(0, (line - start + 0.5) / Math.max(1, span)));
+      return { page, fraction, lineSpan };
+    }
+    start += span;
+  }
+  return { page: 0, fraction: 0, lineSpan: 1 / totalLines };
+};
@@ -0,0 +1,493 @@
+/**
+ * PDF 批改报告
+ * 直接用 pdf-lib 按 EssayData 排版（不再截图），文字可选中、可搜索；
+ * 内嵌中文字体子集（public/fonts 下的 TrueType 字体，npm run fetch:fonts 下载）。
+ * 每篇作文从新的一页开始，页眉为学生/作业，页脚为页码；被老师驳回的批注不导出。
+ * 分发模式下每个文件单独排版，与 manifest.csv 一起打包为 zip（分组与命名见 reportBundle.ts）。
+ */
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, RGB, rgb } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { EssayData, EssayPage, ExportOptions, GrammarIssue } from '../types';
+import { resolveTopic } from './assignments';
+import { getEssayPages } from './essayPages';
+import { loadReportImage } from './reportImages';
+import { buildReportZip, describeEssay, ReportContext } from './reportBundle';
+import { exportableIssues, exportableListItems } from './review';
+import { getGradeLetter, resolveMaxScore } from './rubric';
+import { DiffOp, diffWords } from './textDiff';
+
+export interface PdfReportFonts {
+  regular: ArrayBuffer | Uint8Array;
+  bold?: ArrayBuffer | Uint8Array; // Falls back to the regular face
+}
+
+const FONT_FILES = { regular: 'NotoSansSC-Regular.ttf', bold: 'NotoSansSC-Bold.ttf' };
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 50;
+const MARGIN_TOP = 64;
+const MARGIN_BOTTOM = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+const LINE_HEIGHT = 1.55;
+
+// Tailwind slate/rose/emerald/sky, matching the card
+const COLORS = {
+  text: rgb(0.2, 0.255, 0.333),
+  muted: rgb(0.392, 0.455, 0.545),
+  faint: rgb(0.58, 0.639, 0.722),
+  rule: rgb(0.886, 0.91, 0.941),
+  error: rgb(0.957, 0.247, 0.369),
+  fix: rgb(0.016, 0.471, 0.341),
+  strength: rgb(0.024, 0.373, 0.275),
+  improvement: rgb(0.624, 0.071, 0.224),
+  accent: rgb(0.012, 0.412, 0.631)
+};
+
+// CJK characters may break anywhere; Latin words stay whole unless longer than a line
+const CJK = '\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFFEF';
+const TOKEN = new RegExp(`[${CJK}]|[^\\s${CJK}]+|\\s+`, 'g');
+
+// Tabs and control characters have no glyphs in the font
+const cleanText = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\t/g, '    ')
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F\u200B-\u200D\uFEFF]/g, '');
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const width = (value: string) => font.widthOfTextAtSize(value, size);
+  const lines: string[] = [];
+  for (const paragraph of cleanText(text).split('\n')) {
+    let line = '';
+    for (const token of paragraph.match(TOKEN) || []) {
+      if (width(line + token) <= maxWidth) {
+        line += token;
+        continue;
+      }
+      if (!token.trim()) {
+        lines.push(line.trimEnd());
+        line = '';
+        continue;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = '';
+      if (width(token) <= maxWidth) {
+        line = token;
+        continue;
+      }
+      for (const char of Array.from(token)) {
+        if (line && width(line + char) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+};
+
+const truncateText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+  const clean = cleanText(text).replace(/\n/g, ' ');
+  if (font.widthOfTextAtSize(clean, size) <= maxWidth) return clean;
+  const chars = Array.from(clean);
+  while (chars.length > 0 && font.widthOfTextAtSize(`${chars.join('')}…`, size) > maxWidth) chars.pop();
+  return `${chars.join('')}…`;
+};
+
+interface TextStyle {
+  font?: PDFFont;
+  size?: number;
+  color?: RGB;
+  indent?: number;
+}
+
+/**
+ * Flowing layout on A4 pages: y runs from the top margin down, and a new page starts
+ * whenever the next line or block does not fit. Blocks that must not be split are
+ * measured first and moved to the next page as a whole.
+ */
+const createWriter = (doc: PDFDocument, fonts: { regular: PDFFont; bold: PDFFont }, scale: number) => {
+  const sizes = {
+    title: 18 * scale,
+    heading: 11.5 * scale,
+    body: 10.5 * scale,
+    small: 8.5 * scale
+  };
+  let page: PDFPage | undefined;
+  let y = 0;
+  let header = '';
+
+  const lineHeight = (size: number) => size * LINE_HEIGHT;
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN_TOP;
+    const headerSize = 8;
+    const brand = 'EssayFlow AI';
+    const brandWidth = fonts.regular.widthOfTextAtSize(brand, headerSize);
+    if (header) {
+      page.drawText(truncateText(header, fonts.regular, headerSize, CONTENT_WIDTH - brandWidth - 20), {
+        x: MARGIN_X,
+        y: PAGE_HEIGHT - 38,
+        size: headerSize,
+        font: fonts.regular,
+        color: COLORS.muted
+      });
+    }
+    page.drawText(brand, { x: PAGE_WIDTH - MARGIN_X - brandWidth, y: PAGE_HEIGHT - 38, size: headerSize, font: fonts.regular, color: COLORS.faint });
+    page.drawLine({
+      start: { x: MARGIN_X, y: PAGE_HEIGHT - 46 },
+      end: { x: PAGE_WIDTH - MARGIN_X, y: PAGE_HEIGHT - 46 },
+      thickness: 0.5,
+      color: COLORS.rule
+    });
+  };
+
+  const ensureSpace = (height: number) => {
+    if (!page || y - height < MARGIN_BOTTOM) newPage();
+    return page as PDFPage;
+  };
+
+  const measure = (text: string, style: TextStyle = {}) => {
+    const size = style.size ?? sizes.body;
+    return wrapText(text, style.font ?? fonts.regular, size, CONTENT_WIDTH - (style.indent ?? 0)).length * lineHeight(size);
+  };
+
+  // Long text may run over several pages, one line at a time
+  const text = (value: string, style: TextStyle = {}) => {
+    const font = style.font ?? fonts.regular;
+    const size = style.size ?? sizes.body;
+    const indent = style.indent ?? 0;
+    const step = lineHeight(size);
+    for (const line of wrapText(value, font, size, CONTENT_WIDTH - indent)) {
+      const target = ensureSpace(step);
+      if (line) target.drawText(line, { x: MARGIN_X + indent, y: y - size * 1.15, size, font, color: style.color ?? COLORS.text });
+      y -= step;
+    }
+  };
+
+  const gap = (height: number) => {
+    y -= height;
+  };
+
+  const rule = () => {
+    const target = ensureSpace(1);
+    target.drawLine({ start: { x: MARGIN_X, y }, end: { x: PAGE_WIDTH - MARGIN_X, y }, thickness: 0.5, color: COLORS.rule });
+  };
+
+  // A heading is never left alone at the bottom of a page
+  const heading = (label: string) => {
+    gap(sizes.heading * 0.8);
+    ensureSpace(lineHeight(sizes.heading) + lineHeight(sizes.body) * 3);
+    text(label, { font: fonts.bold, size: sizes.heading, color: COLORS.muted });
+    gap(2);
+    rule();
+    gap(sizes.body * 0.5);
+  };
+
+  const keepTogether = (height: number) => {
+    ensureSpace(Math.min(height, PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM));
+  };
+
+  const image = (embedded: PDFImage, caption?: string) => {
+    const captionHeight = caption ? lineHeight(sizes.small) : 0;
+    const maxHeight = PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM - captionHeight;
+    const ratio = Math.min(1, CONTENT_WIDTH / embedded.width, maxHeight / embedded.height);
+    const width = embedded.width * ratio;
+    const height = embedded.height * ratio;
+    const target = ensureSpace(height + captionHeight);
+    if (caption) text(caption, { size: sizes.small, color: COLORS.faint });
+    target.drawImage(embedded, { x: MARGIN_X + (CONTENT_WIDTH - width) / 2, y: y - height, width, height });
+    y -= height;
+  };
+
+  // Struck-through original and its correction on one line when they fit, stacked otherwise
+  const correction = (original: string, fixed: string, indent: number) => {
+    const size = sizes.body;
+    const arrow = '  →  ';
+    const originalText = cleanText(original).replace(/\n/g, ' ');
+    const fixedText = cleanText(fixed).replace(/\n/g, ' ');
+    const originalWidth = fonts.regular.widthOfTextAtSize(originalText, size);
+    const arrowWidth = fonts.regular.widthOfTextAtSize(arrow, size);
+    const fixedWidth = fonts.bold.widthOfTextAtSize(fixedText, size);
+    if (originalWidth + arrowWidth + fixedWidth > CONTENT_WIDTH - indent) {
+      text(originalText, { color: COLORS.error, indent });
+      text(`→ ${fixedText}`, { font: fonts.bold, color: COLORS.fix, indent });
+      return;
+    }
+    const target = ensureSpace(lineHeight(size));
+    const baseline = y - size * 1.15;
+    let x = MARGIN_X + indent;
+    target.drawText(originalText, { x, y: baseline, size, font: fonts.regular, color: COLORS.error });
+    target.drawLine({ start: { x, y: baseline + size * 0.3 }, end: { x: x + originalWidth, y: baseline + size * 0.3 }, thickness: 0.6, color: COLORS.error });
+    x += originalWidth;
+    target.drawText(arrow, { x, y: baseline, size, font: fonts.regular, color: COLORS.faint });
+    x += arrowWidth;
+    target.drawText(fixedText, { x, y: baseline, size, font: fonts.bold, color: COLORS.fix });
+    y -= lineHeight(size);
+  };
+
+  // Flowing word diff: deletions struck through in red, insertions bold in green, as in corrections
+  const diff = (ops: DiffOp[]) => {
+    const size = sizes.body;
+    const step = lineHeight(size);
+    let x = 0;
+    let lineOpen = false;
+    const endLine = () => {
+      if (!lineOpen) ensureSpace(step);
+      y -= step;
+      x = 0;
+      lineOpen = false;
+    };
+    const draw = (token: string, op: DiffOp) => {
+      const font = op.type === 'insert' ? fonts.bold : fonts.regular;
+      const width = font.widthOfTextAtSize(token, size);
+      if (lineOpen && x + width > CONTENT_WIDTH) endLine();
+      if (!lineOpen && !token.trim()) return;
+      const target = ensureSpace(step);
+      lineOpen = true;
+      const baseline = y - size * 1.15;
+      const color = op.type === 'insert' ? COLORS.fix : op.type === 'delete' ? COLORS.error : COLORS.text;
+      target.drawText(token, { x: MARGIN_X + x, y: baseline, size, font, color });
+      if (op.type === 'delete') {
+        target.drawLine({ start: { x: MARGIN_X + x, y: baseline + size * 0.3 }, end: { x: MARGIN_X + x + width, y: baseline + size * 0.3 }, thickness: 0.6, color: COLORS.error });
+      }
+      x += width;
+    };
+    ops.forEach((op) => {
+      cleanText(op.text).split('\n').forEach((part, index) => {
+        if (index > 0) endLine();
+        (part.match(TOKEN) || []).forEach((token) => {
+          // Words longer than a line are broken like in wrapText
+          const width = (op.type === 'insert' ? fonts.bold : fonts.regular).widthOfTextAtSize(token, size);
+          if (width <= CONTENT_WIDTH) draw(token, op);
+          else Array.from(token).forEach((char) => draw(char, op));
+        });
+      });
+    });
+    if (lineOpen) endLine();
+  };
+
+  const startEssay = (pageHeader: string) => {
+    header = pageHeader;
+    newPage();
+  };
+
+  // Page numbers need the final page count
+  const finish = () => {
+    const pages = doc.getPages();
+    pages.forEach((target, i) => {
+      const label = `${i + 1} / ${pages.length}`;
+      const width = fonts.regular.widthOfTextAtSize(label, 8);
+      target.drawText(label, { x: (PAGE_WIDTH - width) / 2, y: 30, size: 8, font: fonts.regular, color: COLORS.faint });
+    });
+  };
+
+  return { sizes, fonts, lineHeight, measure, text, gap, rule, heading, keepTogether, image, correction, diff, startEssay, finish };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+const embedPageImage = async (doc: PDFDocument, page: EssayPage): Promise<PDFImage | undefined> => {
+  const image = await loadReportImage(page);
+  if (!image) return undefined;
+  return image.type === 'png' ? doc.embedPng(image.bytes) : doc.embedJpg(image.bytes);
+};
+
+const renderTitle = (writer: Writer, essay: EssayData, name: string, meta: string) => {
+  const { sizes, fonts } = writer;
+  writer.text(name, { font: fonts.bold, size: sizes.title });
+  if (meta) writer.text(meta, { size: sizes.small, color: COLORS.muted });
+  const result = essay.gradingResult;
+  if (result) {
+    const maxScore = resolveMaxScore(result);
+    const grade = result.grade || getGradeLetter(result.score, maxScore);
+    const approval = essay.approvedAt ? `  ·  已审核 ${essay.approvedAt.slice(0, 10)}` : '';
+    writer.gap(4);
+    writer.text(`Score ${result.score} / ${maxScore}  ·  Grade ${grade}${approval}`, { font: fonts.bold, size: sizes.heading, color: COLORS.accent });
+  }
+  writer.gap(6);
+};
+
+const renderImages = async (writer: Writer, doc: PDFDocument, essay: EssayData) => {
+  const pages = getEssayPages(essay);
+  if (essay.submissionType !== 'image' || pages.length === 0) return;
+  writer.heading('Source');
+  for (let i = 0; i < pages.length; i += 1) {
+    const caption = pages.length > 1 ? `p${i + 1}` : undefined;
+    try {
+      const embedded = await embedPageImage(doc, pages[i]);
+      if (embedded) {
+        writer.image(embedded, caption);
+        writer.gap(8);
+        continue;
+      }
+    } catch (err) {
+      console.warn('Could not embed page image in the PDF report', err);
+    }
+    writer.text(`${caption ? `${caption} ` : ''}（图片不可用）`, { size: writer.sizes.small, color: COLORS.faint });
+  }
+};
+
+const renderSummary = (writer: Writer, essay: EssayData) => {
+  const result = essay.gradingResult;
+  if (!result) return;
+  const { sizes } = writer;
+  const rubric = result.rubric || [];
+  if (rubric.length > 0) {
+    writer.heading('Score Breakdown');
+    writer.keepTogether(rubric.length * writer.lineHeight(sizes.body));
+    rubric.forEach((dim) => {
+      const score = result.dimension_scores?.[dim.id];
+      writer.text(`${dim.name}:  ${score ?? '—'} / ${dim.maxPoints}`);
+    });
+  }
+  if (result.summary_cn?.trim()) {
+    writer.heading("Teacher's Summary");
+    writer.text(result.summary_cn);
+  }
+};
+
+const renderList = (writer: Writer, title: string, items: string[], color: RGB) => {
+  if (items.length === 0) return;
+  writer.heading(title);
+  items.forEach((item) => {
+    writer.keepTogether(writer.measure(`•  ${item}`, { indent: 8 }));
+    writer.text(`•  ${item}`, { color, indent: 8 });
+    writer.gap(2);
+  });
+};
+
+const renderCorrections = (writer: Writer, issues: GrammarIssue[]) => {
+  const { sizes, fonts } = writer;
+  writer.heading('Detailed Corrections');
+  if (issues.length === 0) {
+    writer.text('No corrections needed. Great job!', { color: COLORS.muted });
+    return;
+  }
+  issues.forEach((issue) => {
+    const tag = (issue.type || 'Grammar').toUpperCase();
+    // Tag, correction and explanation move to the next page together
+    writer.keepTogether(
+      writer.lineHeight(sizes.small) +
+        writer.measure(`${issue.original}  →  ${issue.correction}`) +
+        (issue.explanation ? writer.measure(issue.explanation, { size: sizes.small, indent: 12 }) : 0)
+    );
+    writer.text(tag, { font: fonts.bold, size: sizes.small, color: COLORS.faint });
+    writer.correction(issue.original, issue.correction, 0);
+    if (issue.explanation) writer.text(issue.explanation, { size: sizes.small, color: COLORS.muted, indent: 12 });
+    writer.gap(6);
+  });
+};
+
+const renderEssay = async (writer: Writer, doc: PDFDocument, essay: EssayData, options: ExportOptions, context: ReportContext) => {
+  const { studentName, assignment, className } = describeEssay(essay, context);
+  const topic = resolveTopic(essay, assignment);
+  writer.startEssay([studentName, assignment?.title, className].filter(Boolean).join(' · '));
+  renderTitle(writer, essay, studentName, [assignment?.title, className, essay.date, topic && topic !== assignment?.title ? topic : undefined].filter(Boolean).join('  ·  '));
+
+  if (options.includeImage) await renderImages(writer, doc, essay);
+  const essayText = essay.ocrText || essay.rawText || '';
+  if (options.includeOCR && essayText.trim()) {
+    writer.heading(essay.submissionType === 'text' ? 'Essay Content' : 'OCR Transcription');
+    writer.text(essayText);
+  }
+
+  const result = essay.gradingResult;
+  if (!result) return;
+  if (options.includeSummary) renderSummary(writer, essay);
+  if (options.includeLists) {
+    renderList(writer, 'Strengths', exportableListItems(result, 'strengths'), COLORS.strength);
+    renderList(writer, 'Areas for Improvement', exportableListItems(result, 'improvements'), COLORS.improvement);
+  }
+  if (options.includeCorrections) renderCorrections(writer, exportableIssues(result));
+  if (options.includeRevision && result.revised_essay?.trim()) {
+    writer.heading('Model Revision');
+    // Changes against the student's text, as in the card; without a transcript only the revision
+    if (essayText.trim()) writer.diff(diffWords(essayText, result.revised_essay));
+    else writer.text(result.revised_essay);
+  }
+};
+
+const fontTag = (bytes: ArrayBuffer | Uint8Array) =>
+  String.fromCharCode(...Array.from(new Uint8Array(bytes instanceof Uint8Array ? bytes.buffer : bytes, bytes instanceof Uint8Array ? bytes.byteOffset : 0, 4)));
+
+// pdf-lib's subsets of CFF-based OpenType fonts do not render in some viewers, so those are embedded whole
+const embedReportFont = (doc: PDFDocument, bytes: ArrayBuffer | Uint8Array) =>
+  doc.embedFont(bytes, { subset: fontTag(bytes) !== 'OTTO' });
+
+/**
+ * Lay out the report for the given essays (in order) and return the PDF bytes.
+ * Fonts are passed in so this also runs outside the browser.
+ */
+export const createPdfReport = async (
+  essays: EssayData[],
+  options: ExportOptions,
+  context: ReportContext,
+  fontBytes: PdfReportFonts
+): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle('EssayFlow AI 批改报告');
+  doc.setCreator('EssayFlow AI');
+  const regular = await embedReportFont(doc, fontBytes.regular);
+  const bold = fontBytes.bold ? await embedReportFont(doc, fontBytes.bold) : regular;
+  const writer = createWriter(doc, { regular, bold }, Math.min(Math.max(options.fontScale || 100, 50), 200) / 100);
+
+  for (const essay of essays) {
+    await renderEssay(writer, doc, essay, options, context);
+  }
+  writer.finish();
+  return doc.save();
+};
+
+// The dev server answers a missing file with index.html, so check for an actual font
+const isFontFile = (bytes: ArrayBuffer) =>
+  bytes.byteLength > 4 && ['OTTO', 'true', '\u0000\u0001\u0000\u0000'].includes(fontTag(bytes));
+
+const loadFont = async (fileName: string): Promise<ArrayBuffer | undefined> => {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}fonts/${fileName}`);
+    if (!response.ok) return undefined;
+    const bytes = await response.arrayBuffer();
+    return isFontFile(bytes) ? bytes : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const loadReportFonts = async (): Promise<PdfReportFonts> => {
+  const [regular, bold] = await Promise.all([loadFont(FONT_FILES.regular), loadFont(FONT_FILES.bold)]);
+  if (!regular) {
+    throw new Error(`缺少PDF中文字体 public/fonts/${FONT_FILES.regular}，请先运行 npm run fetch:fonts`);
+  }
+  return { regular, bold };
+};
+
+export const generatePdfReport = async (essays: EssayData[], options: ExportOptions, context: ReportContext): Promise<Blob> => {
+  const bytes = await createPdfReport(essays, options, context, await loadReportFonts());
+  return new Blob([bytes], { type: 'application/pdf' });
+};
+
+export const createReportZip = (
+  essays: EssayData[],
+  options: ExportOptions,
+  context: ReportContext,
+  fontBytes: PdfReportFonts,
+  onProgress?: (done: number, total: number) => void
+) => buildReportZip(essays, options, context, 'pdf', (group) => createPdfReport(group, options, context, fontBytes), onProgress);
+
+export const generateReportZip = async (
+  essays: EssayData[],
+  options: ExportOptions,
+  context: ReportContext,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const bytes = await createReportZip(essays, options, context, await loadReportFonts(), onProgress);
+  return new Blob([bytes], { type: 'application/zip' });
+};
@@ -1,34 +1,122 @@
-import { EssayData, ProcessingStatus } from '@/types';
+import { AgentConfig, Assignment, EssayData, ProcessingStatus, SchoolClass, Student } from '@/types';
+import {
+  clearStores,
+  CONFIG_STORE,
+  ESSAY_STORE,
+  IMAGE_STORE,
+  StoredImage,
+  StorageUsage,
+  estimateStorageUsage,
+  getAllRecords,
+  getRecord,
+  isIndexedDbAvailable,
+  putRecord,
+  requestPersistentStorage,
+  runTransaction
+} from './indexedDbStore';
+import { canResumeDocument } from './handwritingOcr';
+import { getEssayPages } from './essayPages';
+import { ESSAY_SCHEMA_VERSION, getRecordVersion, migrateEssayRecord, needsMigration } from './schemaMigrations';
 
+// Legacy single-key localStorage payload; migrated into IndexedDB on first load
 const STORAGE_KEY = 'essayflow_ai_records_v1';
+// Keys in the IndexedDB config store, and their localStorage fallback keys
+const CONFIG_KEY = 'agentConfig';
+const ROSTER_KEY = 'roster';
+const CLASSES_KEY = 'classes';
+const ASSIGNMENTS_KEY = 'assignments';
+const FALLBACK_KEYS: Record<string, string> = {
+  [CONFIG_KEY]: 'essayflow_ai_config_v1',
+  [ROSTER_KEY]: 'essayflow_ai_roster_v1',
+  [CLASSES_KEY]: 'essayflow_ai_classes_v1',
+  [ASSIGNMENTS_KEY]: 'essayflow_ai_assignments_v1'
+};
+// Essay records as they were before each schema migration, keyed by the version migrated from
+const MIGRATION_BACKUP_KEY = 'preMigrationBackup';
+const FALLBACK_BACKUP_KEY = 'essayflow_ai_records_backup';
 
-type PersistableEssay = Omit<EssayData, 'file'>;
+type PersistableEssay = Omit<EssayData, 'file' | 'originalFile'>;
 
 interface PersistedPayload {
-  version: number;
+  version: number; // Schema version of every essay in the payload
   savedAt: string;
   essays: PersistableEssay[];
 }
 
+interface MigrationBackup {
+  createdAt: string;
+  fromVersion: number;
+  toVersion: number;
+  data: string; // The stored JSON, unchanged
+}
+
+export interface StorageLoadError extends Error {
+  code: 'storage-load';
+  raw: string; // Saved data as read, for the "download raw backup" button
+}
+
+const createStorageLoadError = (message: string, raw: string): StorageLoadError =>
+  Object.assign(new Error(message), { name: 'StorageLoadError', code: 'storage-load' as const, raw });
+
+export const isStorageLoadError = (err: unknown): err is StorageLoadError => (err as any)?.code === 'storage-load';
+
+// React replaces only the essays that changed, so reference equality against the last
+// written object tells us which records need rewriting.
+const lastWritten = new Map<string, EssayData>();
+// Deletes from a failed write, retried with the next one; otherwise the essays would return on reload
+const pendingDeletes = new Set<string>();
+// Image id → owning essay id; a page moved to another essay is rewritten under its new owner
+const storedImages = new Map<string, { essayId: string; blob: Blob }>();
+let writeQueue: Promise<void> = Promise.resolve();
+let useLocalStorageFallback = false;
+let persistRequested = false;
+
+const isTransientPreview = (url?: string) => Boolean(url && (url.startsWith('data:') || url.startsWith('blob:')));
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob | undefined> => {
+  try {
+    const response = await fetch(dataUrl);
+    return await response.blob();
+  } catch (err) {
+    console.warn('Could not convert image preview to blob', err);
+    return undefined;
+  }
+};
+
+// Files (current and pre-preprocessing) never go into the essay records
+const stripPageFiles = (essay: PersistableEssay): PersistableEssay =>
+  essay.pages ? { ...essay, pages: essay.pages.map(({ file, originalFile, ...page }) => page) } : essay;
+
 const stripTransientFields = (essays: EssayData[]): PersistableEssay[] => {
-  return essays.map(({ file, ...rest }) => rest);
+  return essays.map(({ file, originalFile, ...rest }) => stripPageFiles(rest));
 };
 
 const resetIfInterrupted = (essay: PersistableEssay): PersistableEssay => {
   if (essay.status !== ProcessingStatus.PROCESSING) return essay;
+  const ocrInterrupted = essay.ocrStatus === 'processing';
+  const uploaded = getEssayPages(essay as EssayData).some((page) => page.ocrDocumentId && !page.ocrText);
   return {
     ...essay,
     status: ProcessingStatus.PENDING,
-    ocrStatus: essay.ocrStatus === 'processing' ? 'idle' : essay.ocrStatus,
+    ocrStatus: ocrInterrupted ? 'idle' : essay.ocrStatus,
     gradingStatus: essay.gradingStatus === 'processing' ? 'idle' : essay.gradingStatus,
     progressStep: 'queued',
-    progressMessage: '刷新后可重新开始批改'
+    progressMessage: ocrInterrupted && uploaded ? '刷新前已上传OCR，将继续获取结果' : '刷新后可重新开始批改'
   };
 };
 
-const markMissingSource = (essay: PersistableEssay): PersistableEssay => {
+/**
+ * Essays whose OCR upload was interrupted by a reload and can be polled again
+ * instead of uploading (and paying) a second time
+ */
+export const hasResumableOcr = (essay: EssayData) =>
+  essay.submissionType === 'image' &&
+  essay.ocrStatus === 'idle' &&
+  getEssayPages(essay).some((page) => page.ocrDocumentId && page.file && !page.ocrText && canResumeDocument(page.ocrUploadedAt));
+
+const markMissingSource = (essay: EssayData): EssayData => {
   const lacksText = !essay.ocrText && !essay.rawText;
-  if (essay.submissionType !== 'image' || !lacksText) return essay;
+  if (essay.submissionType !== 'image' || !lacksText || essay.file) return essay;
   return {
     ...essay,
     status: ProcessingStatus.ERROR,
@@ -40,9 +128,22 @@ const markMissingSource = (essay: PersistableEssay): PersistableEssay => {
   };
 };
 
-const reviveEssay = (essay: PersistableEssay, fallbackAddedAt?: string): EssayData => {
+const restoreImage = (image: StoredImage, fallbackName: string) => {
+  const file = new File([image.blob], image.name || fallbackName, { type: image.blob.type });
+  // Remember the File handed to the app so an unchanged image is not written again
+  storedImages.set(image.id, { essayId: image.essayId, blob: file });
+  return { file, imagePreview: URL.createObjectURL(image.blob) };
+};
+
+const reviveEssay = (
+  essay: PersistableEssay,
+  fallbackAddedAt?: string,
+  image?: StoredImage,
+  pageImages: Map<string, StoredImage> = new Map()
+): EssayData => {
+  const { schemaVersion, ...fields } = essay as PersistableEssay & { schemaVersion?: number };
   const withDefaults: EssayData = {
-    ...essay,
+    ...fields,
     ocrText: essay.ocrText || '',
     rawText: essay.rawText,
     progressStep: essay.progressStep || 'queued',
@@ -53,34 +154,99 @@ const reviveEssay = (essay: PersistableEssay, fallbackAddedAt?: string): EssayDa
     addedAt: essay.addedAt || fallbackAddedAt
   };
 
-  const reset = resetIfInterrupted(withDefaults);
+  // A stored blob restores both the preview and the File, so OCR can run again after a reload
+  if (withDefaults.pages?.length) {
+    withDefaults.pages = withDefaults.pages.map((page) => {
+      const stored = pageImages.get(page.id);
+      return stored ? { ...page, ...restoreImage(stored, page.fileName || page.id) } : page;
+    });
+    withDefaults.file = withDefaults.pages[0].file;
+    withDefaults.imagePreview = withDefaults.pages[0].imagePreview;
+  } else if (image) {
+    Object.assign(withDefaults, restoreImage(image, essay.sourceFileName || essay.id));
+  }
+
+  const reset = resetIfInterrupted(withDefaults) as EssayData;
   return markMissingSource(reset);
 };
 
-export const loadPersistedEssays = (): EssayData[] => {
-  if (typeof window === 'undefined') return [];
+/**
+ * Bring stored records up to the current schema. A record that cannot be read stops the
+ * load: dropping it would delete it for good on the next write.
+ */
+const migrateRecords = (records: unknown[], raw: string, fromVersion?: number): PersistableEssay[] =>
+  records.map((record, index) => {
+    try {
+      return migrateEssayRecord(record, fromVersion) as PersistableEssay;
+    } catch (err) {
+      throw createStorageLoadError(`第 ${index + 1} 条作文记录无法读取：${(err as Error).message}`, raw);
+    }
+  });
+
+const createMigrationBackup = (data: string, fromVersion: number): MigrationBackup => ({
+  createdAt: new Date().toISOString(),
+  fromVersion,
+  toVersion: ESSAY_SCHEMA_VERSION,
+  data
+});
+
+/**
+ * Key for a backup of records migrated from `fromVersion`. A later upgrade never overwrites an
+ * earlier backup: one from the same version (e.g. restored old data) gets its own key.
+ */
+const migrationBackupKey = (prefix: string, backup: MigrationBackup, isTaken: boolean) =>
+  isTaken ? `${prefix}_v${backup.fromVersion}_${backup.createdAt}` : `${prefix}_v${backup.fromVersion}`;
+
+const putMigrationBackup = (tx: IDBTransaction, backup: MigrationBackup) => {
+  const store = tx.objectStore(CONFIG_STORE);
+  const existing = store.getKey(migrationBackupKey(MIGRATION_BACKUP_KEY, backup, false));
+  existing.onsuccess = () => store.put(backup, migrationBackupKey(MIGRATION_BACKUP_KEY, backup, existing.result !== undefined));
+};
+
+// The localStorage payload is one JSON string; anything else there is a damaged save, not an empty one
+const parsePayload = (raw: string): PersistedPayload => {
+  let parsed: PersistedPayload;
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw) as PersistedPayload;
-    if (!parsed?.essays || !Array.isArray(parsed.essays)) return [];
-    const fallbackAddedAt = parsed.savedAt || new Date().toISOString();
-    return parsed.essays.map((essay) => reviveEssay(essay, fallbackAddedAt));
-  } catch (err) {
-    console.warn('Failed to load essays from storage', err);
-    return [];
+    parsed = JSON.parse(raw) as PersistedPayload;
+  } catch {
+    throw createStorageLoadError('已保存的作文记录已损坏，无法解析', raw);
   }
+  if (!Array.isArray(parsed?.essays)) throw createStorageLoadError('已保存的作文记录格式无法识别', raw);
+  return parsed;
 };
 
-export const persistEssays = (essays: EssayData[]) => {
-  if (typeof window === 'undefined') return;
+const payloadVersion = (payload: PersistedPayload) => (typeof payload.version === 'number' ? payload.version : 1);
+
+// --- localStorage fallback (no IndexedDB, e.g. some private browsing modes) ---
+
+const loadFromLocalStorage = (): EssayData[] => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  const parsed = parsePayload(raw);
+  const version = payloadVersion(parsed);
+  const records = migrateRecords(parsed.essays, raw, version);
+  if (version !== ESSAY_SCHEMA_VERSION) {
+    try {
+      const backup = createMigrationBackup(raw, version);
+      const isTaken = localStorage.getItem(migrationBackupKey(FALLBACK_BACKUP_KEY, backup, false)) !== null;
+      localStorage.setItem(migrationBackupKey(FALLBACK_BACKUP_KEY, backup, isTaken), JSON.stringify(backup));
+    } catch (err) {
+      // localStorage is usually too full to hold a second copy; the migration still goes ahead
+      console.warn('Could not back up essay records before migrating them', err);
+    }
+  }
+  const fallbackAddedAt = parsed.savedAt || new Date().toISOString();
+  return records.map((essay) => reviveEssay(essay, fallbackAddedAt));
+};
+
+const persistToLocalStorage = (essays: EssayData[]) => {
   try {
     if (!essays.length) {
       localStorage.removeItem(STORAGE_KEY);
       return;
     }
     const payload: PersistedPayload = {
-      version: 1,
+      version: ESSAY_SCHEMA_VERSION,
       savedAt: new Date().toISOString(),
       essays: stripTransientFields(essays)
     };
@@ -90,4 +256,269 @@ export const persistEssays = (essays: EssayData[]) => {
   }
 };
 
+// --- IndexedDB ---
+
+/**
+ * Migrate records saved under an older schema and write them back, together with a copy of
+ * the records as they were, in one transaction.
+ */
+const loadEssayRecords = async (): Promise<PersistableEssay[]> => {
+  const records = await getAllRecords<unknown>(ESSAY_STORE);
+  const stale = records.filter(needsMigration);
+  if (!stale.length) return records as PersistableEssay[];
+
+  const raw = JSON.stringify(records);
+  const migrated = migrateRecords(records, raw);
+  const fromVersion = Math.min(...stale.map((record) => getRecordVersion(record as Record<string, unknown>)));
+  await runTransaction([ESSAY_STORE, CONFIG_STORE], 'readwrite', (tx) => {
+    putMigrationBackup(tx, createMigrationBackup(raw, fromVersion));
+    migrated.forEach((record) => tx.objectStore(ESSAY_STORE).put(record));
+  });
+  console.info(`Migrated ${stale.length} essay records to schema version ${ESSAY_SCHEMA_VERSION}`);
+  return migrated;
+};
+
+/**
+ * Move the legacy localStorage payload into IndexedDB, turning base64 previews into blobs.
+ * The legacy key is only removed after the transaction commits, and kept as the
+ * pre-migration backup.
+ */
+const migrateLocalStorage = async () => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return;
+
+  const parsed = parsePayload(raw);
+  const version = payloadVersion(parsed);
+  const legacyEssays = migrateRecords(parsed.essays, raw, version);
+  const fallbackAddedAt = parsed.savedAt || new Date().toISOString();
+
+  const images: StoredImage[] = [];
+  const records = await Promise.all(
+    legacyEssays.map(async (essay) => {
+      const record: PersistableEssay = { ...essay, addedAt: essay.addedAt || fallbackAddedAt };
+      if (essay.imagePreview?.startsWith('data:')) {
+        const blob = await dataUrlToBlob(essay.imagePreview);
+        if (blob) {
+          images.push({ id: essay.id, essayId: essay.id, blob, name: essay.sourceFileName });
+          record.imagePreview = undefined;
+        }
+      }
+      return record;
+    })
+  );
+
+  await runTransaction([ESSAY_STORE, IMAGE_STORE, CONFIG_STORE], 'readwrite', (tx) => {
+    records.forEach((record) => tx.objectStore(ESSAY_STORE).put(record));
+    images.forEach((image) => tx.objectStore(IMAGE_STORE).put(image));
+    putMigrationBackup(tx, createMigrationBackup(raw, version));
+  });
+  localStorage.removeItem(STORAGE_KEY);
+  console.info(`Migrated ${records.length} essays (${images.length} images) from localStorage to IndexedDB`);
+};
+
+const toRecord = (essay: EssayData): PersistableEssay => {
+  const { file, originalFile, ...rest } = essay;
+  // Previews are rebuilt from the stored blobs on load
+  const stored = (id: string) => storedImages.get(id)?.essayId === essay.id;
+  const firstImageId = essay.pages?.[0]?.id || essay.id;
+  const versioned = { ...rest, schemaVersion: ESSAY_SCHEMA_VERSION };
+  const record: PersistableEssay = stored(firstImageId) && isTransientPreview(rest.imagePreview)
+    ? { ...versioned, imagePreview: undefined }
+    : versioned;
+  if (!record.pages) return record;
+  return {
+    ...record,
+    pages: stripPageFiles(record).pages.map((page) =>
+      stored(page.id) && isTransientPreview(page.imagePreview) ? { ...page, imagePreview: undefined } : page
+    )
+  };
+};
+
+// One blob per page, keyed by page id (the essay id for single-image essays)
+const collectNewImages = async (essays: EssayData[]): Promise<StoredImage[]> => {
+  const pending = essays
+    .filter((essay) => essay.submissionType === 'image')
+    .flatMap((essay) => getEssayPages(essay).map((page) => ({ essay, page })))
+    .filter(({ essay, page }) => {
+      // New page, page moved to another essay, or image replaced in the editor
+      const stored = storedImages.get(page.id);
+      return stored?.essayId !== essay.id || Boolean(page.file && stored.blob !== page.file);
+    });
+  const images = await Promise.all(
+    pending.map(async ({ essay, page }): Promise<StoredImage | undefined> => {
+      const blob =
+        page.file ||
+        (page.imagePreview?.startsWith('data:') ? await dataUrlToBlob(page.imagePreview) : undefined);
+      if (!blob) return undefined;
+      return { id: page.id, essayId: essay.id, blob, name: page.file?.name || page.fileName };
+    })
+  );
+  return images.filter((image): image is StoredImage => Boolean(image));
+};
+
+const writeChanges = async (changed: EssayData[], removedIds: string[]) => {
+  const images = await collectNewImages(changed);
+  images.forEach((image) => storedImages.set(image.id, { essayId: image.essayId, blob: image.blob }));
+
+  await runTransaction([ESSAY_STORE, IMAGE_STORE], 'readwrite', (tx) => {
+    const essayStore = tx.objectStore(ESSAY_STORE);
+    const imageStore = tx.objectStore(IMAGE_STORE);
+    images.forEach((image) => imageStore.put(image));
+    changed.forEach((essay) => essayStore.put(toRecord(essay)));
+    // Pages re-put above under a new owner are no longer found by the old essay's index
+    removedIds.forEach((id) => {
+      essayStore.delete(id);
+      const cursorRequest = imageStore.index('essayId').openKeyCursor(IDBKeyRange.only(id));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        imageStore.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+      storedImages.forEach((stored, imageId) => {
+        if (stored.essayId === id) storedImages.delete(imageId);
+      });
+    });
+  });
+};
+
+/**
+ * Saved essays, migrated to the current schema. Rejects with a StorageLoadError when the saved
+ * data cannot be read, so the app can offer the raw data instead of starting empty and
+ * overwriting it.
+ */
+export const loadPersistedEssays = async (): Promise<EssayData[]> => {
+  if (typeof window === 'undefined') return [];
+  if (!isIndexedDbAvailable()) {
+    useLocalStorageFallback = true;
+    return loadFromLocalStorage();
+  }
+  try {
+    await migrateLocalStorage();
+    const [records, images] = await Promise.all([loadEssayRecords(), getAllRecords<StoredImage>(IMAGE_STORE)]);
+    const imageByEssay = new Map<string, StoredImage>();
+    const imageById = new Map<string, StoredImage>();
+    images.forEach((image) => {
+      storedImages.set(image.id, { essayId: image.essayId, blob: image.blob });
+      imageById.set(image.id, image);
+      if (!imageByEssay.has(image.essayId) || image.id === image.essayId) imageByEssay.set(image.essayId, image);
+    });
+
+    const fallbackAddedAt = new Date().toISOString();
+    const essays = records
+      .sort((a, b) => (a.addedAt || '').localeCompare(b.addedAt || ''))
+      .map((record) => reviveEssay(record, fallbackAddedAt, imageByEssay.get(record.id), imageById));
+    essays.forEach((essay) => lastWritten.set(essay.id, essay));
+    return essays;
+  } catch (err) {
+    if (isStorageLoadError(err)) throw err;
+    console.warn('IndexedDB unavailable, falling back to localStorage', err);
+    useLocalStorageFallback = true;
+    return loadFromLocalStorage();
+  }
+};
+
+/**
+ * Write only the essays that changed (or were removed) since the last call.
+ * Writes are serialized so a slow image write cannot reorder later edits.
+ */
+export const persistEssays = (essays: EssayData[]): Promise<void> => {
+  if (typeof window === 'undefined') return Promise.resolve();
+  if (useLocalStorageFallback) {
+    persistToLocalStorage(essays);
+    return Promise.resolve();
+  }
+
+  const currentIds = new Set(essays.map((essay) => essay.id));
+  const changed = essays.filter((essay) => lastWritten.get(essay.id) !== essay);
+  // An essay back in the list (e.g. an undone delete) is rewritten instead
+  currentIds.forEach((id) => pendingDeletes.delete(id));
+  const removedIds = Array.from(new Set([...lastWritten.keys(), ...pendingDeletes])).filter((id) => !currentIds.has(id));
+  if (!changed.length && !removedIds.length) return writeQueue;
+
+  changed.forEach((essay) => lastWritten.set(essay.id, essay));
+  removedIds.forEach((id) => {
+    lastWritten.delete(id);
+    pendingDeletes.delete(id);
+  });
+
+  if (!persistRequested) {
+    persistRequested = true;
+    void requestPersistentStorage();
+  }
+
+  writeQueue = writeQueue
+    .then(() => writeChanges(changed, removedIds))
+    .catch((err) => {
+      console.warn('Failed to persist essays', err);
+      // Forget these so the next call retries them
+      changed.forEach((essay) => lastWritten.delete(essay.id));
+      removedIds.forEach((id) => pendingDeletes.add(id));
+    });
+  return writeQueue;
+};
+
+const loadConfigValue = async <T>(key: string): Promise<T | undefined> => {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    if (useLocalStorageFallback || !isIndexedDbAvailable()) {
+      const raw = localStorage.getItem(FALLBACK_KEYS[key]);
+      return raw ? (JSON.parse(raw) as T) : undefined;
+    }
+    return await getRecord<T>(CONFIG_STORE, key);
+  } catch (err) {
+    console.warn(`Failed to load ${key} from storage`, err);
+    return undefined;
+  }
+};
+
+const persistConfigValue = async (key: string, value: unknown) => {
+  if (typeof window === 'undefined') return;
+  try {
+    if (useLocalStorageFallback || !isIndexedDbAvailable()) {
+      localStorage.setItem(FALLBACK_KEYS[key], JSON.stringify(value));
+      return;
+    }
+    await putRecord(CONFIG_STORE, value, key);
+  } catch (err) {
+    console.warn(`Failed to persist ${key}`, err);
+  }
+};
+
+export const loadPersistedConfig = () => loadConfigValue<AgentConfig>(CONFIG_KEY);
+
+export const persistConfig = (config: AgentConfig) => persistConfigValue(CONFIG_KEY, config);
+
+export const loadPersistedRoster = async (): Promise<Student[]> => {
+  const roster = await loadConfigValue<Student[]>(ROSTER_KEY);
+  return Array.isArray(roster) ? roster : [];
+};
+
+export const persistRoster = (roster: Student[]) => persistConfigValue(ROSTER_KEY, roster);
+
+export const loadPersistedClasses = async (): Promise<SchoolClass[]> => {
+  const classes = await loadConfigValue<SchoolClass[]>(CLASSES_KEY);
+  return Array.isArray(classes) ? classes : [];
+};
+
+export const persistClasses = (classes: SchoolClass[]) => persistConfigValue(CLASSES_KEY, classes);
+
+export const loadPersistedAssignments = async (): Promise<Assignment[]> => {
+  const assignments = await loadConfigValue<Assignment[]>(ASSIGNMENTS_KEY);
+  return Array.isArray(assignments) ? assignments : [];
+};
+
+export const persistAssignments = (assignments: Assignment[]) => persistConfigValue(ASSIGNMENTS_KEY, assignments);
+
+/**
+ * Delete every saved essay and image: the way out when the saved data cannot be read and the
+ * teacher has downloaded the raw backup
+ */
+export const clearPersistedEssays = async () => {
+  localStorage.removeItem(STORAGE_KEY);
+  if (isIndexedDbAvailable()) await clearStores([ESSAY_STORE, IMAGE_STORE]);
+};
+
+export const getStorageUsage = (): Promise<StorageUsage | null> => estimateStorageUsage();
+
 export { STORAGE_KEY };
@@ -0,0 +1,254 @@
+/**
+ * 批处理队列
+ * - 按阶段限制并发（OCR 上传 / AI 批改）
+ * - 按服务商的令牌桶限速（每分钟请求数）
+ * - 任一任务遇到 429 时，同一服务商的所有任务共享退避，再自动重试
+ * - 整体暂停/恢复：暂停只阻止新任务开始，已在运行的任务照常完成
+ * 取消仍由调用方的 AbortSignal 负责：排队中的任务被移出队列，运行中的任务自行响应 signal
+ */
+
+import { QueueSettings } from "../types";
+
+export type QueueStage = "ocr" | "grading";
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  ocrConcurrency: 4,
+  gradingConcurrency: 3,
+  requestsPerMinute: 30
+};
+
+// Provider key used for the handwriting OCR service
+export const OCR_PROVIDER = "handwritingocr";
+
+export interface QueueSnapshot {
+  paused: boolean;
+  running: Record<QueueStage, number>;
+  waiting: Record<QueueStage, number>;
+  backoffUntil?: number; // Latest time any provider is backing off after a 429
+}
+
+export interface RateLimitError extends Error {
+  status: 429;
+  retryAfterMs?: number;
+}
+
+export const createRateLimitError = (message: string, retryAfterMs?: number): RateLimitError =>
+  Object.assign(new Error(message), { name: "RateLimitError", status: 429 as const, retryAfterMs });
+
+export const isRateLimitError = (err: unknown): err is RateLimitError => (err as any)?.status === 429;
+
+// Retry-After is either delta-seconds or an HTTP date
+export const parseRetryAfter = (value?: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number.parseFloat(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const MAX_RATE_LIMIT_RETRIES = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+interface PendingJob {
+  stage: QueueStage;
+  provider: string;
+  start: () => void;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  onStart?: () => void; // Called each time the job leaves the queue (again after a 429 retry)
+}
+
+export interface ProcessingQueue {
+  run: <T>(stage: QueueStage, provider: string, job: () => Promise<T>, options?: RunOptions) => Promise<T>;
+  pause: () => void;
+  resume: () => void;
+  setSettings: (settings: QueueSettings) => void;
+  getSnapshot: () => QueueSnapshot;
+  subscribe: (listener: (snapshot: QueueSnapshot) => void) => () => void;
+}
+
+export const createProcessingQueue = (initial: QueueSettings = DEFAULT_QUEUE_SETTINGS): ProcessingQueue => {
+  let settings = initial;
+  let paused = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const waiting: PendingJob[] = [];
+  const running: Record<QueueStage, number> = { ocr: 0, grading: 0 };
+  const buckets = new Map<string, Bucket>();
+  const backoff = new Map<string, { until: number; failures: number }>();
+  const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+
+  const limitFor = (provider: string) => settings.providerLimits?.[provider] ?? settings.requestsPerMinute;
+  const concurrencyFor = (stage: QueueStage) =>
+    Math.max(1, Math.floor(stage === "ocr" ? settings.ocrConcurrency : settings.gradingConcurrency) || 1);
+
+  // Small bursts are allowed; the bucket holds a tenth of the per-minute budget
+  const refill = (provider: string, rpm: number, now: number) => {
+    const capacity = Math.max(1, Math.ceil(rpm / 10));
+    const bucket = buckets.get(provider) || { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * rpm) / 60000);
+    bucket.updatedAt = now;
+    buckets.set(provider, bucket);
+    return bucket;
+  };
+
+  // Milliseconds until `provider` may start another request (0 = now)
+  const waitFor = (provider: string, now: number) => {
+    const state = backoff.get(provider);
+    if (state && state.until > now) return state.until - now;
+    const rpm = limitFor(provider);
+    if (!(rpm > 0)) return 0;
+    const bucket = refill(provider, rpm, now);
+    return bucket.tokens >= 1 ? 0 : Math.ceil(((1 - bucket.tokens) * 60000) / rpm);
+  };
+
+  const takeToken = (provider: string) => {
+    const bucket = buckets.get(provider);
+    if (bucket && limitFor(provider) > 0) bucket.tokens -= 1;
+  };
+
+  const registerBackoff = (provider: string, retryAfterMs?: number) => {
+    const now = Date.now();
+    const previous = backoff.get(provider);
+    const failures = (previous?.failures || 0) + 1;
+    const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (failures - 1));
+    const waitMs = retryAfterMs ?? exponential * (0.8 + Math.random() * 0.4);
+    backoff.set(provider, { failures, until: Math.max(previous?.until || 0, now + waitMs) });
+  };
+
+  const getSnapshot = (): QueueSnapshot => {
+    const now = Date.now();
+    const until = Math.max(0, ...Array.from(backoff.values()).map((state) => state.until));
+    return {
+      paused,
+      running: { ...running },
+      waiting: {
+        ocr: waiting.filter((job) => job.stage === "ocr").length,
+        grading: waiting.filter((job) => job.stage === "grading").length
+      },
+      backoffUntil: until > now ? until : undefined
+    };
+  };
+
+  const notify = () => {
+    const snapshot = getSnapshot();
+    listeners.forEach((listener) => listener(snapshot));
+  };
+
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (!paused) {
+      const now = Date.now();
+      let nextWake = Infinity;
+      for (let i = 0; i < waiting.length; ) {
+        const job = waiting[i];
+        if (running[job.stage] >= concurrencyFor(job.stage)) {
+          i += 1;
+          continue;
+        }
+        const waitMs = waitFor(job.provider, now);
+        if (waitMs > 0) {
+          nextWake = Math.min(nextWake, waitMs);
+          i += 1;
+          continue;
+        }
+        waiting.splice(i, 1);
+        takeToken(job.provider);
+        running[job.stage] += 1;
+        job.start();
+      }
+      if (nextWake < Infinity) timer = setTimeout(pump, nextWake);
+    }
+    notify();
+  };
+
+  const run = <T>(stage: QueueStage, provider: string, job: () => Promise<T>, options: RunOptions = {}) =>
+    new Promise<T>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(new Error("Processing cancelled"));
+        return;
+      }
+
+      let attempt = 0;
+      let pending: PendingJob | undefined;
+
+      const onAbort = () => {
+        const index = pending ? waiting.indexOf(pending) : -1;
+        if (index < 0) return; // Already running: the job itself reacts to the signal
+        waiting.splice(index, 1);
+        reject(new Error("Processing cancelled"));
+        notify();
+      };
+      signal?.addEventListener("abort", onAbort);
+
+      const settle = () => signal?.removeEventListener("abort", onAbort);
+
+      const enqueue = (front: boolean) => {
+        pending = { stage, provider, start: execute };
+        if (front) waiting.unshift(pending);
+        else waiting.push(pending);
+        pump();
+      };
+
+      const execute = async () => {
+        try {
+          options.onStart?.();
+          const result = await job();
+          backoff.delete(provider);
+          running[stage] -= 1;
+          settle();
+          resolve(result);
+          pump();
+        } catch (err) {
+          const retry = isRateLimitError(err) && attempt < MAX_RATE_LIMIT_RETRIES && !signal?.aborted;
+          // Back off before freeing the slot so no other job for this provider slips in first
+          if (retry) registerBackoff(provider, (err as RateLimitError).retryAfterMs);
+          running[stage] -= 1;
+          if (retry) {
+            attempt += 1;
+            enqueue(true);
+            return;
+          }
+          settle();
+          reject(err);
+          pump();
+        }
+      };
+
+      enqueue(false);
+    });
+
+  return {
+    run,
+    pause: () => {
+      paused = true;
+      pump();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    setSettings: (next) => {
+      settings = next;
+      pump();
+    },
+    getSnapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
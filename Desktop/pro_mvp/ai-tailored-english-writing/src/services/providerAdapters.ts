@@ -0,0 +1,327 @@
+import { AIProvider, ModelSettings } from "../types";
+import {
+  ANTHROPIC_API_KEY,
+  ANTHROPIC_BASE_URL,
+  APP_NAME,
+  APP_URL,
+  AZURE_OPENAI_API_KEY,
+  AZURE_OPENAI_API_VERSION,
+  AZURE_OPENAI_BASE_URL,
+  DEEPSEEK_API_KEY,
+  DEEPSEEK_BASE_URL,
+  GEMINI_API_KEY,
+  GEMINI_BASE_URL,
+  OLLAMA_BASE_URL,
+  OPENAI_API_KEY,
+  OPENAI_BASE_URL,
+  OPENROUTER_API_KEY,
+  OPENROUTER_BASE_URL
+} from "./config";
+
+export type PromptBundle = {
+  systemPrompt: string;
+  userPrompt: string;
+  image?: { base64: string; mimeType: string };
+};
+
+export type ProviderAuthStyle = "bearer" | "x-api-key" | "api-key-header" | "query-key" | "none";
+
+export interface ProviderCapabilities {
+  vision: boolean; // Accepts image input alongside the prompt
+  jsonMode: boolean; // Supports a native JSON response mode
+}
+
+export interface ProviderEndpoint {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface ProviderAdapter {
+  id: AIProvider;
+  label: string;
+  defaultModel: string;
+  hint?: string;
+  authStyle: ProviderAuthStyle;
+  requiresApiKey: boolean;
+  capabilities: ProviderCapabilities;
+  // Base URL / key are entered in the Sidebar instead of read from env
+  configurable?: boolean;
+  resolveEndpoint: (settings: ModelSettings) => ProviderEndpoint;
+  buildRequest: (params: { bundle: PromptBundle; modelId: string } & ProviderEndpoint) => ProviderRequest;
+  parseResponse: (data: any) => string;
+}
+
+const trimSlash = (value: string) => value.replace(/\/+$/, "");
+
+const authHeaders = (style: ProviderAuthStyle, apiKey?: string): Record<string, string> => {
+  if (!apiKey) return {};
+  switch (style) {
+    case "bearer":
+      return { Authorization: `Bearer ${apiKey}` };
+    case "x-api-key":
+      return { "x-api-key": apiKey };
+    case "api-key-header":
+      return { "api-key": apiKey };
+    default:
+      return {};
+  }
+};
+
+const buildOpenAIMessages = (bundle: PromptBundle) => {
+  const userContent: any[] = [{ type: "text", text: bundle.userPrompt }];
+  if (bundle.image) {
+    userContent.push({
+      type: "image_url",
+      image_url: { url: `data:${bundle.image.mimeType};base64,${bundle.image.base64}` }
+    });
+  }
+  return [
+    { role: "system", content: bundle.systemPrompt },
+    { role: "user", content: userContent }
+  ];
+};
+
+const parseOpenAIResponse = (providerName: string) => (data: any) => {
+  const content = data?.choices?.[0]?.message?.content;
+  if (!content) throw new Error(`No response from ${providerName}`);
+  if (typeof content === "string") return content;
+
+  if (Array.isArray(content)) {
+    const textPart = content.find((part: any) => part.type === "text")?.text;
+    if (textPart) return textPart;
+  }
+
+  throw new Error(`${providerName} returned unsupported content format`);
+};
+
+const buildOpenAIBody = (bundle: PromptBundle, modelId: string, jsonMode: boolean) =>
+  JSON.stringify({
+    model: modelId,
+    messages: buildOpenAIMessages(bundle),
+    temperature: 0.4,
+    ...(jsonMode ? { response_format: { type: "json_object" } } : {})
+  });
+
+/**
+ * Factory for any server that speaks the OpenAI `/chat/completions` protocol.
+ */
+export const createOpenAICompatibleAdapter = (options: {
+  id: AIProvider;
+  label: string;
+  defaultModel: string;
+  hint?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  authStyle?: ProviderAuthStyle;
+  requiresApiKey?: boolean;
+  capabilities?: Partial<ProviderCapabilities>;
+  extraHeaders?: Record<string, string>;
+  configurable?: boolean;
+}): ProviderAdapter => {
+  const authStyle = options.authStyle ?? "bearer";
+  const capabilities: ProviderCapabilities = { vision: true, jsonMode: true, ...options.capabilities };
+  return {
+    id: options.id,
+    label: options.label,
+    defaultModel: options.defaultModel,
+    hint: options.hint,
+    authStyle,
+    requiresApiKey: options.requiresApiKey ?? authStyle !== "none",
+    capabilities,
+    configurable: options.configurable,
+    resolveEndpoint: (settings) =>
+      options.configurable
+        ? { baseUrl: settings.baseUrl?.trim() || options.baseUrl || "", apiKey: settings.apiKey?.trim() || options.apiKey }
+        : { baseUrl: options.baseUrl || "", apiKey: options.apiKey },
+    buildRequest: ({ bundle, modelId, baseUrl, apiKey }) => ({
+      url: `${trimSlash(baseUrl)}/chat/completions`,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(authStyle, apiKey),
+          ...options.extraHeaders
+        },
+        body: buildOpenAIBody(bundle, modelId, capabilities.jsonMode)
+      }
+    }),
+    parseResponse: parseOpenAIResponse(options.label)
+  };
+};
+
+const geminiAdapter: ProviderAdapter = {
+  id: "gemini",
+  label: "Gemini",
+  defaultModel: "gemini-2.5-flash",
+  hint: "需要在环境变量中设置 GEMINI_API_KEY。",
+  authStyle: "query-key",
+  requiresApiKey: true,
+  capabilities: { vision: true, jsonMode: true },
+  resolveEndpoint: () => ({ baseUrl: GEMINI_BASE_URL, apiKey: GEMINI_API_KEY }),
+  buildRequest: ({ bundle, modelId, baseUrl, apiKey }) => {
+    const parts: any[] = [{ text: bundle.userPrompt }];
+    if (bundle.image) {
+      parts.push({ inline_data: { mime_type: bundle.image.mimeType, data: bundle.image.base64 } });
+    }
+    return {
+      url: `${trimSlash(baseUrl)}/models/${modelId}:generateContent?key=${apiKey}`,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          system_instruction: { parts: [{ text: bundle.systemPrompt }] },
+          contents: [{ parts }],
+          generationConfig: {
+            temperature: 0.4,
+            response_mime_type: "application/json"
+          }
+        })
+      }
+    };
+  },
+  parseResponse: (data) => {
+    const candidateParts = data?.candidates?.[0]?.content?.parts;
+    if (Array.isArray(candidateParts)) {
+      const textPart = candidateParts.find((part: any) => part.text)?.text;
+      if (typeof textPart === "string") return textPart;
+    }
+    throw new Error("Gemini returned unsupported content format");
+  }
+};
+
+const anthropicAdapter: ProviderAdapter = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultModel: "claude-3-5-sonnet-latest",
+  hint: "需要在环境变量中设置 ANTHROPIC_API_KEY（Messages API）。",
+  authStyle: "x-api-key",
+  requiresApiKey: true,
+  capabilities: { vision: true, jsonMode: false },
+  resolveEndpoint: () => ({ baseUrl: ANTHROPIC_BASE_URL, apiKey: ANTHROPIC_API_KEY }),
+  buildRequest: ({ bundle, modelId, baseUrl, apiKey }) => {
+    const content: any[] = [{ type: "text", text: bundle.userPrompt }];
+    if (bundle.image) {
+      content.push({
+        type: "image",
+        source: { type: "base64", media_type: bundle.image.mimeType, data: bundle.image.base64 }
+      });
+    }
+    return {
+      url: `${trimSlash(baseUrl)}/messages`,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "anthropic-version": "2023-06-01",
+          "anthropic-dangerous-direct-browser-access": "true",
+          ...authHeaders("x-api-key", apiKey)
+        },
+        body: JSON.stringify({
+          model: modelId,
+          max_tokens: 4096,
+          temperature: 0.4,
+          system: bundle.systemPrompt,
+          messages: [{ role: "user", content }]
+        })
+      }
+    };
+  },
+  parseResponse: (data) => {
+    const textPart = Array.isArray(data?.content)
+      ? data.content.find((part: any) => part.type === "text")?.text
+      : undefined;
+    if (typeof textPart === "string") return textPart;
+    throw new Error("Anthropic returned unsupported content format");
+  }
+};
+
+// Azure routes by deployment name, so the "Model ID" field holds the deployment.
+const azureOpenAIAdapter: ProviderAdapter = {
+  ...createOpenAICompatibleAdapter({
+    id: "azure-openai",
+    label: "Azure OpenAI",
+    defaultModel: "gpt-4o-mini",
+    baseUrl: AZURE_OPENAI_BASE_URL,
+    apiKey: AZURE_OPENAI_API_KEY,
+    authStyle: "api-key-header"
+  }),
+  hint: "需要设置 AZURE_OPENAI_BASE_URL（https://<resource>.openai.azure.com）与 AZURE_OPENAI_API_KEY；Model ID 填写部署名称。",
+  buildRequest: ({ bundle, modelId, baseUrl, apiKey }) => ({
+    url: `${trimSlash(baseUrl)}/openai/deployments/${encodeURIComponent(modelId)}/chat/completions?api-version=${AZURE_OPENAI_API_VERSION}`,
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders("api-key-header", apiKey) },
+      body: buildOpenAIBody(bundle, modelId, true)
+    }
+  })
+};
+
+const registry = new Map<AIProvider, ProviderAdapter>();
+
+export const registerProviderAdapter = (adapter: ProviderAdapter) => {
+  registry.set(adapter.id, adapter);
+};
+
+export const listProviderAdapters = (): ProviderAdapter[] => Array.from(registry.values());
+
+export const getProviderAdapter = (provider: AIProvider): ProviderAdapter => {
+  // Unknown providers (e.g. from an old saved config) fall back to OpenAI as before
+  return registry.get(provider) || (registry.get("openai") as ProviderAdapter);
+};
+
+[
+  createOpenAICompatibleAdapter({
+    id: "openai",
+    label: "OpenAI",
+    defaultModel: "gpt-4o-mini",
+    hint: "需要在环境变量中设置 OPENAI_API_KEY。",
+    baseUrl: OPENAI_BASE_URL,
+    apiKey: OPENAI_API_KEY
+  }),
+  geminiAdapter,
+  createOpenAICompatibleAdapter({
+    id: "deepseek",
+    label: "DeepSeek",
+    defaultModel: "deepseek-chat",
+    hint: "需要在环境变量中设置 DEEPSEEK_API_KEY；不支持图片输入。",
+    baseUrl: DEEPSEEK_BASE_URL,
+    apiKey: DEEPSEEK_API_KEY,
+    capabilities: { vision: false }
+  }),
+  createOpenAICompatibleAdapter({
+    id: "openrouter",
+    label: "OpenRouter",
+    defaultModel: "openai/gpt-4o-mini",
+    hint: "需要在环境变量中设置 OPENROUTER_API_KEY。",
+    baseUrl: OPENROUTER_BASE_URL,
+    apiKey: OPENROUTER_API_KEY,
+    extraHeaders: {
+      "HTTP-Referer": APP_URL,
+      "X-Title": APP_NAME
+    }
+  }),
+  anthropicAdapter,
+  azureOpenAIAdapter,
+  createOpenAICompatibleAdapter({
+    id: "ollama",
+    label: "Ollama",
+    defaultModel: "qwen2.5:7b",
+    hint: "本地 Ollama 服务（默认 http://localhost:11434/v1），无需 API Key；图片批改需选择视觉模型。",
+    baseUrl: OLLAMA_BASE_URL,
+    authStyle: "none"
+  }),
+  createOpenAICompatibleAdapter({
+    id: "custom",
+    label: "自定义 OpenAI 兼容端点",
+    defaultModel: "",
+    hint: "填写自托管服务的 Base URL（如 http://localhost:8000/v1）与可选 API Key。",
+    requiresApiKey: false,
+    capabilities: { jsonMode: false },
+    configurable: true
+  })
+].forEach(registerProviderAdapter);
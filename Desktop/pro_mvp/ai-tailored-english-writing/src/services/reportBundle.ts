@@ -0,0 +1,137 @@
+/**
+ * 分发用报告包
+ * 每篇作文（或每个学生在同一作业下的全部作文）一个PDF，按文件名模板命名，
+ * 与 manifest.csv（文件名、分数、等级）一起打包为 zip。这里只负责分组、命名与打包，
+ * 文件内容由 pdfReport.ts / docxReport.ts 生成。
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import { Assignment, EssayData, ExportOptions, ReportSplitMode, SchoolClass, Student } from '../types';
+import { findAssignment } from './assignments';
+import { CsvCell, toCsv } from './csv';
+import { normalizeName } from './roster';
+import { getGradeLetter, resolveMaxScore } from './rubric';
+
+export interface ReportContext {
+  assignments: Assignment[];
+  classes: SchoolClass[];
+  roster?: Student[];
+}
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{class}_{student}_{date}';
+export const FILE_NAME_FIELDS = ['class', 'student', 'assignment', 'date'] as const;
+const MANIFEST_FILE_NAME = 'manifest.csv';
+
+type FileNameField = (typeof FILE_NAME_FIELDS)[number];
+
+/**
+ * Names shown in page headers and file names. The class comes from the assignment,
+ * or from the roster entry when the essay is not filed under an assignment.
+ */
+export const describeEssay = (essay: EssayData, context: ReportContext) => {
+  const assignment = findAssignment(context.assignments, essay.assignmentId);
+  const student = essay.studentId ? context.roster?.find((item) => item.id === essay.studentId) : undefined;
+  const schoolClass = assignment?.classId ? context.classes.find((item) => item.id === assignment.classId) : undefined;
+  return {
+    studentName: essay.studentName || student?.name || essay.sourceFileName || 'Submission',
+    assignment,
+    className: schoolClass?.name || student?.className,
+    date: essay.date || essay.addedAt?.slice(0, 10)
+  };
+};
+
+// Roster id when matched, otherwise the written name; essays without either stay on their own
+export const groupReportEssays = (essays: EssayData[], splitBy: ReportSplitMode): EssayData[][] => {
+  if (splitBy === 'combined') return essays.length ? [essays] : [];
+  if (splitBy === 'essay') return essays.map((essay) => [essay]);
+  const groups = new Map<string, EssayData[]>();
+  essays.forEach((essay) => {
+    const student = essay.studentId || normalizeName(essay.studentName) || essay.id;
+    const key = `${student}::${essay.assignmentId || ''}`;
+    groups.set(key, [...(groups.get(key) || []), essay]);
+  });
+  return Array.from(groups.values());
+};
+
+// A student's file is dated by their latest essay
+export const reportFileFields = (essays: EssayData[], context: ReportContext): Record<FileNameField, string> => {
+  const first = describeEssay(essays[0], context);
+  const dates = essays.map((essay) => describeEssay(essay, context).date).filter(Boolean).sort();
+  return {
+    class: first.className || '',
+    student: first.studentName,
+    assignment: first.assignment?.title || '',
+    date: dates[dates.length - 1] || new Date().toISOString().slice(0, 10)
+  };
+};
+
+/**
+ * Fill a template such as "{class}_{student}_{date}". Characters that are not allowed in
+ * file names are replaced, and separators left by empty fields are collapsed.
+ */
+export const formatReportFileName = (template: string, fields: Record<FileNameField, string>, extension = 'pdf') => {
+  const base = (template.trim() || DEFAULT_FILE_NAME_TEMPLATE)
+    .replace(new RegExp(`\\.${extension}$`, 'i'), '')
+    .replace(/\{(\w+)\}/g, (match, key: string) => (key in fields ? fields[key as FileNameField] : match))
+    .replace(/[\\/:*?"<>|\u0000-\u001F]/g, '_')
+    .replace(/\s+/g, ' ')
+    .replace(/_{2,}/g, '_')
+    .replace(/^[_\-.\s]+|[_\-.\s]+$/g, '');
+  return `${base || 'report'}.${extension}`;
+};
+
+// Zip tools on Windows treat names case-insensitively
+export const uniqueFileName = (fileName: string, used: Set<string>) => {
+  const dot = fileName.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ''];
+  let candidate = fileName;
+  for (let n = 2; used.has(candidate.toLowerCase()); n += 1) candidate = `${base}_${n}${extension}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const MANIFEST_HEADER = ['文件名', '学生', '班级', '作业', '日期', '得分', '满分', '等级', '已审核'];
+
+const manifestRow = (fileName: string, essay: EssayData, context: ReportContext): CsvCell[] => {
+  const info = describeEssay(essay, context);
+  const result = essay.gradingResult;
+  const maxScore = result ? resolveMaxScore(result) : undefined;
+  return [
+    fileName,
+    info.studentName,
+    info.className,
+    info.assignment?.title,
+    info.date,
+    result?.score,
+    maxScore,
+    result ? result.grade || getGradeLetter(result.score, maxScore) : undefined,
+    essay.approvedAt ? '是' : '否'
+  ];
+};
+
+/**
+ * One file per essay or per student (options.splitBy), named by options.fileNameTemplate, plus
+ * a manifest with one row per essay. PDF and DOCX files are already compressed, so the zip only stores them.
+ */
+export const buildReportZip = async (
+  essays: EssayData[],
+  options: ExportOptions,
+  context: ReportContext,
+  extension: string,
+  render: (essays: EssayData[]) => Promise<Uint8Array>,
+  onProgress?: (done: number, total: number) => void
+): Promise<Uint8Array> => {
+  const groups = groupReportEssays(essays, options.splitBy === 'combined' ? 'essay' : options.splitBy);
+  const used = new Set<string>([MANIFEST_FILE_NAME]);
+  const files: Record<string, Uint8Array> = {};
+  const rows: CsvCell[][] = [MANIFEST_HEADER];
+  for (let i = 0; i < groups.length; i += 1) {
+    onProgress?.(i, groups.length);
+    const fileName = uniqueFileName(formatReportFileName(options.fileNameTemplate, reportFileFields(groups[i], context), extension), used);
+    files[fileName] = await render(groups[i]);
+    groups[i].forEach((essay) => rows.push(manifestRow(fileName, essay, context)));
+  }
+  onProgress?.(groups.length, groups.length);
+  files[MANIFEST_FILE_NAME] = strToU8(toCsv(rows));
+  return zipSync(files, { level: 0 });
+};
@@ -0,0 +1,62 @@
+/**
+ * 报告中的原图
+ * PDF 与 Word 都只能直接嵌入 JPEG/PNG，其他格式（WebP、浏览器可解码的 HEIC 等）先经 canvas 转为 JPEG。
+ */
+
+import { EssayPage } from '../types';
+
+export interface ReportImage {
+  bytes: Uint8Array;
+  type: 'jpeg' | 'png';
+  width: number;
+  height: number;
+}
+
+const isPng = (bytes: Uint8Array) => bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const readUint16 = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const readUint32 = (bytes: Uint8Array, offset: number) => readUint16(bytes, offset) * 0x10000 + readUint16(bytes, offset + 2);
+
+// Width/height from the IHDR chunk or the first SOF marker, without decoding the image
+const readImageSize = (bytes: Uint8Array, type: ReportImage['type']) => {
+  if (type === 'png') return { width: readUint32(bytes, 16), height: readUint32(bytes, 20) };
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    // SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: readUint16(bytes, offset + 5), width: readUint16(bytes, offset + 7) };
+    }
+    offset += 2 + readUint16(bytes, offset + 2);
+  }
+  return { width: 0, height: 0 };
+};
+
+const toJpegBytes = async (blob: Blob): Promise<Uint8Array> => {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const jpeg = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  if (!jpeg) throw new Error('图片转换失败');
+  return new Uint8Array(await jpeg.arrayBuffer());
+};
+
+export const loadReportImage = async (page: EssayPage): Promise<ReportImage | undefined> => {
+  const blob = page.file || (page.imagePreview ? await (await fetch(page.imagePreview)).blob() : undefined);
+  if (!blob) return undefined;
+  let bytes = new Uint8Array(await blob.arrayBuffer());
+  let type: ReportImage['type'] = 'jpeg';
+  if (isPng(bytes)) type = 'png';
+  else if (!isJpeg(bytes)) bytes = await toJpegBytes(blob);
+  const size = readImageSize(bytes, type);
+  if (!size.width || !size.height) throw new Error('无法读取图片尺寸');
+  return { bytes, type, ...size };
+};
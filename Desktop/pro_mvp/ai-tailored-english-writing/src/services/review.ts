@@ -0,0 +1,93 @@
+/**
+ * 教师审核：每条 AI 批注（纠错、优点、改进建议）都有审核状态，
+ * 全部处理完毕后教师才能签字确认整篇作文
+ */
+
+import { EssayData, GradingSchema, ReviewStatus } from '../types';
+
+export type ReviewListField = 'strengths' | 'improvements';
+
+export interface ReviewSummary {
+  total: number;
+  pending: number;
+  accepted: number;
+  rejected: number;
+  edited: number;
+}
+
+const reviewsKey = (field: ReviewListField) =>
+  field === 'strengths' ? 'strength_reviews' : 'improvement_reviews';
+
+export const getReviewStatus = (status?: ReviewStatus): ReviewStatus => status || 'pending';
+
+export const getListReviews = (result: GradingSchema, field: ReviewListField): ReviewStatus[] =>
+  (result[field] || []).map((_, i) => getReviewStatus(result[reviewsKey(field)]?.[i]));
+
+export const summarizeReviews = (result?: GradingSchema): ReviewSummary => {
+  const summary: ReviewSummary = { total: 0, pending: 0, accepted: 0, rejected: 0, edited: 0 };
+  if (!result) return summary;
+  const statuses = [
+    ...(result.grammar_issues || []).map((issue) => getReviewStatus(issue.review)),
+    ...getListReviews(result, 'strengths'),
+    ...getListReviews(result, 'improvements')
+  ];
+  statuses.forEach((status) => {
+    summary.total += 1;
+    summary[status] += 1;
+  });
+  return summary;
+};
+
+export const setIssueReview = (result: GradingSchema, index: number, status: ReviewStatus): GradingSchema => ({
+  ...result,
+  grammar_issues: result.grammar_issues.map((issue, i) => (i === index ? { ...issue, review: status } : issue))
+});
+
+export const setListReview = (
+  result: GradingSchema,
+  field: ReviewListField,
+  index: number,
+  status: ReviewStatus
+): GradingSchema => {
+  const reviews = getListReviews(result, field);
+  reviews[index] = status;
+  return { ...result, [reviewsKey(field)]: reviews };
+};
+
+// Keep the parallel review array aligned when list items are added or removed
+export const spliceListReview = (
+  result: GradingSchema,
+  field: ReviewListField,
+  index: number,
+  insert?: ReviewStatus
+): ReviewStatus[] => {
+  const reviews = getListReviews(result, field);
+  if (insert) reviews.splice(index, 0, insert);
+  else reviews.splice(index, 1);
+  return reviews;
+};
+
+// 批量接受：只处理仍为 pending 的条目，已拒绝/已编辑的保持不变
+export const acceptAllPending = (result: GradingSchema): GradingSchema => {
+  const accept = (status?: ReviewStatus) => (getReviewStatus(status) === 'pending' ? 'accepted' : status);
+  return {
+    ...result,
+    grammar_issues: result.grammar_issues.map((issue) => ({ ...issue, review: accept(issue.review) })),
+    strength_reviews: getListReviews(result, 'strengths').map(accept),
+    improvement_reviews: getListReviews(result, 'improvements').map(accept)
+  };
+};
+
+export const isApproved = (essay: EssayData) => Boolean(essay.gradingResult && essay.approvedAt);
+
+export const canApprove = (essay: EssayData) =>
+  Boolean(essay.gradingResult) && summarizeReviews(essay.gradingResult).pending === 0;
+
+// Rejected comments never go home: reports (PDF/Word) only include the rest
+export const exportableIssues = (result: GradingSchema) =>
+  (result.grammar_issues || []).filter((issue) => getReviewStatus(issue.review) !== 'rejected');
+
+export const exportableListItems = (result: GradingSchema, field: ReviewListField) => {
+  const reviews = getListReviews(result, field);
+  return (result[field] || []).filter((item, i) => item.trim() && reviews[i] !== 'rejected');
+};
@@ -0,0 +1,105 @@
+/**
+ * 学生花名册：把 OCR / 文件名里识别出的姓名归到同一个学生
+ * 匹配顺序：姓名或别名完全一致（忽略大小写/空白/标点）→ 识别出的姓名是唯一一位学生姓名的开头几个词 → 编辑距离 1 且唯一
+ */
+
+import { EssayData, Student } from '../types';
+
+// Placeholders written when no name could be read; never matched or learned as aliases
+const PLACEHOLDER_NAMES = new Set(['', 'unknown', 'unknown student', 'student', 'name', '未知', '未知学生']);
+
+export const normalizeName = (name?: string) =>
+  (name || '')
+    .toLowerCase()
+    .replace(/^\s*(name|姓名)\s*[:：]\s*/, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const isPlaceholderName = (name?: string) => PLACEHOLDER_NAMES.has(normalizeName(name));
+
+const namesOf = (student: Student) => [student.name, ...student.aliases].map(normalizeName).filter(Boolean);
+
+const withinOneEdit = (a: string, b: string) => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i += 1;
+      j += 1;
+      continue;
+    }
+    edits += 1;
+    if (edits > 1) return false;
+    if (a.length > b.length) i += 1;
+    else if (b.length > a.length) j += 1;
+    else {
+      i += 1;
+      j += 1;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+const uniqueMatch = (candidates: Student[]) => (candidates.length === 1 ? candidates[0] : undefined);
+
+export const matchStudent = (roster: Student[], rawName?: string): Student | undefined => {
+  const target = normalizeName(rawName);
+  if (!target || isPlaceholderName(target) || roster.length === 0) return undefined;
+
+  const exact = roster.find((student) => namesOf(student).includes(target));
+  if (exact) return exact;
+
+  // "Tom" -> "Tom Li" only when exactly one student's name starts with the extracted words. A
+  // shared first word alone is not enough: pinyin names start with the surname ("Li Hua", "Li Ming")
+  const words = target.split(' ');
+  const byLeadingWords = uniqueMatch(
+    roster.filter((student) =>
+      namesOf(student).some((name) => {
+        const nameWords = name.split(' ');
+        return nameWords.length > words.length && words.every((word, index) => nameWords[index] === word);
+      })
+    )
+  );
+  if (byLeadingWords) return byLeadingWords;
+
+  if (target.length < 4) return undefined;
+  return uniqueMatch(roster.filter((student) => namesOf(student).some((name) => withinOneEdit(name, target))));
+};
+
+export const createStudent = (name: string, extra: Partial<Omit<Student, 'id' | 'name'>> = {}): Student => ({
+  id: `stu-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim(),
+  aliases: [],
+  createdAt: new Date().toISOString(),
+  ...extra
+});
+
+// Remember a new spelling for a student unless it is already covered or a placeholder
+export const addAlias = (student: Student, alias?: string): Student => {
+  if (!alias || isPlaceholderName(alias)) return student;
+  const normalized = normalizeName(alias);
+  if (namesOf(student).includes(normalized)) return student;
+  return { ...student, aliases: [...student.aliases, alias.trim()] };
+};
+
+export const parseAliases = (value: string) =>
+  value
+    .split(/[,，;；]/)
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+
+/**
+ * Link an essay to a roster student based on its extracted name.
+ * Essays already linked by the teacher keep their student.
+ */
+export const applyRosterMatch = (essay: EssayData, roster: Student[], rawName?: string): EssayData => {
+  const extractedName = essay.extractedName || rawName || essay.studentName;
+  const linked = essay.studentId ? roster.find((student) => student.id === essay.studentId) : undefined;
+  if (linked) return { ...essay, extractedName, studentName: linked.name };
+  const student = matchStudent(roster, rawName || essay.studentName);
+  if (!student) return { ...essay, extractedName, studentId: undefined };
+  return { ...essay, extractedName, studentId: student.id, studentName: student.name };
+};
@@ -0,0 +1,114 @@
+/**
+ * 默认评分维度（Rubric）及加权总分计算
+ * 维度描述会直接写入系统提示词，模型按维度返回 dimension_scores
+ */
+
+import { GradingSchema, RubricDimension } from '../types';
+import { findScoreBand, getExamPreset } from './examPresets';
+
+export const DEFAULT_RUBRIC: RubricDimension[] = [
+  {
+    id: 'grammar',
+    name: 'Grammar',
+    description: '正确时态/主谓一致/冠词，指出错误并给出替换。例如 “She go to school” -> “She goes to school.” 解释用中文。',
+    maxPoints: 5,
+    weight: 30
+  },
+  {
+    id: 'vocabulary',
+    name: 'Vocabulary',
+    description: '词汇多样性与准确性，给出同义词或短语替换。例如 “good” -> “remarkable / impressive”。',
+    maxPoints: 5,
+    weight: 25
+  },
+  {
+    id: 'structure',
+    name: 'Structure/Coherence',
+    description: '段落与衔接词使用，指出缺少过渡句并提供示例句。',
+    maxPoints: 5,
+    weight: 25
+  },
+  {
+    id: 'spelling',
+    name: 'Spelling/Punctuation',
+    description: '标注错误词并给出正确拼写或标点用法。',
+    maxPoints: 5,
+    weight: 20
+  }
+];
+
+export const createDimensionId = (name: string, existing: RubricDimension[]) => {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '') || 'dimension';
+  let id = base;
+  let suffix = 2;
+  while (existing.some((dim) => dim.id === id)) {
+    id = `${base}_${suffix}`;
+    suffix += 1;
+  }
+  return id;
+};
+
+const roundScore = (value: number, step: number) => {
+  const rounded = Math.round(value / step) * step;
+  return Math.round(rounded * 100) / 100;
+};
+
+/**
+ * 按权重把各维度得分换算到总分：sum(得分/满分 × 权重) / sum(权重) × maxScore
+ * 结果按 step 取整（默认 0.1；IELTS 等按 0.5）
+ * 任一维度缺分时返回 undefined，由调用方保留原总分
+ */
+export const computeWeightedTotal = (
+  rubric: RubricDimension[],
+  dimensionScores: Record<string, number> | undefined,
+  maxScore: number,
+  step: number = 0.1
+): number | undefined => {
+  if (!dimensionScores || rubric.length === 0) return undefined;
+  const totalWeight = rubric.reduce((sum, dim) => sum + Math.max(dim.weight, 0), 0);
+  if (totalWeight <= 0) return undefined;
+
+  let weighted = 0;
+  for (const dim of rubric) {
+    const score = dimensionScores[dim.id];
+    if (typeof score !== 'number' || !Number.isFinite(score)) return undefined;
+    const ratio = dim.maxPoints > 0 ? Math.min(Math.max(score, 0), dim.maxPoints) / dim.maxPoints : 0;
+    weighted += ratio * Math.max(dim.weight, 0);
+  }
+  return roundScore((weighted / totalWeight) * maxScore, step > 0 ? step : 0.1);
+};
+
+// Prefer the max score recorded at grading time; older results fall back to a guess
+export const resolveMaxScore = (result?: GradingSchema) => {
+  if (result?.maxScore) return result.maxScore;
+  return result?.score && result.score > 20 ? 100 : 20;
+};
+
+// Rounding step the result was graded with; results from before it was recorded use their preset's
+export const resolveScoreStep = (result?: GradingSchema) =>
+  result?.scoreStep ?? getExamPreset(result?.examPresetId)?.scoreStep;
+
+/**
+ * 老师手动改分：限制在 0 到满分之间并按评分步长取整，再重新确定等级——考试预设取对应分数段，否则去掉旧等级，显示时按百分比计算
+ */
+export const withManualScore = (result: GradingSchema, score: number): GradingSchema => {
+  const preset = getExamPreset(result.examPresetId);
+  const step = resolveScoreStep(result);
+  const clamped = Math.min(Math.max(score, 0), resolveMaxScore(result));
+  const rounded = step && step > 0 ? roundScore(clamped, step) : clamped;
+  return { ...result, score: rounded, grade: preset ? findScoreBand(preset, rounded)?.label : undefined };
+};
+
+export const getGradeLetter = (score: number, maxScore: number = 100) => {
+  // Normalize to percentage if maxScore is different
+  const percentage = (score / maxScore) * 100;
+  if (percentage >= 90) return 'A';
+  if (percentage >= 80) return 'B';
+  if (percentage >= 70) return 'C';
+  if (percentage >= 60) return 'D';
+  return 'F';
+};
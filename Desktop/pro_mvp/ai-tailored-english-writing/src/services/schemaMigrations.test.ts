@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ESSAY_MIGRATIONS, ESSAY_SCHEMA_VERSION, StoredEssayRecord, migrateEssayRecord } from './schemaMigrations';
+
+// docs/migrations/v1.json is an old record; v<N>.json is the same record after step N
+const fixtureModules = import.meta.glob<StoredEssayRecord>('../../docs/migrations/v*.json', { eager: true, import: 'default' });
+
+const fixture = (version: number) => {
+  const record = fixtureModules[`../../docs/migrations/v${version}.json`];
+  if (!record) throw new Error(`docs/migrations/v${version}.json is missing`);
+  return structuredClone(record);
+};
+
+describe('essay schema migrations', () => {
+  it('has a fixture for every version', () => {
+    for (let version = 1; version <= ESSAY_SCHEMA_VERSION; version += 1) expect(() => fixture(version)).not.toThrow();
+  });
+
+  describe.each(ESSAY_MIGRATIONS.map((step) => [step.version, step] as const))('step to v%i', (version, step) => {
+    it('turns the previous fixture into this one', () => {
+      expect(step.migrate(fixture(version - 1))).toEqual(fixture(version));
+    });
+
+    it('leaves an already migrated record unchanged', () => {
+      expect(step.migrate(fixture(version))).toEqual(fixture(version));
+    });
+
+    it('brings the previous fixture up to the latest version', () => {
+      expect(migrateEssayRecord(fixture(version - 1))).toEqual({ ...fixture(ESSAY_SCHEMA_VERSION), schemaVersion: ESSAY_SCHEMA_VERSION });
+    });
+  });
+
+  it('refuses records from a newer schema', () => {
+    expect(() => migrateEssayRecord({ ...fixture(ESSAY_SCHEMA_VERSION), schemaVersion: ESSAY_SCHEMA_VERSION + 1 })).toThrow();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * 作文记录的版本与迁移
+ * 每条保存的作文带 schemaVersion（没有的视为 1）；读取时按版本号依次执行迁移，把旧记录补成当前的 EssayData 结构，
+ * 而不是靠 reviveEssay 的展开和默认值碰运气。每一步都可以重复执行（对已是新结构的记录不做改动），
+ * 因为引入版本号之前写入的记录已经是不同时期的结构。
+ * 修改 EssayData 的保存结构时：ESSAY_SCHEMA_VERSION 加一，在 ESSAY_MIGRATIONS 末尾加一步，
+ * 并在 docs/migrations 中补充该步的迁移后样例（npm test 会逐步核对）。
+ */
+
+import { ProcessingStatus } from '../types';
+import { anchorIssues } from './issueAnchoring';
+
+export const ESSAY_SCHEMA_VERSION = 4;
+
+// Records are read as plain JSON; their shape is only trusted after migration
+export type StoredEssayRecord = Record<string, any>;
+
+export interface EssayMigration {
+  version: number; // Version of the record after this step
+  description: string;
+  migrate: (record: StoredEssayRecord) => StoredEssayRecord;
+}
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : value === undefined || value === null ? '' : String(value));
+
+// Scores were sometimes saved as strings ("85" or "85/100") before model output was validated
+const asScore = (value: unknown) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const parsed = Number.parseFloat(asString(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// A single string (an early prompt returned one) becomes a one-item list
+const asStringList = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.trim() ? [value] : [];
+  return Array.isArray(value) ? value.filter((item) => typeof item === 'string') : [];
+};
+
+export const ESSAY_MIGRATIONS: EssayMigration[] = [
+  {
+    version: 2,
+    description: 'gradingResult saved from unvalidated model output: numeric score, list fields always arrays, corrections with string fields',
+    migrate: (record) => {
+      const result = record.gradingResult;
+      if (result === undefined) return record;
+      if (!result || typeof result !== 'object' || Array.isArray(result)) {
+        const { gradingResult, ...rest } = record;
+        return rest;
+      }
+      return {
+        ...record,
+        gradingResult: {
+          ...result,
+          score: asScore(result.score),
+          summary_cn: asString(result.summary_cn),
+          strengths: asStringList(result.strengths),
+          improvements: asStringList(result.improvements),
+          grammar_issues: (Array.isArray(result.grammar_issues) ? result.grammar_issues : [])
+            .filter((issue: unknown) => issue && typeof issue === 'object')
+            .map((issue: StoredEssayRecord) => ({
+              ...issue,
+              original: asString(issue.original),
+              correction: asString(issue.correction),
+              explanation: asString(issue.explanation)
+            }))
+        }
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Corrections saved before transcript offsets are anchored to the text (start/end, or unlocated)',
+    migrate: (record) => {
+      const issues = record.gradingResult?.grammar_issues;
+      if (!Array.isArray(issues) || !issues.some((issue) => issue.start === undefined && !issue.unlocated)) return record;
+      const text = asString(record.ocrText) || asString(record.rawText);
+      return { ...record, gradingResult: { ...record.gradingResult, grammar_issues: anchorIssues(text, issues) } };
+    }
+  },
+  {
+    version: 4,
+    description: 'Results graded before grading history become its first revision (time, model and config unknown)',
+    migrate: (record) => {
+      if (!record.gradingResult || Array.isArray(record.gradingHistory)) return record;
+      const revisionId = `${record.id}-rev-1`;
+      return { ...record, gradingHistory: [{ id: revisionId, result: record.gradingResult }], gradingRevisionId: revisionId };
+    }
+  }
+];
+
+export const getRecordVersion = (record: StoredEssayRecord) =>
+  typeof record?.schemaVersion === 'number' ? record.schemaVersion : 1;
+
+const isRecord = (value: unknown): value is StoredEssayRecord =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value) && typeof (value as StoredEssayRecord).id === 'string';
+
+/**
+ * Bring one record up to ESSAY_SCHEMA_VERSION. `fromVersion` overrides the record's own
+ * version, for payloads that carry one version for all records (legacy localStorage, archives).
+ * Throws for records that are not essays or were written by a newer version of the app.
+ */
+export const migrateEssayRecord = (record: unknown, fromVersion?: number): StoredEssayRecord => {
+  if (!isRecord(record)) throw new Error('作文记录格式无法识别');
+  const version = fromVersion ?? getRecordVersion(record);
+  if (version > ESSAY_SCHEMA_VERSION) {
+    throw new Error(`作文记录由更新版本的应用保存（版本 ${version}，当前支持 ${ESSAY_SCHEMA_VERSION}），请先更新应用`);
+  }
+  const migrated = ESSAY_MIGRATIONS
+    .filter((step) => step.version > version)
+    .reduce((current, step) => step.migrate(current), record);
+  // Restored essays must have a status; older records could lack one
+  const status = Object.values(ProcessingStatus).includes(migrated.status) ? migrated.status : ProcessingStatus.PENDING;
+  return { ...migrated, status, schemaVersion: ESSAY_SCHEMA_VERSION };
+};
+
+export const needsMigration = (record: unknown) => !isRecord(record) || getRecordVersion(record) !== ESSAY_SCHEMA_VERSION;
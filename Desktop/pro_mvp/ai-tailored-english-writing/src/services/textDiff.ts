@@ -0,0 +1,95 @@
+export type DiffOpType = "equal" | "insert" | "delete";
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+// Words (with inner apostrophes/hyphens), whitespace runs, and single punctuation marks
+const TOKEN_PATTERN = /[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*|\s+|[^\sA-Za-z0-9]/g;
+
+const tokenize = (text: string) => text.match(TOKEN_PATTERN) || [];
+
+const isSpace = (token: string) => /^\s+$/.test(token);
+
+// Whitespace differences (line wrapping, double spaces) are not worth highlighting
+const sameToken = (a: string, b: string) => a === b || (isSpace(a) && isSpace(b));
+
+const pushOp = (ops: DiffOp[], type: DiffOpType, text: string) => {
+  if (!text) return;
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) last.text += text;
+  else ops.push({ type, text });
+};
+
+/**
+ * Word-level diff between the student's text and the revision (LCS over tokens).
+ * Equal whitespace is emitted from the revision side so paragraph breaks follow it.
+ */
+export const diffWords = (before: string, after: string): DiffOp[] => {
+  const a = tokenize(before || "");
+  const b = tokenize(after || "");
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && sameToken(a[prefix], b[prefix])) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    sameToken(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) {
+    suffix += 1;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const rows = midA.length;
+  const cols = midB.length;
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..], flattened
+  const lcs = new Uint16Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lcs[at(i, j)] = sameToken(midA[i], midB[j])
+        ? lcs[at(i + 1, j + 1)] + 1
+        : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  pushOp(ops, "equal", b.slice(0, prefix).join(""));
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (sameToken(midA[i], midB[j])) {
+      pushOp(ops, "equal", midB[j]);
+      i += 1;
+      j += 1;
+    } else if (lcs[at(i + 1, j)] >= lcs[at(i, j + 1)]) {
+      pushOp(ops, "delete", midA[i]);
+      i += 1;
+    } else {
+      pushOp(ops, "insert", midB[j]);
+      j += 1;
+    }
+  }
+  while (i < rows) pushOp(ops, "delete", midA[i++]);
+  while (j < cols) pushOp(ops, "insert", midB[j++]);
+
+  pushOp(ops, "equal", b.slice(b.length - suffix).join(""));
+  return ops;
+};
+
+export const summarizeDiff = (ops: DiffOp[]) => {
+  const countWords = (text: string) => (text.match(/[A-Za-z0-9]+/g) || []).length;
+  return ops.reduce(
+    (acc, op) => {
+      if (op.type === "insert") acc.inserted += countWords(op.text);
+      if (op.type === "delete") acc.deleted += countWords(op.text);
+      return acc;
+    },
+    { inserted: 0, deleted: 0 }
+  );
+};
@@ -0,0 +1,265 @@
+/**
+ * 工作区备份与恢复
+ * 把作文（含批改与审核状态）、原图、设置（含自定义提示词）、花名册、班级和作业打包为一个 zip，
+ * 用于在学校和家里的电脑之间迁移，或把批改好的一批作文交给同事。
+ * API Key 不写入备份；导入时 id 相同的记录视为冲突，可合并（保留本机或使用导入的）或替换整个工作区。
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { AgentConfig, Assignment, EssayData, EssayPage, ProcessingStatus, SchoolClass, Student } from '../types';
+import { getEssayPages } from './essayPages';
+import { ESSAY_SCHEMA_VERSION, migrateEssayRecord } from './schemaMigrations';
+
+export const WORKSPACE_FORMAT = 'essayflow-workspace';
+export const WORKSPACE_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const DATA_FILES = {
+  essays: 'essays.json',
+  config: 'config.json',
+  roster: 'roster.json',
+  classes: 'classes.json',
+  assignments: 'assignments.json'
+};
+
+export interface WorkspaceData {
+  essays: EssayData[];
+  config: AgentConfig;
+  roster: Student[];
+  classes: SchoolClass[];
+  assignments: Assignment[];
+}
+
+interface ArchivedImage {
+  id: string; // Page id; the essay id for single-image essays
+  essayId: string;
+  path: string;
+  name?: string;
+  type?: string;
+}
+
+export interface WorkspaceManifest {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  schemaVersion?: number; // Essay record schema; archives without it hold version 1 records
+  exportedAt: string;
+  counts: { essays: number; images: number; students: number; classes: number; assignments: number };
+  images: ArchivedImage[];
+}
+
+export interface ImportedWorkspace extends WorkspaceData {
+  manifest: WorkspaceManifest;
+}
+
+// Replace everything, or add the archive to the current workspace and settle id collisions one way
+export type WorkspaceImportMode = 'replace' | 'keep-local' | 'use-incoming';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'image/heif': 'heif'
+};
+
+const isTransientPreview = (url?: string) => Boolean(url && (url.startsWith('data:') || url.startsWith('blob:')));
+
+const readBlob = async (page: EssayPage): Promise<Blob | undefined> => {
+  if (page.file) return page.file;
+  if (!isTransientPreview(page.imagePreview)) return undefined;
+  try {
+    return await (await fetch(page.imagePreview!)).blob();
+  } catch (err) {
+    console.warn('Could not read image preview for the workspace archive', err);
+    return undefined;
+  }
+};
+
+// Files and object URLs only live in this session; the archived image replaces them
+const toRecord = (essay: EssayData, archived: Set<string>) => {
+  const { file, originalFile, ...rest } = essay;
+  const firstImageId = essay.pages?.[0]?.id || essay.id;
+  const record = { ...rest };
+  if (archived.has(firstImageId) || isTransientPreview(record.imagePreview)) record.imagePreview = undefined;
+  if (record.pages) {
+    record.pages = record.pages.map(({ file: pageFile, originalFile: pageOriginal, ...page }) =>
+      archived.has(page.id) || isTransientPreview(page.imagePreview) ? { ...page, imagePreview: undefined } : page
+    );
+  }
+  return record;
+};
+
+// The API key stays on this machine, especially when the archive goes to a colleague
+const withoutSecrets = (config: AgentConfig): AgentConfig => {
+  const { apiKey, ...model } = config.model;
+  return { ...config, model };
+};
+
+export const createWorkspaceArchive = async (workspace: WorkspaceData): Promise<Uint8Array> => {
+  const files: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {};
+  const images: ArchivedImage[] = [];
+  for (const essay of workspace.essays) {
+    if (essay.submissionType !== 'image') continue;
+    for (const page of getEssayPages(essay)) {
+      const blob = await readBlob(page);
+      if (!blob) continue;
+      const type = blob.type || 'application/octet-stream';
+      const path = `images/${page.id.replace(/[^\w-]/g, '_')}.${EXTENSIONS[type] || 'bin'}`;
+      // Images are already compressed
+      files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+      images.push({ id: page.id, essayId: essay.id, path, name: page.file?.name || page.fileName, type });
+    }
+  }
+  const archived = new Set(images.map((image) => image.id));
+  const manifest: WorkspaceManifest = {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    schemaVersion: ESSAY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    counts: {
+      essays: workspace.essays.length,
+      images: images.length,
+      students: workspace.roster.length,
+      classes: workspace.classes.length,
+      assignments: workspace.assignments.length
+    },
+    images
+  };
+  const json = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+  return zipSync({
+    [MANIFEST_FILE]: json(manifest),
+    [DATA_FILES.essays]: json(workspace.essays.map((essay) => toRecord(essay, archived))),
+    [DATA_FILES.config]: json(withoutSecrets(workspace.config)),
+    [DATA_FILES.roster]: json(workspace.roster),
+    [DATA_FILES.classes]: json(workspace.classes),
+    [DATA_FILES.assignments]: json(workspace.assignments),
+    ...files
+  });
+};
+
+const readJson = <T>(entries: Record<string, Uint8Array>, name: string): T | undefined => {
+  if (!entries[name]) return undefined;
+  try {
+    return JSON.parse(strFromU8(entries[name])) as T;
+  } catch {
+    throw new Error(`备份文件中的 ${name} 已损坏`);
+  }
+};
+
+const readList = <T>(entries: Record<string, Uint8Array>, name: string): T[] => {
+  const value = readJson<T[]>(entries, name);
+  return Array.isArray(value) ? value : [];
+};
+
+// Work that was running when the archive was made has to be started again
+const resetInterrupted = (essay: EssayData): EssayData =>
+  essay.status === ProcessingStatus.PROCESSING
+    ? {
+      ...essay,
+      status: ProcessingStatus.PENDING,
+      ocrStatus: essay.ocrStatus === 'processing' ? 'idle' : essay.ocrStatus,
+      gradingStatus: essay.gradingStatus === 'processing' ? 'idle' : essay.gradingStatus,
+      progressStep: 'queued',
+      progressMessage: '导入的作文，可重新开始批改'
+    }
+    : essay;
+
+const attachImages = (essay: EssayData, images: Map<string, File>): EssayData => {
+  const restore = (id: string) => {
+    const file = images.get(id);
+    return file ? { file, imagePreview: URL.createObjectURL(file) } : {};
+  };
+  if (essay.pages?.length) {
+    const pages = essay.pages.map((page) => ({ ...page, ...restore(page.id) }));
+    return { ...essay, pages, file: pages[0].file, imagePreview: pages[0].imagePreview };
+  }
+  return essay.submissionType === 'image' ? { ...essay, ...restore(essay.id) } : essay;
+};
+
+/**
+ * Unpack an archive made by createWorkspaceArchive. Archives from a newer version of the
+ * app are refused rather than half-read.
+ */
+export const readWorkspaceArchive = (bytes: Uint8Array): ImportedWorkspace => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(bytes);
+  } catch {
+    throw new Error('无法读取备份文件：不是有效的 zip');
+  }
+  const manifest = readJson<WorkspaceManifest>(entries, MANIFEST_FILE);
+  if (manifest?.format !== WORKSPACE_FORMAT) throw new Error('这不是 EssayFlow 工作区备份文件');
+  if (!(manifest.version <= WORKSPACE_VERSION)) {
+    throw new Error(`备份文件版本 ${manifest.version} 高于当前支持的版本 ${WORKSPACE_VERSION}，请先更新应用`);
+  }
+
+  const images = new Map<string, File>();
+  (manifest.images || []).forEach((image) => {
+    const data = entries[image.path];
+    if (data) images.set(image.id, new File([data], image.name || image.path.split('/').pop()!, { type: image.type || '' }));
+  });
+  const config = readJson<AgentConfig>(entries, DATA_FILES.config);
+  if (!config) throw new Error(`备份文件缺少 ${DATA_FILES.config}`);
+  const essays = readList<unknown>(entries, DATA_FILES.essays).map((record) => {
+    // Essays in memory carry no schemaVersion; persistence stamps it when writing
+    const { schemaVersion, ...essay } = migrateEssayRecord(record, manifest.schemaVersion ?? 1);
+    return essay as EssayData;
+  });
+  return {
+    manifest,
+    essays: essays.map((essay) => resetInterrupted(attachImages(essay, images))),
+    config,
+    roster: readList<Student>(entries, DATA_FILES.roster),
+    classes: readList<SchoolClass>(entries, DATA_FILES.classes),
+    assignments: readList<Assignment>(entries, DATA_FILES.assignments)
+  };
+};
+
+const countShared = <T extends { id: string }>(local: T[], incoming: T[]) => {
+  const ids = new Set(local.map((item) => item.id));
+  return incoming.filter((item) => ids.has(item.id)).length;
+};
+
+// Records in the archive whose id already exists here
+export const findWorkspaceCollisions = (current: WorkspaceData, incoming: WorkspaceData) => ({
+  essays: countShared(current.essays, incoming.essays),
+  students: countShared(current.roster, incoming.roster),
+  classes: countShared(current.classes, incoming.classes),
+  assignments: countShared(current.assignments, incoming.assignments)
+});
+
+// Local order is kept; new records from the archive go at the end
+const mergeById = <T extends { id: string }>(local: T[], incoming: T[], preferIncoming: boolean) => {
+  const incomingById = new Map(incoming.map((item) => [item.id, item]));
+  const localIds = new Set(local.map((item) => item.id));
+  return [
+    ...local.map((item) => (preferIncoming && incomingById.has(item.id) ? incomingById.get(item.id)! : item)),
+    ...incoming.filter((item) => !localIds.has(item.id))
+  ];
+};
+
+/**
+ * The workspace after an import. Merging keeps this machine's settings; replacing takes the
+ * archive's settings but keeps the local API key, which archives never carry.
+ */
+export const mergeWorkspace = (current: WorkspaceData, incoming: WorkspaceData, mode: WorkspaceImportMode): WorkspaceData => {
+  if (mode === 'replace') {
+    const { essays, roster, classes, assignments } = incoming;
+    return {
+      essays,
+      roster,
+      classes,
+      assignments,
+      config: { ...incoming.config, model: { ...incoming.config.model, apiKey: incoming.config.model?.apiKey || current.config.model.apiKey } }
+    };
+  }
+  const preferIncoming = mode === 'use-incoming';
+  return {
+    essays: mergeById(current.essays, incoming.essays, preferIncoming),
+    config: current.config,
+    roster: mergeById(current.roster, incoming.roster, preferIncoming),
+    classes: mergeById(current.classes, incoming.classes, preferIncoming),
+    assignments: mergeById(current.assignments, incoming.assignments, preferIncoming)
+  };
+};
@@ -24,31 +24,164 @@ export type ProcessingStep = 'queued' | 'ocr' | 'ocr_complete' | 'grading' | 'do
 export interface GradingCriteria {
   maxScore: number;
   focusAreas: string[]; // e.g., "Grammar", "Creativity"
+  scoreStep?: number; // Round the weighted total to this step (e.g. 0.5 for IELTS bands)
+}
+
+// Teacher review state of a single AI comment; missing means 'pending'
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected' | 'edited';
+
+export interface GrammarIssue {
+  type?: string; // e.g., "Grammar", "Vocabulary", "Spelling", "Structure"
+  original: string;
+  correction: string;
+  explanation: string;
+  // Character offsets of `original` in ocrText, computed locally after grading (never taken from the model)
+  start?: number;
+  end?: number;
+  unlocated?: boolean; // `original` could not be found in ocrText; teacher should fix it
+  review?: ReviewStatus;
+}
+
+// 评分维度：模型按 id 在 dimension_scores 中返回各维度得分
+export interface RubricDimension {
+  id: string; // Key in dimension_scores, e.g. "grammar"
+  name: string;
+  description: string;
+  maxPoints: number;
+  weight: number; // Relative weight used to recompute the total
+}
+
+export interface ScoreBand {
+  label: string; // e.g. "Band 7", "第五档"
+  minScore: number; // Lowest total that falls into this band
+  descriptor: string;
+}
+
+// 考试预设：由 src/presets/*.json 数据文件提供
+export interface ExamPreset {
+  id: string;
+  order?: number;
+  name: string;
+  description?: string;
+  level: StudentLevel;
+  levelGuidance: string;
+  taskType?: string;
+  maxScore: number;
+  scoreStep?: number;
+  wordCount?: { min?: number; max?: number };
+  focusAreas: string[];
+  rubric: RubricDimension[];
+  bands: ScoreBand[];
 }
 
 export interface GradingSchema {
   score: number;
   grade?: string; // Custom grade letter (e.g., "A", "B+"), overrides auto-calculated grade
+  dimension_scores?: Record<string, number>; // Per-dimension points keyed by RubricDimension.id
+  rubric?: RubricDimension[]; // Snapshot of the rubric used, so the breakdown survives config changes
+  maxScore?: number; // Max score at grading time
+  scoreStep?: number; // Rounding step of the total at grading time (0.5 for IELTS bands)
+  examPresetId?: string; // Exam preset graded against; its bands label the score
   summary_cn: string; // Chinese summary
-  grammar_issues: {
-    type?: string; // e.g., "Grammar", "Vocabulary", "Spelling", "Structure"
-    original: string;
-    correction: string;
-    explanation: string;
-  }[];
+  grammar_issues: GrammarIssue[];
   strengths: string[];
   improvements: string[];
+  revised_essay?: string; // Level-appropriate model revision (optional second pass)
+  strength_reviews?: ReviewStatus[]; // Parallel to strengths
+  improvement_reviews?: ReviewStatus[]; // Parallel to improvements
+}
+
+// Grading settings a run used; the model is recorded on the revision and the API key never is
+export type GradingConfigSnapshot = Pick<AgentConfig, 'level' | 'criteria' | 'rubric' | 'prompts' | 'examPresetId' | 'generateRevision'>;
+
+// 一次AI批改的记录：重改和恢复都不会丢掉之前的结果与老师的修改
+export interface GradingRevision {
+  id: string;
+  gradedAt?: string; // ISO time; unknown for results graded before history was kept
+  provider?: AIProvider;
+  model?: string;
+  assignmentId?: string;
+  assignmentTitle?: string; // At grading time
+  config?: GradingConfigSnapshot;
+  result: GradingSchema; // As returned by the grader
+  editedResult?: GradingSchema; // The teacher's version when the run was last replaced, if it differed
+}
+
+// 花名册中的学生；aliases 记录 OCR/文件名中出现过的其他写法
+export interface Student {
+  id: string;
+  name: string; // Display name
+  aliases: string[]; // e.g. "tom", "Tom Li"
+  className?: string;
+  level?: StudentLevel;
+  createdAt: string;
+}
+
+// 班级；作业可归属于某个班级
+export interface SchoolClass {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// 作业：题目 + 一套独立的批改配置；挂在作业下的作文按这套配置批改（模型设置仍用全局）
+export interface Assignment {
+  id: string;
+  classId?: string;
+  title: string;
+  prompt: string; // Topic / task text given to students, sent to the grader as the essay topic
+  dueDate?: string; // YYYY-MM-DD
+  level: StudentLevel;
+  criteria: GradingCriteria;
+  rubric?: RubricDimension[];
+  prompts?: GradingPrompts;
+  examPresetId?: string;
+  createdAt: string;
+}
+
+// Manual adjustments from the image editor, applied before the automatic clean-up
+export interface ImageEdit {
+  rotation: number; // Degrees clockwise (quarter turns plus fine tilt)
+  crop?: { x: number; y: number; width: number; height: number }; // Fractions of the rotated image
+}
+
+// One word as recognized by the OCR engine, in reading order
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0-1
+}
+
+// One image of a multi-page submission
+export interface EssayPage {
+  id: string; // Also the key of the page's blob in the images store
+  file?: File;
+  imagePreview?: string;
+  fileName?: string;
+  originalFile?: File; // Upload before preprocessing; kept for this session only
+  preprocessSummary?: string; // What preprocessing changed, e.g. "纠偏 2.5° · 裁剪纸张"
+  imageEdit?: ImageEdit;
+  ocrText?: string; // This page's transcript; EssayData.ocrText joins them in page order
+  ocrWords?: OcrWord[];
+  ocrDocumentId?: string;
+  ocrUploadedAt?: string;
 }
 
 export interface EssayData {
   id: string;
   submissionType: 'image' | 'text' | 'markdown';
-  file?: File;
+  file?: File; // First page when the essay has several (see pages)
   imagePreview?: string; // Base64 or ObjectURL (optional if text submission)
+  pages?: EssayPage[]; // Ordered pages; absent for single-image submissions
+  // Single-image submissions keep these on the essay (see EssayPage)
+  originalFile?: File;
+  preprocessSummary?: string;
+  imageEdit?: ImageEdit;
 
   // Content
   rawText?: string; // For direct text input
   ocrText: string; // Final text used for grading
+  ocrWords?: OcrWord[]; // Word confidences for ocrText, all pages in order; absent when the engine reports none
+  ocrVerifiedAt?: string; // Teacher checked ocrText against the image (ISO time); cleared by a new OCR run
 
   status: ProcessingStatus;
   progressStep?: ProcessingStep;
@@ -56,25 +189,46 @@ export interface EssayData {
 
   // Metadata
   studentName?: string;
+  studentId?: string; // Roster student this essay belongs to (see Student)
+  extractedName?: string; // Name as read from the header/file before roster matching
   date?: string;
   topic?: string;
   addedAt?: string;
   batchId?: string;
+  assignmentId?: string; // Graded with this assignment's config instead of the global one
   ocrStatus?: StepStatus;
   gradingStatus?: StepStatus;
+  ocrDocumentId?: string; // handwritingocr.com document id, kept so an interrupted OCR can be polled again
+  ocrUploadedAt?: string; // ISO time of that upload (documents expire after 7 days)
   sourceFileName?: string;
   sourcePath?: string;
 
   // Grading
   gradingResult?: GradingSchema;
+  gradingHistory?: GradingRevision[]; // Every grading run, oldest first
+  gradingRevisionId?: string; // Revision gradingResult was taken from; absent when it no longer applies
   errorMessage?: string;
+  approvedAt?: string; // ISO time of teacher sign-off; cleared whenever the grading changes
+  deletedAt?: string; // In the trash since (ISO time); trashed essays are kept apart from the essay list
 }
 
-export type AIProvider = 'openai' | 'openrouter' | 'gemini' | 'deepseek';
+export type BuiltInProvider =
+  | 'openai'
+  | 'openrouter'
+  | 'gemini'
+  | 'deepseek'
+  | 'anthropic'
+  | 'azure-openai'
+  | 'ollama'
+  | 'custom';
+// Open-ended so additional adapters can be registered without touching this union
+export type AIProvider = BuiltInProvider | (string & {});
 
 export interface ModelSettings {
   provider: AIProvider;
   model: string; // e.g., "gpt-4o-mini", "openai/gpt-4o-mini"
+  baseUrl?: string; // Runtime endpoint for configurable adapters (custom OpenAI-compatible)
+  apiKey?: string;
 }
 
 // 自定义批改提示词配置
@@ -84,9 +238,75 @@ export interface GradingPrompts {
   improvementsPrompt: string; // Areas for Improvement 提示词
 }
 
+export type BuiltInOcrEngine = 'handwritingocr' | 'vision-llm' | 'tesseract';
+export type OcrEngineId = BuiltInOcrEngine | (string & {});
+
+// OCR 引擎选择；缺省为 handwritingocr.com
+export interface OcrSettings {
+  engine: OcrEngineId;
+  tesseractLang?: string; // Tesseract language code(s), e.g. "eng" or "eng+chi_sim"
+  lowConfidenceThreshold?: number; // Words below this confidence (0-1) are marked as uncertain
+}
+
+// 批处理队列：各阶段并发数与各服务商每分钟请求上限
+export interface QueueSettings {
+  ocrConcurrency: number;
+  gradingConcurrency: number;
+  requestsPerMinute: number; // Default per-provider limit; 0 = unlimited
+  providerLimits?: Record<string, number>; // Per-provider overrides, keyed by provider id
+}
+
+// 上传图片的预处理（在浏览器中用 canvas 完成，处理后的图片用于OCR和存储）
+export interface ImagePreprocessSettings {
+  enabled: boolean;
+  autoCrop: boolean; // Find the sheet of paper and correct perspective
+  deskew: boolean;
+  grayscale: boolean;
+  contrast: number; // 0 = off … 1 = full auto-levels stretch
+  maxDimension: number; // Longest edge in px
+  quality: number; // JPEG quality 0–1
+}
+
 export interface AgentConfig {
   level: StudentLevel;
   criteria: GradingCriteria;
   model: ModelSettings;
   prompts?: GradingPrompts; // 可选的自定义提示词
+  rubric?: RubricDimension[]; // 可选的自定义评分维度，缺省使用 DEFAULT_RUBRIC
+  examPresetId?: string; // 选中的考试预设（IELTS/高考等）
+  generateRevision?: boolean; // 批改后额外生成一篇修改范文
+  gradeVerifiedOnly?: boolean; // 仅AI批改时跳过OCR未核对的图片作文
+  queue?: QueueSettings; // 缺省使用 DEFAULT_QUEUE_SETTINGS
+  ocr?: OcrSettings;
+  preprocess?: ImagePreprocessSettings; // 缺省使用 DEFAULT_PREPROCESS_SETTINGS
+  exportFileNameTemplate?: string; // 上次使用的报告文件名模板
+  trashRetentionDays?: number; // 回收站保留天数，缺省使用 DEFAULT_TRASH_RETENTION_DAYS
+}
+
+// 合并为一个PDF / 每篇作文一个PDF / 每个学生（同一作业）一个PDF，后两种打包为 zip
+export type ReportSplitMode = 'combined' | 'essay' | 'student';
+export type ReportFormat = 'pdf' | 'docx';
+
+// PDF / Word 报告导出选项（PDFExportModal 中选择）
+export interface ExportOptions {
+  includeImage: boolean;
+  includeOCR: boolean;
+  includeSummary: boolean;
+  includeLists: boolean;
+  includeCorrections: boolean;
+  includeRevision: boolean;
+  fontScale: number; // Percent of the default text size
+  approvedOnly: boolean; // Skip essays without teacher sign-off
+  format: ReportFormat; // Word reports show corrections as tracked changes
+  splitBy: ReportSplitMode;
+  fileNameTemplate: string; // e.g. "{class}_{student}_{date}", used when splitting
+}
+
+// 成绩表：Excel（明细 + 学生×作业汇总两个工作表）或单个 CSV
+export type GradebookFormat = 'xlsx' | 'csv-essays' | 'csv-pivot';
+
+export interface GradebookOptions {
+  format: GradebookFormat;
+  scope: 'filtered' | 'all'; // Current class/assignment filter or every essay
+  approvedOnly: boolean;
 }
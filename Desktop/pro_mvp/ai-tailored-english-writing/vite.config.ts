@@ -19,6 +19,12 @@ export default defineConfig(({ mode }) => {
         'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL),
         'process.env.DEEPSEEK_API_KEY': JSON.stringify(env.DEEPSEEK_API_KEY),
         'process.env.DEEPSEEK_BASE_URL': JSON.stringify(env.DEEPSEEK_BASE_URL),
+        'process.env.ANTHROPIC_API_KEY': JSON.stringify(env.ANTHROPIC_API_KEY),
+        'process.env.ANTHROPIC_BASE_URL': JSON.stringify(env.ANTHROPIC_BASE_URL),
+        'process.env.AZURE_OPENAI_API_KEY': JSON.stringify(env.AZURE_OPENAI_API_KEY),
+        'process.env.AZURE_OPENAI_BASE_URL': JSON.stringify(env.AZURE_OPENAI_BASE_URL),
+        'process.env.AZURE_OPENAI_API_VERSION': JSON.stringify(env.AZURE_OPENAI_API_VERSION),
+        'process.env.OLLAMA_BASE_URL': JSON.stringify(env.OLLAMA_BASE_URL),
         'process.env.APP_URL': JSON.stringify(env.APP_URL),
         'process.env.APP_NAME': JSON.stringify(env.APP_NAME),
         'process.env.HANDWRITING_OCR_API_KEY': JSON.stringify(env.HANDWRITING_OCR_API_KEY),